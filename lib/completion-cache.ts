@@ -0,0 +1,175 @@
+/**
+ * Completion Cache
+ * Stores completions for repeated identical requests
+ *
+ * Entries are keyed by a canonical hash of the model and every request
+ * parameter that affects the output (messages, tools, tool_choice,
+ * temperature, max_tokens, response_format).
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured,
+ * otherwise a per-instance in-memory store. Redis errors fall back to memory
+ * so the cache never fails a request.
+ *
+ * Configuration:
+ * - COMPLETION_CACHE_TTL_SECONDS: entry lifetime (default 3600)
+ */
+
+import { createHash } from 'crypto';
+import type { ChatCompletionRequest } from '@/lib/openai';
+import { getRedisClient } from '@/lib/rate-limit';
+import type { OpenAIChatCompletionResponse } from '@/lib/types/openai-api';
+
+/**
+ * Cache configuration
+ * - defaultTtlSeconds: Entry lifetime when COMPLETION_CACHE_TTL_SECONDS is unset
+ * - maxMemoryEntries: Oldest in-memory entries are evicted beyond this size
+ * - keyPrefix: Versioned key prefix (bump when the key format changes)
+ */
+const CACHE_CONFIG = {
+  defaultTtlSeconds: 60 * 60,
+  maxMemoryEntries: 1000,
+  keyPrefix: 'completion-cache:v1:',
+};
+
+interface MemoryCacheEntry {
+  completion: OpenAIChatCompletionResponse;
+  expiresAt: number;
+}
+
+const memoryCache = new Map<string, MemoryCacheEntry>();
+
+/**
+ * Get the configured entry lifetime in seconds
+ */
+function getTtlSeconds(): number {
+  const ttl = Number(process.env.COMPLETION_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? Math.ceil(ttl) : CACHE_CONFIG.defaultTtlSeconds;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level
+ * Equal requests produce identical strings regardless of key order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Build the cache key for a completion request
+ *
+ * @param model - Requested model
+ * @param request - Completion request sent to the provider
+ * @returns Cache key (prefix + SHA-256 of the canonical request)
+ */
+export function buildCompletionCacheKey(model: string, request: ChatCompletionRequest): string {
+  const canonical = canonicalJson({
+    model,
+    messages: request.messages,
+    tools: request.tools,
+    tool_choice: request.tool_choice,
+    temperature: request.temperature,
+    max_tokens: request.max_tokens,
+    response_format: request.response_format,
+  });
+
+  return CACHE_CONFIG.keyPrefix + createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Type guard for cached completions read back from Redis
+ */
+function isCachedCompletion(value: unknown): value is OpenAIChatCompletionResponse {
+  if (typeof value !== 'object' || value === null) return false;
+  if (!('id' in value) || !('model' in value) || !('choices' in value)) return false;
+  return (
+    typeof value.id === 'string' && typeof value.model === 'string' && Array.isArray(value.choices)
+  );
+}
+
+/**
+ * Read a cached completion
+ *
+ * @param key - Key from buildCompletionCacheKey
+ * @returns Cached completion, or null on a miss
+ */
+export async function getCachedCompletion(
+  key: string
+): Promise<OpenAIChatCompletionResponse | null> {
+  const redis = getRedisClient();
+  if (!redis) {
+    return getMemoryEntry(key, Date.now());
+  }
+
+  try {
+    // Upstash deserializes JSON values automatically
+    const value = await redis.get<unknown>(key);
+    return isCachedCompletion(value) ? value : null;
+  } catch (error) {
+    console.error('[Completion Cache] Redis error, using in-memory fallback', { error });
+    return getMemoryEntry(key, Date.now());
+  }
+}
+
+/**
+ * Store a completion in the cache
+ * Failures are logged and ignored (the response is still returned)
+ *
+ * @param key - Key from buildCompletionCacheKey
+ * @param completion - Completion to store
+ */
+export async function setCachedCompletion(
+  key: string,
+  completion: OpenAIChatCompletionResponse
+): Promise<void> {
+  const ttlSeconds = getTtlSeconds();
+  const redis = getRedisClient();
+  if (!redis) {
+    setMemoryEntry(key, completion, ttlSeconds, Date.now());
+    return;
+  }
+
+  try {
+    await redis.set(key, completion, { ex: ttlSeconds });
+  } catch (error) {
+    console.error('[Completion Cache] Redis error, using in-memory fallback', { error });
+    setMemoryEntry(key, completion, ttlSeconds, Date.now());
+  }
+}
+
+function getMemoryEntry(key: string, now: number): OpenAIChatCompletionResponse | null {
+  const entry = memoryCache.get(key);
+  if (!entry) return null;
+
+  if (now > entry.expiresAt) {
+    memoryCache.delete(key);
+    return null;
+  }
+  return entry.completion;
+}
+
+function setMemoryEntry(
+  key: string,
+  completion: OpenAIChatCompletionResponse,
+  ttlSeconds: number,
+  now: number
+): void {
+  // Re-insert so the key moves to the end of the eviction order
+  memoryCache.delete(key);
+  memoryCache.set(key, { completion, expiresAt: now + ttlSeconds * 1000 });
+
+  // Evict oldest entries (Map iterates in insertion order)
+  for (const oldest of memoryCache.keys()) {
+    if (memoryCache.size <= CACHE_CONFIG.maxMemoryEntries) break;
+    memoryCache.delete(oldest);
+  }
+}
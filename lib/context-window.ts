@@ -0,0 +1,126 @@
+/**
+ * Context Window Budgeting
+ * Trims chat history so requests fit the model's context window
+ *
+ * The budget is the model's context window minus the requested completion
+ * tokens and a safety margin for estimation error (see lib/tokens).
+ *
+ * Trimming drops the oldest history first and:
+ * - Always keeps system messages
+ * - Always keeps the latest turn (the last message group)
+ * - Never splits an assistant tool_call message from its tool results
+ */
+
+import type { ChatCompletionRequest, ChatMessage } from '@/lib/openai';
+import type { ModelSpec } from '@/lib/models';
+import { estimateMessageTokens, estimateRequestOverheadTokens } from '@/lib/tokens';
+
+/**
+ * Context budgeting configuration
+ * - safetyMarginRatio: Share of the context window held back for estimation error
+ */
+export const CONTEXT_WINDOW_CONFIG = {
+  safetyMarginRatio: 0.05,
+};
+
+/**
+ * Result of fitting a request to a context window
+ */
+export interface TrimResult {
+  /** Request with dropped messages removed (unchanged if nothing was dropped) */
+  request: ChatCompletionRequest;
+  /** Number of messages removed */
+  droppedMessages: number;
+  /** Estimated prompt tokens after trimming */
+  estimatedTokens: number;
+  /** Prompt token budget for the model */
+  budgetTokens: number;
+}
+
+/**
+ * Messages that are kept or dropped together
+ */
+interface MessageGroup {
+  messages: ChatMessage[];
+  tokens: number;
+  /** System messages are never dropped */
+  pinned: boolean;
+}
+
+/**
+ * Get the prompt token budget for a model
+ *
+ * @param spec - Model from the registry
+ * @param maxTokens - Completion tokens reserved for the reply
+ * @returns Tokens available for the prompt
+ */
+export function getContextBudget(spec: ModelSpec, maxTokens = 0): number {
+  const usable = Math.floor(spec.contextWindow * (1 - CONTEXT_WINDOW_CONFIG.safetyMarginRatio));
+  return usable - Math.min(maxTokens, spec.maxOutputTokens);
+}
+
+/**
+ * Split messages into groups that must be kept or dropped together
+ * An assistant message with tool calls is grouped with the tool results that follow it
+ */
+function groupMessages(messages: ChatMessage[]): MessageGroup[] {
+  const groups: MessageGroup[] = [];
+
+  for (const message of messages) {
+    const tokens = estimateMessageTokens(message);
+    const previous = groups.at(-1);
+    const continuesToolCall =
+      message.role === 'tool' &&
+      previous !== undefined &&
+      previous.messages[0].role === 'assistant' &&
+      (previous.messages[0].tool_calls?.length ?? 0) > 0;
+
+    if (continuesToolCall) {
+      previous.messages.push(message);
+      previous.tokens += tokens;
+    } else {
+      groups.push({ messages: [message], tokens, pinned: message.role === 'system' });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Drop the oldest history until a request fits the model's context window
+ * If it still doesn't fit with only system messages and the latest turn,
+ * the result reports estimatedTokens above budgetTokens
+ *
+ * @param request - Completion request
+ * @param spec - Model that will serve the request
+ * @returns Trimmed request with the number of dropped messages
+ */
+export function trimToContextWindow(request: ChatCompletionRequest, spec: ModelSpec): TrimResult {
+  const budgetTokens = getContextBudget(spec, request.max_tokens);
+  const groups = groupMessages(request.messages);
+  const latest = groups.at(-1);
+
+  let estimatedTokens =
+    estimateRequestOverheadTokens(request) + groups.reduce((sum, g) => sum + g.tokens, 0);
+
+  const dropped = new Set<MessageGroup>();
+  for (const group of groups) {
+    if (estimatedTokens <= budgetTokens) break;
+    if (group.pinned || group === latest) continue;
+
+    dropped.add(group);
+    estimatedTokens -= group.tokens;
+  }
+
+  if (dropped.size === 0) {
+    return { request, droppedMessages: 0, estimatedTokens, budgetTokens };
+  }
+
+  const kept = groups.filter((group) => !dropped.has(group));
+  return {
+    request: { ...request, messages: kept.flatMap((group) => group.messages) },
+    droppedMessages: request.messages.length - kept.reduce((n, g) => n + g.messages.length, 0),
+    estimatedTokens,
+    budgetTokens,
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Conversation Store
+ * Server-side chat history for conversation sessions
+ *
+ * Conversations hold proto ChatMessages so handlers rebuild the full message
+ * list before conversion, exactly as if the client had sent it. Each
+ * conversation belongs to the device that created it; other devices get
+ * "not found". Every write extends the TTL.
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured,
+ * otherwise a per-instance in-memory store. Redis errors fall back to memory.
+ * Concurrent appends to one conversation are last-writer-wins (the app sends
+ * one request per conversation at a time).
+ *
+ * Configuration:
+ * - CONVERSATION_TTL_SECONDS: lifetime after the last write (default 86400)
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { ChatMessage } from '@/lib/generated/repkit/ai/v1/api_pb';
+import { getRedisClient } from '@/lib/rate-limit';
+
+/**
+ * Conversation configuration
+ * - defaultTtlSeconds: Lifetime when CONVERSATION_TTL_SECONDS is unset
+ * - maxMessages: Longest stored history (requests beyond it are rejected)
+ * - maxMemoryEntries: Oldest in-memory conversations are evicted beyond this size
+ * - keyPrefix: Versioned key prefix (bump when the record format changes)
+ */
+export const CONVERSATION_CONFIG = {
+  defaultTtlSeconds: 24 * 60 * 60,
+  maxMessages: 200,
+  maxMemoryEntries: 1000,
+  keyPrefix: 'conversation:v1:',
+};
+
+/**
+ * Conversation with its decoded history
+ */
+export interface Conversation {
+  id: string;
+  messages: ChatMessage[];
+  /** Expiry (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Stored record (messages are base64 proto binary)
+ */
+interface StoredConversation {
+  owner: string;
+  messages: string[];
+  expiresAt: number;
+}
+
+const memoryStore = new Map<string, StoredConversation>();
+
+/**
+ * Get the configured lifetime in seconds
+ */
+function getTtlSeconds(): number {
+  const ttl = Number(process.env.CONVERSATION_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? Math.ceil(ttl) : CONVERSATION_CONFIG.defaultTtlSeconds;
+}
+
+/**
+ * Owner fingerprint for a device token (device tokens are never stored)
+ */
+function ownerOf(deviceToken: string | undefined): string {
+  return deviceToken ? createHash('sha256').update(deviceToken).digest('hex') : 'anonymous';
+}
+
+/**
+ * Type guard for records read back from Redis
+ */
+function isStoredConversation(value: unknown): value is StoredConversation {
+  if (typeof value !== 'object' || value === null) return false;
+  if (!('owner' in value) || !('expiresAt' in value) || !('messages' in value)) return false;
+  return (
+    typeof value.owner === 'string' &&
+    typeof value.expiresAt === 'number' &&
+    Array.isArray(value.messages) &&
+    value.messages.every((m) => typeof m === 'string')
+  );
+}
+
+function toConversation(id: string, record: StoredConversation): Conversation {
+  return {
+    id,
+    messages: record.messages.map((m) => ChatMessage.fromBinary(Buffer.from(m, 'base64'))),
+    expiresAt: record.expiresAt,
+  };
+}
+
+/**
+ * Create a conversation
+ *
+ * @param deviceToken - Device that owns the conversation (optional)
+ * @param messages - Initial history
+ * @returns New conversation
+ */
+export async function createConversation(
+  deviceToken: string | undefined,
+  messages: ChatMessage[]
+): Promise<Conversation> {
+  const id = randomUUID();
+  const record = buildRecord(ownerOf(deviceToken), messages);
+  await writeRecord(id, record);
+  return toConversation(id, record);
+}
+
+/**
+ * Load a conversation owned by a device
+ *
+ * @param id - Conversation id
+ * @param deviceToken - Device making the request
+ * @returns Conversation, or null if it doesn't exist, expired, or belongs to another device
+ */
+export async function getConversation(
+  id: string,
+  deviceToken: string | undefined
+): Promise<Conversation | null> {
+  const record = await readRecord(id);
+  if (!record || record.owner !== ownerOf(deviceToken)) {
+    return null;
+  }
+  return toConversation(id, record);
+}
+
+/**
+ * Append messages to a conversation and extend its lifetime
+ *
+ * @param conversation - Conversation loaded with getConversation
+ * @param deviceToken - Device that owns the conversation
+ * @param messages - Messages to append (request messages, then the reply)
+ * @returns Updated conversation
+ */
+export async function appendConversationMessages(
+  conversation: Conversation,
+  deviceToken: string | undefined,
+  messages: ChatMessage[]
+): Promise<Conversation> {
+  const record = buildRecord(ownerOf(deviceToken), [...conversation.messages, ...messages]);
+  await writeRecord(conversation.id, record);
+  return toConversation(conversation.id, record);
+}
+
+function buildRecord(owner: string, messages: ChatMessage[]): StoredConversation {
+  return {
+    owner,
+    messages: messages.map((m) => Buffer.from(m.toBinary()).toString('base64')),
+    expiresAt: Date.now() + getTtlSeconds() * 1000,
+  };
+}
+
+async function readRecord(id: string): Promise<StoredConversation | null> {
+  const key = CONVERSATION_CONFIG.keyPrefix + id;
+  const redis = getRedisClient();
+  if (!redis) {
+    return getMemoryRecord(key, Date.now());
+  }
+
+  try {
+    // Upstash deserializes JSON values automatically
+    const value = await redis.get<unknown>(key);
+    return isStoredConversation(value) ? value : null;
+  } catch (error) {
+    console.error('[Conversations] Redis error, using in-memory fallback', { error });
+    return getMemoryRecord(key, Date.now());
+  }
+}
+
+async function writeRecord(id: string, record: StoredConversation): Promise<void> {
+  const key = CONVERSATION_CONFIG.keyPrefix + id;
+  const redis = getRedisClient();
+  if (!redis) {
+    setMemoryRecord(key, record);
+    return;
+  }
+
+  try {
+    await redis.set(key, record, { ex: getTtlSeconds() });
+  } catch (error) {
+    console.error('[Conversations] Redis error, using in-memory fallback', { error });
+    setMemoryRecord(key, record);
+  }
+}
+
+function getMemoryRecord(key: string, now: number): StoredConversation | null {
+  const record = memoryStore.get(key);
+  if (!record) return null;
+
+  if (now > record.expiresAt) {
+    memoryStore.delete(key);
+    return null;
+  }
+  return record;
+}
+
+function setMemoryRecord(key: string, record: StoredConversation): void {
+  // Re-insert so the key moves to the end of the eviction order
+  memoryStore.delete(key);
+  memoryStore.set(key, record);
+
+  // Evict oldest entries (Map iterates in insertion order)
+  for (const oldest of memoryStore.keys()) {
+    if (memoryStore.size <= CONVERSATION_CONFIG.maxMemoryEntries) break;
+    memoryStore.delete(oldest);
+  }
+}
@@ -1,13 +1,29 @@
 /**
  * Proto to OpenAI Conversion
- * Converts proto tool definitions to OpenAI format
+ * Converts proto tool definitions and message content to OpenAI format
  *
  * Handles nested object and array schemas for OpenAI strict mode
  * with depth limits for safety.
  */
 
-import type { Tool, ToolSchema_Property } from '@/lib/generated/repkit/ai/v1/api_pb';
-import type { OpenAITool, OpenAIToolProperty } from '@/lib/types/openai-api';
+import {
+  ImagePart_Detail,
+  ResponseFormat_Type,
+  type ContentPart,
+  type ImagePart,
+  type ResponseFormat,
+  type Tool,
+  type ToolSchema,
+  type ToolSchema_Property,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import type {
+  OpenAIContentPart,
+  OpenAIImageDetail,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolParameters,
+  OpenAIToolProperty,
+} from '@/lib/types/openai-api';
 
 /**
  * Maximum nesting depth for tool schemas
@@ -105,6 +121,25 @@ export function convertProperties(
   return result;
 }
 
+/**
+ * Convert a top-level proto ToolSchema to an OpenAI object schema
+ * Shared by tool parameters and json_schema response formats
+ *
+ * @param schema - Proto object schema
+ * @returns OpenAI JSON Schema object
+ */
+export function convertObjectSchema(schema: InstanceType<typeof ToolSchema>): OpenAIToolParameters {
+  return {
+    type: 'object' as const,
+    properties: convertProperties(schema.properties, 0),
+    required: schema.required || [],
+    // Include additionalProperties at schema level for strict mode
+    ...(schema.additionalProperties !== undefined && {
+      additionalProperties: schema.additionalProperties,
+    }),
+  };
+}
+
 /**
  * Convert proto Tool to OpenAI Tool format
  * OpenAI requires parameters, so tools without them get empty properties
@@ -115,15 +150,7 @@ export function convertProperties(
 export function protoToOpenAITool(tool: InstanceType<typeof Tool>): OpenAITool {
   // Parameters are required by OpenAI - validated during request processing
   const parameters = tool.parameters
-    ? {
-        type: 'object' as const,
-        properties: convertProperties(tool.parameters.properties, 0),
-        required: tool.parameters.required || [],
-        // Include additionalProperties at schema level for strict mode
-        ...(tool.parameters.additionalProperties !== undefined && {
-          additionalProperties: tool.parameters.additionalProperties,
-        }),
-      }
+    ? convertObjectSchema(tool.parameters)
     : {
         type: 'object' as const,
         properties: {},
@@ -142,3 +169,99 @@ export function protoToOpenAITool(tool: InstanceType<typeof Tool>): OpenAITool {
     },
   };
 }
+
+/**
+ * Convert proto ResponseFormat to OpenAI response_format
+ * Unspecified type is treated as text (OpenAI default)
+ *
+ * @param format - Proto response format (validated during request processing)
+ * @returns OpenAI response_format, or undefined if not set
+ */
+export function protoToOpenAIResponseFormat(
+  format: InstanceType<typeof ResponseFormat> | undefined
+): OpenAIResponseFormat | undefined {
+  if (!format) return undefined;
+
+  switch (format.type) {
+    case ResponseFormat_Type.JSON_OBJECT:
+      return { type: 'json_object' };
+    case ResponseFormat_Type.JSON_SCHEMA: {
+      const jsonSchema = format.jsonSchema;
+      if (!jsonSchema?.schema) {
+        throw new Error('json_schema response format requires a schema');
+      }
+
+      return {
+        type: 'json_schema',
+        json_schema: {
+          name: jsonSchema.name,
+          description: jsonSchema.description,
+          schema: convertObjectSchema(jsonSchema.schema),
+          strict: jsonSchema.strict,
+        },
+      };
+    }
+    default:
+      return { type: 'text' };
+  }
+}
+
+/**
+ * Map proto image detail enum to OpenAI detail string
+ * Unspecified falls back to "auto" (OpenAI default)
+ */
+const IMAGE_DETAIL_MAP: Record<ImagePart_Detail, OpenAIImageDetail> = {
+  [ImagePart_Detail.UNSPECIFIED]: 'auto',
+  [ImagePart_Detail.AUTO]: 'auto',
+  [ImagePart_Detail.LOW]: 'low',
+  [ImagePart_Detail.HIGH]: 'high',
+};
+
+/**
+ * Convert a proto ImagePart to an OpenAI image URL
+ * Inline bytes are encoded as a base64 data URL
+ *
+ * @param image - Proto image part (validated during request processing)
+ * @returns URL suitable for OpenAI image_url content
+ * @throws Error if the image has no source
+ */
+export function imagePartToUrl(image: ImagePart): string {
+  switch (image.source.case) {
+    case 'url':
+      return image.source.value;
+    case 'data':
+      return `data:${image.mimeType};base64,${Buffer.from(image.source.value).toString('base64')}`;
+    default:
+      throw new Error('Image part must have either data or url set');
+  }
+}
+
+/**
+ * Convert proto content parts to OpenAI content parts
+ * Empty parts (no oneof case set) are skipped
+ *
+ * @param parts - Proto content parts from a ChatMessage
+ * @returns OpenAI content parts array
+ */
+export function protoToOpenAIContentParts(parts: ContentPart[]): OpenAIContentPart[] {
+  const result: OpenAIContentPart[] = [];
+
+  for (const part of parts) {
+    switch (part.part.case) {
+      case 'text':
+        result.push({ type: 'text', text: part.part.value });
+        break;
+      case 'image':
+        result.push({
+          type: 'image_url',
+          image_url: {
+            url: imagePartToUrl(part.part.value),
+            detail: IMAGE_DETAIL_MAP[part.part.value.detail] ?? 'auto',
+          },
+        });
+        break;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * Request Deadlines
+ * Total-duration limits for completion RPCs
+ *
+ * The effective deadline is the earliest of:
+ * - The client's Connect timeout (connect-timeout-ms / grpc-timeout header)
+ * - The limit for the RPC method (RPC_DEADLINES_MS overrides the defaults)
+ * - The limit for the requested model (MODEL_DEADLINES_MS overrides the registry)
+ *
+ * Retries, backoff and fallbacks all count against the same deadline.
+ * Both overrides are parsed once at startup, so a bad value fails the deploy
+ * instead of every request.
+ */
+
+import { Code, ConnectError, type HandlerContext } from '@connectrpc/connect';
+import { getModelSpec, isModelId, type ModelId } from '@/lib/models';
+
+/**
+ * Default total-duration limits per RPC method
+ */
+export const DEFAULT_RPC_DEADLINES_MS: Record<string, number> = {
+  CreateStandardCompletion: 60_000,
+  CreateMiniCompletion: 30_000,
+  StreamStandardCompletion: 5 * 60_000,
+  StreamMiniCompletion: 2 * 60_000,
+};
+
+/**
+ * Deadline for a single request
+ */
+export interface RequestDeadline {
+  /** Absolute deadline (epoch ms) */
+  deadline: number;
+  /** Total time allowed for the request (ms) */
+  budgetMs: number;
+  /**
+   * Aborts when the client cancels or the deadline passes
+   * The abort reason is a DeadlineExceeded ConnectError for deadlines
+   */
+  signal: AbortSignal;
+  /** Clear the deadline timer (call when the request finishes) */
+  dispose(): void;
+}
+
+/**
+ * Parse a comma-separated "name=ms" list into a map
+ * Throws for invalid durations so misconfiguration fails loudly
+ *
+ * @param value - RPC_DEADLINES_MS or MODEL_DEADLINES_MS
+ * @param variable - Name of the variable, for error messages
+ * @returns Duration per RPC method or model name
+ */
+export function parseDeadlineOverrides(
+  value: string | undefined,
+  variable: string
+): Map<string, number> {
+  const overrides = new Map<string, number>();
+  if (!value) return overrides;
+
+  for (const entry of value.split(',')) {
+    const [name, ms] = entry.split('=').map((part) => part.trim());
+    if (!name) continue;
+
+    const duration = Number(ms);
+    if (!ms || !Number.isFinite(duration) || duration <= 0) {
+      throw new Error(`Invalid duration "${ms ?? ''}" for "${name}" in ${variable}`);
+    }
+    overrides.set(name, duration);
+  }
+  return overrides;
+}
+
+/**
+ * Parse MODEL_DEADLINES_MS
+ * Throws for invalid durations and unknown models
+ *
+ * @param value - MODEL_DEADLINES_MS
+ * @returns Duration per model
+ */
+export function parseModelDeadlines(value: string | undefined): Map<string, number> {
+  const overrides = parseDeadlineOverrides(value, 'MODEL_DEADLINES_MS');
+  for (const name of overrides.keys()) {
+    if (!isModelId(name)) {
+      throw new Error(`Unknown model "${name}" in MODEL_DEADLINES_MS`);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Total-duration limit per RPC method, with RPC_DEADLINES_MS applied to the
+ * defaults at startup
+ */
+export const RPC_DEADLINES: Record<string, number> = {
+  ...DEFAULT_RPC_DEADLINES_MS,
+  ...Object.fromEntries(parseDeadlineOverrides(process.env.RPC_DEADLINES_MS, 'RPC_DEADLINES_MS')),
+};
+
+/**
+ * Per-model overrides of the registry limits, parsed at startup
+ */
+const MODEL_DEADLINES = parseModelDeadlines(process.env.MODEL_DEADLINES_MS);
+
+/**
+ * Get the total-duration limit for an RPC method
+ *
+ * @param method - RPC method name (e.g., "CreateStandardCompletion")
+ * @returns Limit in ms, or undefined if the method has none
+ */
+export function getRpcDeadlineMs(method: string): number | undefined {
+  return RPC_DEADLINES[method];
+}
+
+/**
+ * Get the total-duration limit for a model
+ *
+ * @param model - Canonical model name
+ * @returns Limit in ms
+ */
+export function getModelDeadlineMs(model: ModelId): number {
+  return MODEL_DEADLINES.get(model) ?? getModelSpec(model).maxDurationMs;
+}
+
+/**
+ * Start the deadline for a request
+ * Combines the client's Connect timeout with the RPC and model limits
+ *
+ * @param context - Handler context (client timeout and cancellation signal)
+ * @param model - Requested model
+ * @returns Deadline with a signal that aborts on cancellation or expiry
+ */
+export function startRequestDeadline(context: HandlerContext, model: ModelId): RequestDeadline {
+  const limits = [
+    context.timeoutMs(),
+    getRpcDeadlineMs(context.method.name),
+    getModelDeadlineMs(model),
+  ].filter((limit): limit is number => limit !== undefined);
+
+  const budgetMs = Math.max(0, Math.min(...limits));
+  const controller = new AbortController();
+  const timer = setTimeout(() => {
+    controller.abort(
+      new ConnectError(`Request exceeded its ${budgetMs}ms deadline`, Code.DeadlineExceeded)
+    );
+  }, budgetMs);
+
+  return {
+    deadline: Date.now() + budgetMs,
+    budgetMs,
+    signal: AbortSignal.any([context.signal, controller.signal]),
+    dispose: () => clearTimeout(timer),
+  };
+}
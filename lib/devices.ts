@@ -0,0 +1,263 @@
+/**
+ * Device Registration
+ * Per-device signing secrets, so one extracted secret only exposes one install
+ *
+ * Flow:
+ * 1. The app calls RegisterDevice with its device token, signed with the
+ *    shared HMAC_SECRET (the bootstrap secret shipped in the app)
+ * 2. The server issues a random secret for that device token and stores it;
+ *    it is returned once and cannot be fetched again
+ * 3. Every later request carrying the device token must be signed with the
+ *    device secret; the shared secret is no longer accepted for it
+ * 4. RotateDeviceSecret, signed with the current device secret, replaces it
+ *
+ * A registered device token can't be registered again. Revoked tokens (see
+ * pages/api/admin/devices) are rejected on every RPC, RegisterDevice included,
+ * since the shared secret that signs registrations ships in the app. Only an
+ * admin reset clears a registration, after which the token can register again
+ * (also the way out when someone else registered the token first).
+ *
+ * Requests from unregistered device tokens (and without a device token) are
+ * still verified with the shared secret, so existing installs keep working
+ * until they register. Set REQUIRE_DEVICE_REGISTRATION=true to reject them.
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured,
+ * otherwise a per-instance in-memory store. The store fails closed: Redis
+ * errors and unreadable records throw instead of falling back to memory, and
+ * the in-memory store refuses new devices once full instead of evicting, so a
+ * registered or revoked token never looks unregistered.
+ * Secrets are stored as issued (HMAC verification needs them), keyed by a
+ * hash of the device token.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { getRedisClient } from '@/lib/rate-limit';
+
+/**
+ * Device store configuration
+ * - maxMemoryEntries: In-memory store size; new devices are refused beyond it
+ * - keyPrefix: Versioned key prefix (bump when the record format changes)
+ * - secretBytes: Random bytes per device secret (hex encoded)
+ */
+export const DEVICE_CONFIG = {
+  maxMemoryEntries: 10_000,
+  keyPrefix: 'device:v1:',
+  secretBytes: 32,
+};
+
+/**
+ * Stored registration of a device token
+ */
+export interface DeviceRecord {
+  /** Signing secret issued at registration */
+  secret: string;
+  /** Registration time (epoch ms) */
+  registeredAt: number;
+  /** Revocation time (epoch ms); unset while the device is active */
+  revokedAt?: number;
+}
+
+const memoryStore = new Map<string, DeviceRecord>();
+
+/**
+ * Lua script replacing a device record if it still has the expected secret
+ * KEYS[1]: device key; ARGV: new record (JSON), expected secret
+ */
+const REPLACE_DEVICE_SCRIPT = `
+local current = redis.call("GET", KEYS[1])
+if not current or cjson.decode(current).secret ~= ARGV[2] then return 0 end
+redis.call("SET", KEYS[1], ARGV[1])
+return 1
+`;
+
+/**
+ * Whether requests must come from a registered device token
+ */
+export function isDeviceRegistrationRequired(): boolean {
+  return process.env.REQUIRE_DEVICE_REGISTRATION === 'true';
+}
+
+/**
+ * Issue and store a signing secret for a device token
+ *
+ * @param deviceToken - Device to register
+ * @param now - Current time (epoch ms)
+ * @returns The new device secret, or null if the token is already registered
+ *   (including revoked tokens)
+ * @throws Error if the device store is unavailable or full
+ */
+export async function registerDevice(
+  deviceToken: string,
+  now: number = Date.now()
+): Promise<string | null> {
+  const record: DeviceRecord = { secret: generateSecret(), registeredAt: now };
+  const stored = await storeDevice(deviceToken, record, null);
+  return stored ? record.secret : null;
+}
+
+/**
+ * Replace the secret of an active device
+ *
+ * @param deviceToken - Device whose secret is rotated
+ * @returns The new device secret, or null if the token isn't registered, is
+ *   revoked, or its secret changed concurrently
+ * @throws Error if the device store is unavailable
+ */
+export async function rotateDeviceSecret(deviceToken: string): Promise<string | null> {
+  const current = await getDevice(deviceToken);
+  if (!current || current.revokedAt !== undefined) {
+    return null;
+  }
+
+  const record: DeviceRecord = { ...current, secret: generateSecret() };
+  const stored = await storeDevice(deviceToken, record, current.secret);
+  return stored ? record.secret : null;
+}
+
+/**
+ * Look up a device's registration
+ *
+ * @param deviceToken - Device token from the request
+ * @returns The stored record, or null if the token is not registered
+ * @throws Error if the device store is unavailable or the record is unreadable
+ */
+export async function getDevice(deviceToken: string): Promise<DeviceRecord | null> {
+  const key = deviceKey(deviceToken);
+
+  const redis = getRedisClient();
+  if (!redis) {
+    return memoryStore.get(key) ?? null;
+  }
+
+  // Upstash deserializes JSON values automatically
+  const record = await redis.get<unknown>(key);
+  if (record === null) {
+    return null;
+  }
+  if (!isDeviceRecord(record)) {
+    throw new Error('Malformed device record');
+  }
+  return record;
+}
+
+/**
+ * Revoke a registered device; its requests are rejected until an admin
+ * resets it
+ *
+ * @param deviceToken - Device to revoke
+ * @param now - Current time (epoch ms)
+ * @returns False if the token is not registered
+ * @throws Error if the device store is unavailable
+ */
+export async function revokeDevice(
+  deviceToken: string,
+  now: number = Date.now()
+): Promise<boolean> {
+  const device = await getDevice(deviceToken);
+  if (!device) {
+    return false;
+  }
+  if (device.revokedAt !== undefined) {
+    return true;
+  }
+
+  const record: DeviceRecord = { ...device, revokedAt: now };
+  const key = deviceKey(deviceToken);
+
+  const redis = getRedisClient();
+  if (redis) {
+    await redis.set(key, record);
+    return true;
+  }
+
+  setMemoryRecord(key, record);
+  return true;
+}
+
+/**
+ * Forget a device's registration; the token counts as unregistered again
+ *
+ * @param deviceToken - Device to reset
+ * @returns False if the token was not registered
+ * @throws Error if the device store is unavailable
+ */
+export async function resetDevice(deviceToken: string): Promise<boolean> {
+  const key = deviceKey(deviceToken);
+
+  const redis = getRedisClient();
+  if (redis) {
+    return (await redis.del(key)) > 0;
+  }
+
+  return memoryStore.delete(key);
+}
+
+/**
+ * Store a device record if the current one still has the expected secret
+ *
+ * @param expectedSecret - Secret of the record being replaced, or null to
+ *   only create a record for a new token
+ * @returns False if another write got there first
+ */
+async function storeDevice(
+  deviceToken: string,
+  record: DeviceRecord,
+  expectedSecret: string | null
+): Promise<boolean> {
+  const key = deviceKey(deviceToken);
+
+  const redis = getRedisClient();
+  if (redis) {
+    // Conditional writes so concurrent registrations or rotations can't both win
+    if (expectedSecret === null) {
+      return (await redis.set(key, record, { nx: true })) !== null;
+    }
+    const replaced = await redis.eval<string[], unknown>(
+      REPLACE_DEVICE_SCRIPT,
+      [key],
+      [JSON.stringify(record), expectedSecret]
+    );
+    return Number(replaced) === 1;
+  }
+
+  const current = memoryStore.get(key);
+  if (expectedSecret === null ? current !== undefined : current?.secret !== expectedSecret) {
+    return false;
+  }
+  setMemoryRecord(key, record);
+  return true;
+}
+
+function generateSecret(): string {
+  return randomBytes(DEVICE_CONFIG.secretBytes).toString('hex');
+}
+
+/**
+ * Store key for a device (device tokens are never stored)
+ */
+function deviceKey(deviceToken: string): string {
+  return DEVICE_CONFIG.keyPrefix + createHash('sha256').update(deviceToken).digest('hex');
+}
+
+/**
+ * Type guard for records read back from Redis
+ */
+function isDeviceRecord(value: unknown): value is DeviceRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  if (!('secret' in value) || !('registeredAt' in value)) return false;
+  const revokedAt = 'revokedAt' in value ? value.revokedAt : undefined;
+  return (
+    typeof value.secret === 'string' &&
+    typeof value.registeredAt === 'number' &&
+    (revokedAt === undefined || typeof revokedAt === 'number')
+  );
+}
+
+function setMemoryRecord(key: string, record: DeviceRecord): void {
+  // Never evict: a forgotten registration or revocation would let the token
+  // sign with the shared secret again
+  if (!memoryStore.has(key) && memoryStore.size >= DEVICE_CONFIG.maxMemoryEntries) {
+    throw new Error('In-memory device store is full');
+  }
+  memoryStore.set(key, record);
+}
@@ -0,0 +1,332 @@
+/**
+ * Entitlements
+ * What each subscription plan allows: request rate, spend budget, models and max_tokens
+ *
+ * A device's plan comes from stored records, checked in this order:
+ * 1. Admin override for the device
+ * 2. Admin override for the device's account
+ * 3. Subscription of the device
+ * 4. Subscription of the device's account
+ * 5. Free plan
+ *
+ * Subscriptions are written by the billing integration and overrides by
+ * admins, both through pages/api/admin/entitlements. Devices are linked to an
+ * account at sign-in (pages/api/admin/account-links) so a subscription covers
+ * all of the account's devices. Expired records are ignored. Requests without
+ * a device token get the free plan.
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured,
+ * otherwise a per-instance in-memory store. Redis errors fall back to memory.
+ *
+ * Configuration (free plan / Pro plan):
+ * - RATE_LIMIT_REQUESTS_PER_HOUR / RATE_LIMIT_REQUESTS_PER_HOUR_PRO: Device
+ *   request limit (default 100 / 500)
+ * - QUOTA_DAILY_LIMIT / QUOTA_DAILY_LIMIT_PRO: Budget per UTC day
+ * - QUOTA_MONTHLY_LIMIT / QUOTA_MONTHLY_LIMIT_PRO: Budget per UTC month
+ * - QUOTA_UNIT: "usd" (default) or "tokens", shared by both plans
+ * Unset or 0 budgets mean no budget for that window.
+ */
+
+import { createHash } from 'crypto';
+import { createContextKey, type ContextValues } from '@connectrpc/connect';
+import type { ModelId, ModelTier } from '@/lib/models';
+import type { QuotaLimits } from '@/lib/quotas';
+import { getRedisClient } from '@/lib/rate-limit';
+
+/**
+ * Entitlement store configuration
+ * - maxMemoryEntries: Oldest in-memory records are evicted beyond this size
+ * - keyPrefix: Versioned key prefix (bump when the record format changes)
+ */
+export const ENTITLEMENT_CONFIG = {
+  maxMemoryEntries: 10_000,
+  keyPrefix: 'entitlement:v1:',
+};
+
+/**
+ * Subscription plans
+ */
+export type Plan = 'free' | 'pro';
+
+/**
+ * Type guard for plan names
+ */
+export function isPlan(value: unknown): value is Plan {
+  return value === 'free' || value === 'pro';
+}
+
+/**
+ * Limits that apply to a request
+ */
+export interface Entitlements {
+  plan: Plan;
+  /** Device bucket rate limit (requests per hour) */
+  requestsPerHour: number;
+  /** Spend budgets */
+  quota: QuotaLimits;
+  /** Models the plan may use (fallbacks included) */
+  models: ModelId[];
+  /** Model used per RPC tier when the request doesn't name one */
+  defaultModels: Record<ModelTier, ModelId>;
+  /** Largest max_tokens a request may ask for */
+  maxTokens: number;
+}
+
+/**
+ * Plan granted to a device or account
+ */
+export interface EntitlementGrant {
+  plan: Plan;
+  /** End of the grant (epoch ms); unset = until changed */
+  expiresAt?: number;
+}
+
+/**
+ * Device or account a grant applies to
+ */
+export type EntitlementSubject = { deviceToken: string } | { accountId: string };
+
+/**
+ * Model access and output limits per plan
+ * The free plan never reaches gpt-5.2, including as a fallback
+ */
+const PLAN_MODELS: Record<Plan, Pick<Entitlements, 'models' | 'defaultModels' | 'maxTokens'>> = {
+  free: {
+    models: ['gpt-4o-mini', 'gpt-5-mini'],
+    defaultModels: { standard: 'gpt-5-mini', mini: 'gpt-4o-mini' },
+    maxTokens: 4000,
+  },
+  pro: {
+    models: ['gpt-4o-mini', 'gpt-4o', 'gpt-5-mini', 'gpt-5.2'],
+    defaultModels: { standard: 'gpt-5.2', mini: 'gpt-4o-mini' },
+    maxTokens: 16_000,
+  },
+};
+
+/**
+ * Default device request limits per plan (requests per hour)
+ */
+const DEFAULT_REQUESTS_PER_HOUR: Record<Plan, number> = {
+  free: 100,
+  pro: 500,
+};
+
+/**
+ * Context value holding the entitlements of the request's device
+ * Set by the first interceptor or handler that looks them up
+ */
+export const entitlementsKey = createContextKey<Entitlements | undefined>(undefined, {
+  description: 'Entitlements of the requesting device',
+});
+
+const memoryStore = new Map<string, unknown>();
+
+/**
+ * Read a plan's setting from the environment (free plan uses the unsuffixed name)
+ */
+function planEnv(name: string, plan: Plan): string | undefined {
+  return process.env[plan === 'free' ? name : `${name}_${plan.toUpperCase()}`];
+}
+
+/**
+ * Parse a positive number (non-positive or invalid = undefined)
+ */
+function parsePositive(value: string | undefined): number | undefined {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Get the limits of a plan
+ */
+export function getPlanEntitlements(plan: Plan): Entitlements {
+  return {
+    plan,
+    requestsPerHour:
+      parsePositive(planEnv('RATE_LIMIT_REQUESTS_PER_HOUR', plan)) ??
+      DEFAULT_REQUESTS_PER_HOUR[plan],
+    quota: {
+      unit: process.env.QUOTA_UNIT === 'tokens' ? 'tokens' : 'usd',
+      daily: parsePositive(planEnv('QUOTA_DAILY_LIMIT', plan)),
+      monthly: parsePositive(planEnv('QUOTA_MONTHLY_LIMIT', plan)),
+    },
+    ...PLAN_MODELS[plan],
+  };
+}
+
+/**
+ * Look up the entitlements of a device
+ *
+ * @param deviceToken - Device making the request (free plan without one)
+ * @param now - Current time (epoch ms)
+ * @returns Limits of the device's plan
+ */
+export async function getEntitlements(
+  deviceToken: string | undefined,
+  now: number = Date.now()
+): Promise<Entitlements> {
+  if (!deviceToken) {
+    return getPlanEntitlements('free');
+  }
+
+  const device = subjectId({ deviceToken });
+  const link = await readValue(`${ENTITLEMENT_CONFIG.keyPrefix}account:${device}`);
+  const account = isAccountLink(link) ? subjectId({ accountId: link.accountId }) : null;
+
+  const candidates = [
+    `override:${device}`,
+    account && `override:${account}`,
+    `subscription:${device}`,
+    account && `subscription:${account}`,
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const grant = await readValue(ENTITLEMENT_CONFIG.keyPrefix + candidate);
+    if (isEntitlementGrant(grant) && (grant.expiresAt === undefined || grant.expiresAt > now)) {
+      return getPlanEntitlements(grant.plan);
+    }
+  }
+
+  return getPlanEntitlements('free');
+}
+
+/**
+ * Get the request's entitlements, looking them up once per request
+ *
+ * @param deviceToken - Device making the request
+ * @param values - Request context values (shared by interceptors and handlers)
+ * @returns Limits of the device's plan
+ */
+export async function getRequestEntitlements(
+  deviceToken: string | undefined,
+  values: ContextValues
+): Promise<Entitlements> {
+  const cached = values.get(entitlementsKey);
+  if (cached) {
+    return cached;
+  }
+
+  const entitlements = await getEntitlements(deviceToken);
+  values.set(entitlementsKey, entitlements);
+  return entitlements;
+}
+
+/**
+ * Store the subscription of a device or account (billing integration)
+ *
+ * @param subject - Device or account
+ * @param grant - Subscribed plan, or null when the subscription ended
+ */
+export async function setSubscription(
+  subject: EntitlementSubject,
+  grant: EntitlementGrant | null
+): Promise<void> {
+  await writeValue(`${ENTITLEMENT_CONFIG.keyPrefix}subscription:${subjectId(subject)}`, grant);
+}
+
+/**
+ * Set or clear an admin override (takes precedence over subscriptions)
+ *
+ * @param subject - Device or account
+ * @param grant - Plan to grant, or null to remove the override
+ */
+export async function setEntitlementOverride(
+  subject: EntitlementSubject,
+  grant: EntitlementGrant | null
+): Promise<void> {
+  await writeValue(`${ENTITLEMENT_CONFIG.keyPrefix}override:${subjectId(subject)}`, grant);
+}
+
+/**
+ * Link a device to an account so account records apply to it
+ *
+ * @param deviceToken - Device
+ * @param accountId - Account, or null to unlink
+ */
+export async function linkDeviceToAccount(
+  deviceToken: string,
+  accountId: string | null
+): Promise<void> {
+  await writeValue(
+    `${ENTITLEMENT_CONFIG.keyPrefix}account:${subjectId({ deviceToken })}`,
+    accountId === null ? null : { accountId }
+  );
+}
+
+/**
+ * Key part for a subject (device tokens and account ids are never stored)
+ */
+function subjectId(subject: EntitlementSubject): string {
+  const [kind, id] =
+    'deviceToken' in subject ? ['device', subject.deviceToken] : ['account', subject.accountId];
+  return `${kind}:${createHash('sha256').update(id).digest('hex')}`;
+}
+
+/**
+ * Type guard for grants read back from Redis
+ */
+function isEntitlementGrant(value: unknown): value is EntitlementGrant {
+  if (typeof value !== 'object' || value === null || !('plan' in value)) return false;
+  const expiresAt = 'expiresAt' in value ? value.expiresAt : undefined;
+  return isPlan(value.plan) && (expiresAt === undefined || typeof expiresAt === 'number');
+}
+
+/**
+ * Type guard for device → account links read back from Redis
+ */
+function isAccountLink(value: unknown): value is { accountId: string } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'accountId' in value &&
+    typeof value.accountId === 'string'
+  );
+}
+
+async function readValue(key: string): Promise<unknown> {
+  const redis = getRedisClient();
+  if (!redis) {
+    return memoryStore.get(key) ?? null;
+  }
+
+  try {
+    // Upstash deserializes JSON values automatically
+    return await redis.get<unknown>(key);
+  } catch (error) {
+    console.error('[Entitlements] Redis error, using in-memory fallback', { error });
+    return memoryStore.get(key) ?? null;
+  }
+}
+
+async function writeValue(key: string, value: object | null): Promise<void> {
+  const redis = getRedisClient();
+  if (!redis) {
+    setMemoryValue(key, value);
+    return;
+  }
+
+  try {
+    if (value === null) {
+      await redis.del(key);
+    } else {
+      await redis.set(key, value);
+    }
+  } catch (error) {
+    console.error('[Entitlements] Redis error, using in-memory fallback', { error });
+    setMemoryValue(key, value);
+  }
+}
+
+function setMemoryValue(key: string, value: object | null): void {
+  memoryStore.delete(key);
+  if (value === null) return;
+
+  // Re-insert so the key moves to the end of the eviction order
+  memoryStore.set(key, value);
+
+  // Evict oldest entries (Map iterates in insertion order)
+  for (const oldest of memoryStore.keys()) {
+    if (memoryStore.size <= ENTITLEMENT_CONFIG.maxMemoryEntries) break;
+    memoryStore.delete(oldest);
+  }
+}
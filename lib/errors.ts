@@ -0,0 +1,67 @@
+/**
+ * Error Reasons
+ * Machine-readable reasons attached to Connect errors as ErrorInfo details
+ *
+ * Clients branch on the reason (err.findDetails(ErrorInfo)) instead of
+ * parsing error messages, which are free to change.
+ */
+
+import { Code, ConnectError } from '@connectrpc/connect';
+import { ErrorInfo } from '@/lib/generated/repkit/ai/v1/api_pb';
+
+/**
+ * Domain reported in every ErrorInfo
+ */
+export const ERROR_DOMAIN = 'repkit.ai';
+
+/**
+ * Error reasons sent to clients
+ * - CONTENT_FLAGGED: Moderation flagged the user's messages
+ * - QUOTA_EXHAUSTED: The device used up its daily or monthly spend budget
+ * - NOT_ENTITLED: The device's plan doesn't include the requested model or max_tokens
+ * - TOO_MANY_STREAMS: The device or IP address already has the maximum streams open
+ * - DEVICE_NOT_REGISTERED: Registration is required and the device token has no secret yet
+ * - DEVICE_REVOKED: The device's secret was revoked
+ * - REQUEST_REPLAYED: The signed request was already accepted once
+ * - CONVERSATION_IMAGE_LIMIT: The conversation history sent to the model holds
+ *   more images than a request allows; start a new conversation
+ */
+export type ErrorReason =
+  | 'CONTENT_FLAGGED'
+  | 'QUOTA_EXHAUSTED'
+  | 'NOT_ENTITLED'
+  | 'TOO_MANY_STREAMS'
+  | 'DEVICE_NOT_REGISTERED'
+  | 'DEVICE_REVOKED'
+  | 'REQUEST_REPLAYED'
+  | 'CONVERSATION_IMAGE_LIMIT';
+
+/**
+ * Create a ConnectError carrying an ErrorInfo detail
+ *
+ * @param message - Human-readable message (no user content)
+ * @param code - Connect status code
+ * @param reason - Machine-readable reason
+ * @param metadata - Reason-specific details
+ * @returns ConnectError with the ErrorInfo attached
+ */
+export function connectErrorWithReason(
+  message: string,
+  code: Code,
+  reason: ErrorReason,
+  metadata: Record<string, string> = {}
+): ConnectError {
+  return new ConnectError(message, code, undefined, [
+    new ErrorInfo({ reason, domain: ERROR_DOMAIN, metadata }),
+  ]);
+}
+
+/**
+ * Get the ErrorInfo reason of an error, if it has one
+ */
+export function getErrorReason(error: unknown): string | undefined {
+  if (!(error instanceof ConnectError)) {
+    return undefined;
+  }
+  return error.findDetails(ErrorInfo)[0]?.reason;
+}
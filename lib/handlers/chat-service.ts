@@ -10,12 +10,24 @@
  */
 const STREAM_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
 
-import { ConnectRouter, Code, ConnectError } from '@connectrpc/connect';
+import { ConnectRouter, Code, ConnectError, type HandlerContext } from '@connectrpc/connect';
 import { ChatService } from '@/lib/generated/repkit/ai/v1/api_connect';
 import {
   CreateChatCompletionRequest,
   ChatCompletionResponse,
   ChatCompletionChunk,
+  CreateChatCompletionRequest_CacheMode,
+  CreateConversationRequest,
+  CreateConversationResponse,
+  CountTokensResponse,
+  GetQuotaRequest,
+  GetQuotaResponse,
+  ModelCostEstimate,
+  RateLimitBucket,
+  RegisterDeviceRequest,
+  RegisterDeviceResponse,
+  RotateDeviceSecretRequest,
+  RotateDeviceSecretResponse,
   ChatMessage as ProtoMessage,
   Choice,
   Delta,
@@ -24,20 +36,91 @@ import {
   ToolCall,
   Usage,
   PromptTokenDetails,
+  ResponseMetadata,
+  type PromptTemplateRef,
 } from '@/lib/generated/repkit/ai/v1/api_pb';
 import {
-  createChatCompletion,
-  createChatCompletionStream,
+  calculateCost,
+  createChatCompletionWithFallback,
+  createChatCompletionStreamWithFallback,
+  type ChatCompletionRequest,
   type ChatMessage as OpenAIMessage,
 } from '@/lib/openai';
+import {
+  CONVERSATION_CONFIG,
+  appendConversationMessages,
+  createConversation,
+  getConversation,
+  type Conversation,
+} from '@/lib/conversations';
+import {
+  buildCompletionCacheKey,
+  getCachedCompletion,
+  setCachedCompletion,
+} from '@/lib/completion-cache';
+import {
+  DEFAULT_MODELS,
+  getFallbackChain,
+  getModelSpec,
+  isModelId,
+  listModelsForTier,
+  resolveModel,
+  type ModelId,
+  type ModelSpec,
+  type ModelTier,
+} from '@/lib/models';
+import {
+  getPromptTemplate,
+  promptTemplateKey,
+  renderPromptTemplate,
+  validatePromptVariables,
+  type PromptTemplateUsage,
+} from '@/lib/prompts';
+import { isAbortError } from '@/lib/providers/errors';
+import { startRequestDeadline, type RequestDeadline } from '@/lib/deadlines';
+import {
+  getContextBudget,
+  trimToContextWindow,
+  type TrimResult,
+} from '@/lib/context-window';
+import { estimatePromptTokenBreakdown, streamPromptEstimateKey } from '@/lib/tokens';
+import { moderateMessages } from '@/lib/moderation';
+import {
+  createPiiRedaction,
+  isPiiRedactionEnabled,
+  redactMessages,
+  restoreCompletion,
+  restoreStream,
+  type PiiRedaction,
+} from '@/lib/redaction';
+import { connectErrorWithReason } from '@/lib/errors';
+import { getRequestEntitlements, type Entitlements } from '@/lib/entitlements';
+import { peekRateLimit, type RateLimitInfo } from '@/lib/rate-limit';
+import { registerDevice, rotateDeviceSecret } from '@/lib/devices';
+import { anonymize } from '@/lib/utils/anonymize';
+import { logger } from '@/lib/utils/logger';
+import { getClientIp } from '@/lib/utils/client-ip';
 import { validateTools } from '@/lib/validators/tool';
 import {
+  MAX_IMAGES_PER_REQUEST,
+  MAX_TOTAL_IMAGE_BYTES,
+  validateMessageContent,
+} from '@/lib/validators/content';
+import { validateResponseFormat } from '@/lib/validators/response-format';
+import {
+  type OpenAIResponseFormat,
   type OpenAITool,
   type OpenAIToolChoice,
+  type OpenAIChatCompletionChunk,
+  type OpenAIChatCompletionChunkDelta,
   type OpenAIChatCompletionResponse,
   isErrorWithStatus,
 } from '@/lib/types/openai-api';
-import { protoToOpenAITool } from '@/lib/converters/proto-to-openai';
+import {
+  protoToOpenAITool,
+  protoToOpenAIContentParts,
+  protoToOpenAIResponseFormat,
+} from '@/lib/converters/proto-to-openai';
 
 /**
  * Convert proto ToolChoice to OpenAI ToolChoice format
@@ -95,7 +178,9 @@ function protoToOpenAIMessage(msg: ProtoMessage): OpenAIMessage {
 
   return {
     role: roleMap[msg.role as ChatMessage_Role] || 'user',
-    content: msg.content ?? null,
+    content: msg.contentParts && msg.contentParts.length > 0
+      ? protoToOpenAIContentParts(msg.contentParts)
+      : msg.content ?? null,
     name: msg.name,
     tool_call_id: msg.toolCallId,
     tool_calls: msg.toolCalls?.map((tc: ToolCall) => ({
@@ -113,11 +198,8 @@ function protoToOpenAIMessage(msg: ProtoMessage): OpenAIMessage {
  * Convert OpenAI response to proto ChatCompletionResponse
  */
 function openAIToProtoResponse(
-  response: Awaited<ReturnType<typeof createChatCompletion>>
+  completion: OpenAIChatCompletionResponse
 ): ChatCompletionResponse {
-  // Type assert the response with our known structure
-  const completion = response as unknown as OpenAIChatCompletionResponse;
-
   const protoResponse = new ChatCompletionResponse({
     id: completion.id,
     model: completion.model,
@@ -148,21 +230,134 @@ function openAIToProtoResponse(
   }
 
   if (completion.usage) {
-    const cachedTokens = completion.usage.prompt_tokens_details?.cached_tokens || 0;
-
-    protoResponse.usage = new Usage({
-      promptTokens: completion.usage.prompt_tokens,
-      completionTokens: completion.usage.completion_tokens,
-      totalTokens: completion.usage.total_tokens,
-      promptTokensDetails: cachedTokens
-        ? new PromptTokenDetails({ cachedTokens })
-        : undefined,
-    });
+    protoResponse.usage = openAIToProtoUsage(completion.usage);
   }
 
   return protoResponse;
 }
 
+/**
+ * Convert OpenAI token usage to proto Usage
+ */
+function openAIToProtoUsage(
+  usage: NonNullable<OpenAIChatCompletionResponse['usage']>
+): Usage {
+  const cachedTokens = usage.prompt_tokens_details?.cached_tokens || 0;
+
+  return new Usage({
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+    promptTokensDetails: cachedTokens
+      ? new PromptTokenDetails({ cachedTokens })
+      : undefined,
+  });
+}
+
+/**
+ * Convert OpenAI streaming chunk to proto ChatCompletionChunk
+ */
+function openAIToProtoChunk(
+  openaiChunk: OpenAIChatCompletionChunk
+): ChatCompletionChunk {
+  const chunk = new ChatCompletionChunk({
+    id: openaiChunk.id,
+    model: openaiChunk.model,
+    created: openaiChunk.created.toString(),
+    object: 'chat.completion.chunk',
+  });
+
+  if (openaiChunk.choices && openaiChunk.choices.length > 0) {
+    chunk.choices = openaiChunk.choices.map((choice) => {
+      const deltaContent = choice.delta?.content;
+      const deltaToolCalls = choice.delta?.tool_calls?.map((tc) => ({
+        index: tc.index,
+        id: tc.id,
+        type: 'function' as const,
+        function: {
+          name: tc.function?.name || '',
+          arguments: tc.function?.arguments || '',
+        },
+      })) || [];
+
+      return new DeltaChoice({
+        index: choice.index,
+        finishReason: choice.finish_reason || '',
+        delta: new Delta({
+          role: 'assistant',
+          content: deltaContent ?? undefined,
+          toolCalls: deltaToolCalls.length > 0 ? deltaToolCalls : undefined,
+        }),
+      });
+    });
+  }
+
+  // Final chunk (choices empty) carries usage when include_usage is set
+  if (openaiChunk.usage) {
+    chunk.usage = openAIToProtoUsage(openaiChunk.usage);
+  }
+
+  return chunk;
+}
+
+/**
+ * Assistant reply collected from a completion, stored in conversation history
+ */
+interface AssistantReply {
+  content: string | null;
+  toolCalls: Array<{ id: string; name: string; arguments: string }>;
+}
+
+/**
+ * Get the assistant reply from a unary completion
+ */
+function replyFromCompletion(completion: OpenAIChatCompletionResponse): AssistantReply {
+  const message = completion.choices[0]?.message;
+  return {
+    content: message?.content ?? null,
+    toolCalls: (message?.tool_calls ?? []).map((tc) => ({
+      id: tc.id,
+      name: tc.function.name,
+      arguments: tc.function.arguments,
+    })),
+  };
+}
+
+/**
+ * Add a streamed delta to the reply being collected
+ * Tool call fragments are joined by their index
+ */
+function appendDeltaToReply(reply: AssistantReply, delta: OpenAIChatCompletionChunkDelta): void {
+  if (delta.content) {
+    reply.content = (reply.content ?? '') + delta.content;
+  }
+
+  for (const tc of delta.tool_calls ?? []) {
+    const call = (reply.toolCalls[tc.index] ??= { id: '', name: '', arguments: '' });
+    call.id ||= tc.id ?? '';
+    call.name += tc.function?.name ?? '';
+    call.arguments += tc.function?.arguments ?? '';
+  }
+}
+
+/**
+ * Convert an assistant reply to a proto ChatMessage for conversation history
+ */
+function replyToProtoMessage(reply: AssistantReply): ProtoMessage {
+  return new ProtoMessage({
+    role: ChatMessage_Role.ASSISTANT,
+    content: reply.content ?? undefined,
+    toolCalls: reply.toolCalls.filter(Boolean).map(
+      (tc) =>
+        new ToolCall({
+          id: tc.id,
+          type: 'function',
+          function: { name: tc.name, arguments: tc.arguments },
+        })
+    ),
+  });
+}
+
 /**
  * Wraps an async generator with timeout detection
  * Prevents streams from hanging indefinitely by enforcing a max duration between chunks
@@ -186,10 +381,12 @@ async function* withStreamTimeout<T>(
       );
     }
 
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
     try {
       // Create a timeout promise that rejects if no chunk arrives in time
       const timeoutPromise = new Promise<IteratorResult<T>>((_, reject) => {
-        setTimeout(
+        timer = setTimeout(
           () => reject(new ConnectError(
             'Stream timeout: no data received within 5 minutes',
             Code.DeadlineExceeded
@@ -217,6 +414,9 @@ async function* withStreamTimeout<T>(
       }
       // For other errors, stop the stream
       throw error;
+    } finally {
+      // Don't leave a pending timer behind for every chunk
+      clearTimeout(timer);
     }
   }
 }
@@ -229,9 +429,47 @@ interface ValidatedRequest {
   messages: OpenAIMessage[];
   tools?: OpenAITool[];
   toolChoice?: OpenAIToolChoice;
+  responseFormat?: OpenAIResponseFormat;
+  promptTemplate?: PromptTemplateUsage;
+}
+
+/**
+ * Render a referenced prompt template as a system message
+ *
+ * @param ref - Template reference and variables from the request
+ * @returns System message and the template version that rendered it
+ * @throws ConnectError with InvalidArgument for unknown templates or invalid variables
+ */
+function renderRequestPromptTemplate(ref: PromptTemplateRef): {
+  message: OpenAIMessage;
+  usage: PromptTemplateUsage;
+} {
+  const template = getPromptTemplate(ref.id);
+  if (!template) {
+    throw new ConnectError(`Unknown prompt template "${ref.id}"`, Code.InvalidArgument);
+  }
+
+  const values = Object.fromEntries(
+    Object.entries(ref.variables).map(([name, variable]) => [name, variable.value.value])
+  );
+  const variableErrors = validatePromptVariables(template, values);
+  if (variableErrors.length > 0) {
+    throw new ConnectError(
+      `Invalid prompt template variables: ${variableErrors.join('; ')}`,
+      Code.InvalidArgument
+    );
+  }
+
+  return {
+    message: { role: 'system', content: renderPromptTemplate(template, values) },
+    usage: { name: template.name, version: template.version },
+  };
 }
 
-function validateAndConvertRequest(req: CreateChatCompletionRequest): ValidatedRequest {
+function validateAndConvertRequest(
+  req: CreateChatCompletionRequest,
+  history: ProtoMessage[] = []
+): ValidatedRequest {
   // Validate input
   if (!req.messages || req.messages.length === 0) {
     throw new ConnectError(
@@ -240,6 +478,17 @@ function validateAndConvertRequest(req: CreateChatCompletionRequest): ValidatedR
     );
   }
 
+  // Validate multi-part content (image count, size and type limits)
+  // Stored history was validated when it was stored; its images count against
+  // the limits only while they are still sent (see checkSentImages)
+  const contentErrors = validateMessageContent(req.messages);
+  if (contentErrors.length > 0) {
+    throw new ConnectError(
+      `Invalid message content: ${contentErrors.join('; ')}`,
+      Code.InvalidArgument
+    );
+  }
+
   // Validate tool schemas
   if (req.tools && req.tools.length > 0) {
     const toolErrors = validateTools(req.tools);
@@ -251,59 +500,773 @@ function validateAndConvertRequest(req: CreateChatCompletionRequest): ValidatedR
     }
   }
 
+  // Validate structured output schema (same rules as tool schemas)
+  if (req.responseFormat) {
+    const formatErrors = validateResponseFormat(req.responseFormat);
+    if (formatErrors.length > 0) {
+      throw new ConnectError(
+        `Invalid response format: ${formatErrors.join('; ')}`,
+        Code.InvalidArgument
+      );
+    }
+  }
+
+  // Stored conversation history goes before the new messages,
+  // and the server-managed system prompt before both
+  const messages = [...history, ...req.messages].map(protoToOpenAIMessage);
+  const rendered = req.promptTemplate
+    ? renderRequestPromptTemplate(req.promptTemplate)
+    : undefined;
+
   return {
-    messages: req.messages.map(protoToOpenAIMessage),
+    messages: rendered ? [rendered.message, ...messages] : messages,
     tools: req.tools?.map(protoToOpenAITool),
     toolChoice: protoToOpenAIToolChoice(req.toolChoice),
+    responseFormat: protoToOpenAIResponseFormat(req.responseFormat),
+    promptTemplate: rendered?.usage,
   };
 }
 
+/**
+ * Load the conversation a request appends to
+ *
+ * @param req - Proto request
+ * @returns Conversation, or undefined for stateless requests
+ * @throws ConnectError with NotFound for unknown, expired or foreign conversations,
+ *   FailedPrecondition when the request would exceed the message limit
+ */
+async function loadRequestConversation(
+  req: CreateChatCompletionRequest
+): Promise<Conversation | undefined> {
+  if (!req.conversationId) {
+    return undefined;
+  }
+
+  const conversation = await getConversation(req.conversationId, req.deviceToken);
+  if (!conversation) {
+    throw new ConnectError(
+      `Conversation "${req.conversationId}" not found or expired`,
+      Code.NotFound
+    );
+  }
+
+  // New messages plus the reply must fit
+  if (conversation.messages.length + req.messages.length + 1 > CONVERSATION_CONFIG.maxMessages) {
+    throw new ConnectError(
+      `Conversation reached its ${CONVERSATION_CONFIG.maxMessages} message limit; start a new conversation`,
+      Code.FailedPrecondition
+    );
+  }
+
+  return conversation;
+}
+
+/**
+ * Check whether a model can serve a request on an RPC tier
+ *
+ * @param spec - Model from the registry
+ * @param req - Proto request
+ * @param tier - RPC tier serving the request
+ * @param history - Stored conversation history sent along with the request
+ * @returns Reason the model can't serve the request, or null if it can
+ */
+function modelRejectionReason(
+  spec: ModelSpec,
+  req: CreateChatCompletionRequest,
+  tier: ModelTier,
+  history: ProtoMessage[]
+): string | null {
+  if (!spec.tiers.includes(tier)) {
+    return `Model "${spec.id}" is not available for ${tier} completions. Supported models: ${listModelsForTier(tier).join(', ')}`;
+  }
+
+  if (req.tools.length > 0 && !spec.supportsTools) {
+    return `Model "${spec.id}" does not support tools`;
+  }
+
+  const hasImages = [...history, ...req.messages].some((m) =>
+    m.contentParts.some((p) => p.part.case === 'image')
+  );
+  if (hasImages && !spec.supportsImages) {
+    return `Model "${spec.id}" does not support images`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the model for a request from the model registry
+ * Uses the plan's tier default when req.model is unset; rejects unknown
+ * models, models not allowed for the RPC tier, requests needing capabilities
+ * the model lacks, and models the device's plan doesn't include
+ *
+ * @param req - Proto request
+ * @param tier - RPC tier serving the request
+ * @param entitlements - Limits of the device's plan
+ * @param history - Stored conversation history sent along with the request
+ * @returns Canonical model name
+ * @throws ConnectError with InvalidArgument if the model can't serve the request,
+ *   or PermissionDenied (reason NOT_ENTITLED) if the plan doesn't include it
+ */
+function resolveRequestModel(
+  req: CreateChatCompletionRequest,
+  tier: ModelTier,
+  entitlements: Entitlements,
+  history: ProtoMessage[] = []
+): ModelId {
+  if (!req.model) {
+    return entitlements.defaultModels[tier];
+  }
+
+  const spec = resolveModel(req.model);
+  if (!spec || !isModelId(spec.id)) {
+    throw new ConnectError(
+      `Unknown model "${req.model}". Supported models: ${listModelsForTier(tier).join(', ')}`,
+      Code.InvalidArgument
+    );
+  }
+
+  const rejection = modelRejectionReason(spec, req, tier, history);
+  if (rejection) {
+    throw new ConnectError(rejection, Code.InvalidArgument);
+  }
+
+  if (!entitlements.models.includes(spec.id)) {
+    throw connectErrorWithReason(
+      `Model "${spec.id}" is not included in the ${entitlements.plan} plan`,
+      Code.PermissionDenied,
+      'NOT_ENTITLED',
+      { plan: entitlements.plan, model: spec.id }
+    );
+  }
+
+  return spec.id;
+}
+
+/**
+ * Reject max_tokens above the plan's limit
+ *
+ * @throws ConnectError with PermissionDenied and reason NOT_ENTITLED
+ */
+function checkMaxTokens(req: CreateChatCompletionRequest, entitlements: Entitlements): void {
+  if (req.maxTokens !== undefined && req.maxTokens > entitlements.maxTokens) {
+    throw connectErrorWithReason(
+      `max_tokens ${req.maxTokens} exceeds the ${entitlements.plan} plan limit of ${entitlements.maxTokens}`,
+      Code.PermissionDenied,
+      'NOT_ENTITLED',
+      { plan: entitlements.plan, max_tokens: String(entitlements.maxTokens) }
+    );
+  }
+}
+
+/**
+ * Models to try for a request: the resolved model, then its configured
+ * fallbacks that the plan includes, can also serve the request on this tier
+ * and fit the trimmed prompt in their context window
+ */
+function resolveFallbackChain(
+  model: ModelId,
+  req: CreateChatCompletionRequest,
+  tier: ModelTier,
+  trimmed: TrimResult,
+  entitlements: Entitlements,
+  history: ProtoMessage[] = []
+): ModelId[] {
+  return getFallbackChain(model).filter((candidate) => {
+    if (candidate === model) return true;
+
+    const spec = getModelSpec(candidate);
+    return (
+      entitlements.models.includes(candidate) &&
+      modelRejectionReason(spec, req, tier, history) === null &&
+      getContextBudget(spec, trimmed.request.max_tokens) >= trimmed.estimatedTokens
+    );
+  });
+}
+
+/**
+ * Trim the oldest history so a request fits the model's context window
+ *
+ * @param request - Provider request
+ * @param model - Requested model
+ * @returns Trimmed request and the number of dropped messages
+ * @throws ConnectError with InvalidArgument if system messages and the latest
+ *   turn alone exceed the context window
+ */
+function fitToContextWindow(request: ChatCompletionRequest, model: ModelId): TrimResult {
+  const trimmed = trimToContextWindow(request, getModelSpec(model));
+  if (trimmed.estimatedTokens > trimmed.budgetTokens) {
+    throw new ConnectError(
+      `Request too large for ${model}: about ${trimmed.estimatedTokens} prompt tokens, limit ${trimmed.budgetTokens} (including max_tokens)`,
+      Code.InvalidArgument
+    );
+  }
+  return trimmed;
+}
+
+/**
+ * Apply the request image limits to the messages sent to the model
+ * Conversation history only counts while context trimming keeps it; once the
+ * images still sent exceed the limits the conversation can't continue
+ *
+ * @param request - Trimmed completion request
+ * @throws ConnectError with FailedPrecondition and reason
+ *   CONVERSATION_IMAGE_LIMIT, so the app starts a new conversation
+ */
+function checkSentImages(request: ChatCompletionRequest): void {
+  let imageCount = 0;
+  let imageBytes = 0;
+  for (const message of request.messages) {
+    if (!Array.isArray(message.content)) continue;
+
+    for (const part of message.content) {
+      if (part.type !== 'image_url') continue;
+
+      imageCount++;
+      const { url } = part.image_url;
+      if (url.startsWith('data:')) {
+        imageBytes += Buffer.byteLength(url.slice(url.indexOf(',') + 1), 'base64');
+      }
+    }
+  }
+
+  if (imageCount > MAX_IMAGES_PER_REQUEST || imageBytes > MAX_TOTAL_IMAGE_BYTES) {
+    throw connectErrorWithReason(
+      `Conversation history holds more images than a request can send (${imageCount} images, maximum ${MAX_IMAGES_PER_REQUEST}); start a new conversation`,
+      Code.FailedPrecondition,
+      'CONVERSATION_IMAGE_LIMIT',
+      { max_images: String(MAX_IMAGES_PER_REQUEST) }
+    );
+  }
+}
+
+/**
+ * Reject requests whose new user messages are flagged by moderation
+ * Runs before the completion cache and the model call, so flagged requests
+ * cost nothing
+ *
+ * @param req - Proto request
+ * @param validated - Converted messages (template, history, then new messages)
+ * @param model - Requested model (its provider moderates)
+ * @param signal - Aborts the moderation call
+ * @throws ConnectError with PermissionDenied and reason CONTENT_FLAGGED
+ */
+async function moderateRequest(
+  req: CreateChatCompletionRequest,
+  validated: ValidatedRequest,
+  model: ModelId,
+  signal: AbortSignal
+): Promise<void> {
+  // Stored conversation history was screened when it was first sent
+  // (or when CreateConversation stored it)
+  await rejectFlaggedMessages(validated.messages.slice(-req.messages.length), model, signal);
+}
+
+/**
+ * Reject messages whose user turns are flagged by moderation
+ *
+ * @param messages - Messages in OpenAI format
+ * @param model - Model whose provider moderates
+ * @param signal - Aborts the moderation call
+ * @throws ConnectError with PermissionDenied and reason CONTENT_FLAGGED
+ */
+async function rejectFlaggedMessages(
+  messages: OpenAIMessage[],
+  model: ModelId,
+  signal: AbortSignal
+): Promise<void> {
+  const verdict = await moderateMessages(messages, model, { signal });
+
+  if (verdict.flagged) {
+    const categories = Object.keys(verdict.categoryCounts).sort().join(',');
+    throw connectErrorWithReason(
+      `Request blocked by content moderation (${categories})`,
+      Code.PermissionDenied,
+      'CONTENT_FLAGGED',
+      { categories }
+    );
+  }
+}
+
+/**
+ * Redact personal data from the outbound messages when the request or the
+ * server enables it
+ *
+ * @param req - Proto request
+ * @param validated - Converted request
+ * @returns Request with redacted messages and the redaction state for
+ *   restoring the reply (unchanged request and no state when disabled)
+ */
+function redactRequest(
+  req: CreateChatCompletionRequest,
+  validated: ValidatedRequest
+): { validated: ValidatedRequest; redaction?: PiiRedaction } {
+  if (!isPiiRedactionEnabled(req.redactPii)) {
+    return { validated };
+  }
+
+  const redaction = createPiiRedaction();
+  return {
+    validated: { ...validated, messages: redactMessages(redaction, validated.messages) },
+    redaction,
+  };
+}
+
+/**
+ * Check whether replies are JSON (restored values must be JSON-escaped)
+ */
+function hasJsonContent(validated: ValidatedRequest): boolean {
+  return validated.responseFormat !== undefined && validated.responseFormat.type !== 'text';
+}
+
+/**
+ * Server-side details for response metadata
+ */
+interface ResponseDetails {
+  cacheHit?: boolean;
+  messagesDropped?: number;
+  piiRedactions?: number;
+}
+
+/**
+ * Build response metadata reporting which model served a request
+ */
+function buildResponseMetadata(
+  requestedModel: ModelId,
+  servedModel: ModelId,
+  { cacheHit = false, messagesDropped = 0, piiRedactions = 0 }: ResponseDetails = {}
+): ResponseMetadata {
+  return new ResponseMetadata({
+    requestedModel,
+    servedModel,
+    fallbackUsed: servedModel !== requestedModel,
+    cacheHit,
+    messagesDropped,
+    piiRedactions,
+  });
+}
+
+/**
+ * Build the provider request from a validated proto request
+ * Applies the default temperature and token limit
+ */
+function buildCompletionRequest(
+  req: CreateChatCompletionRequest,
+  validated: ValidatedRequest
+): ChatCompletionRequest {
+  return {
+    messages: validated.messages,
+    temperature: req.temperature ?? 0.7,
+    max_tokens: req.maxTokens ?? 2000,
+    tools: validated.tools,
+    tool_choice: validated.toolChoice,
+    response_format: validated.responseFormat,
+  };
+}
+
+/**
+ * Check whether a unary request may use the completion cache
+ * By default only deterministic requests (temperature 0) are cached;
+ * clients can opt in at any temperature or opt out entirely
+ */
+function isCacheable(req: CreateChatCompletionRequest): boolean {
+  switch (req.cacheMode) {
+    case CreateChatCompletionRequest_CacheMode.ENABLED:
+      return true;
+    case CreateChatCompletionRequest_CacheMode.DISABLED:
+      return false;
+    default:
+      return req.temperature === 0;
+  }
+}
+
 /**
  * Shared request handler logic
  * Reduces duplication between createStandardCompletion and createMiniCompletion
+ * The upstream call is aborted when the client disconnects or the request
+ * deadline passes
  */
 async function handleChatCompletionRequest(
   req: CreateChatCompletionRequest,
-  defaultModel: 'gpt-5.2' | 'gpt-4o-mini'
+  tier: ModelTier,
+  context: HandlerContext
 ): Promise<ChatCompletionResponse> {
+  let deadline: RequestDeadline | undefined;
+
   try {
+    // Rebuild the full history for conversation requests
+    const conversation = await loadRequestConversation(req);
+
     // Validate and convert request
-    const validated = validateAndConvertRequest(req);
-
-    // Determine model to use (client can override via req.model)
-    type ValidModel = 'gpt-4o-mini' | 'gpt-4o' | 'gpt-5-mini' | 'gpt-5.2';
-    const isValidModel = (value: string | undefined): value is ValidModel => {
-      return value !== undefined && ['gpt-4o-mini', 'gpt-4o', 'gpt-5-mini', 'gpt-5.2'].includes(value);
-    };
-
-    const model: ValidModel = isValidModel(req.model) ? req.model : defaultModel;
-
-    // Call OpenAI with configurable model
-    const completion = await createChatCompletion(model, {
-      messages: validated.messages,
-      temperature: req.temperature ?? 0.7,
-      max_tokens: req.maxTokens ?? 2000,
-      tools: validated.tools,
-      tool_choice: validated.toolChoice,
-    });
+    const converted = validateAndConvertRequest(req, conversation?.messages);
+    context.values.set(promptTemplateKey, converted.promptTemplate);
+
+    // Keep personal data out of everything sent upstream (moderation included)
+    const { validated, redaction } = redactRequest(req, converted);
+
+    // Determine model to use (client can override via req.model) within the plan
+    const entitlements = await getRequestEntitlements(req.deviceToken, context.values);
+    const model = resolveRequestModel(req, tier, entitlements, conversation?.messages);
+    checkMaxTokens(req, entitlements);
+
+    // Drop the oldest history that doesn't fit the model's context window
+    const trimmed = fitToContextWindow(buildCompletionRequest(req, validated), model);
+    const { request } = trimmed;
+    checkSentImages(request);
+
+    // Client timeout, RPC and model limits (moderation, retries and fallbacks included)
+    deadline = startRequestDeadline(context, model);
+
+    // Screen the user's messages before anything is paid for
+    await moderateRequest(req, validated, model, deadline.signal);
+
+    // Serve repeated identical requests from the completion cache
+    const cacheKey = isCacheable(req) ? buildCompletionCacheKey(model, request) : null;
+    const cached = cacheKey ? await getCachedCompletion(cacheKey) : null;
+
+    let servedModel: ModelId = model;
+    let completion: OpenAIChatCompletionResponse;
+    if (cached) {
+      completion = cached;
+    } else {
+      // Call the model, falling back along its chain on upstream failures
+      ({ model: servedModel, completion } = await createChatCompletionWithFallback(
+        resolveFallbackChain(model, req, tier, trimmed, entitlements, conversation?.messages),
+        request,
+        { signal: deadline.signal, deadline: deadline.deadline }
+      ));
+
+      // Only cache answers from the requested model, not degraded fallbacks
+      if (cacheKey && servedModel === model) {
+        await setCachedCompletion(cacheKey, completion);
+      }
+    }
+
+    // Cached completions keep placeholders, so they are restored per request
+    if (redaction) {
+      completion = restoreCompletion(redaction, completion, hasJsonContent(validated));
+    }
+
+    // Store the exchange only once it succeeded
+    if (conversation) {
+      await appendConversationMessages(conversation, req.deviceToken, [
+        ...req.messages,
+        replyToProtoMessage(replyFromCompletion(completion)),
+      ]);
+    }
 
     // Convert response to proto format
-    return openAIToProtoResponse(completion);
+    const response = openAIToProtoResponse(completion);
+    response.metadata = buildResponseMetadata(model, servedModel, {
+      cacheHit: cached !== null,
+      messagesDropped: trimmed.droppedMessages,
+      piiRedactions: redaction?.originals.size,
+    });
+    return response;
+  } catch (error) {
+    throw toConnectError(error, deadline?.signal ?? context.signal);
+  } finally {
+    deadline?.dispose();
+  }
+}
+
+/**
+ * Shared streaming handler logic
+ * Reduces duplication between streamStandardCompletion and streamMiniCompletion
+ * Applies the same validation, timeout and error mapping as the unary handlers
+ *
+ * The upstream stream is aborted as soon as the client disconnects or the
+ * request deadline passes, and whenever this handler stops early (timeout,
+ * error, or the consumer returning), so no tokens are generated that nobody
+ * reads.
+ */
+async function* handleChatCompletionStream(
+  req: CreateChatCompletionRequest,
+  tier: ModelTier,
+  context: HandlerContext
+): AsyncGenerator<ChatCompletionChunk> {
+  const upstream = new AbortController();
+  let deadline: RequestDeadline | undefined;
+
+  try {
+    // Rebuild the full history for conversation requests
+    const conversation = await loadRequestConversation(req);
+
+    // Validate and convert request (shared with unary handlers)
+    const converted = validateAndConvertRequest(req, conversation?.messages);
+    context.values.set(promptTemplateKey, converted.promptTemplate);
+
+    // Keep personal data out of everything sent upstream (moderation included)
+    const { validated, redaction } = redactRequest(req, converted);
+
+    // Determine model to use (client can override via req.model) within the plan
+    const entitlements = await getRequestEntitlements(req.deviceToken, context.values);
+    const model = resolveRequestModel(req, tier, entitlements, conversation?.messages);
+    checkMaxTokens(req, entitlements);
+
+    // Drop the oldest history that doesn't fit the model's context window
+    const trimmed = fitToContextWindow(buildCompletionRequest(req, validated), model);
+    const { request } = trimmed;
+    checkSentImages(request);
+
+    // Client timeout, RPC and model limits cover moderation and the whole stream
+    deadline = startRequestDeadline(context, model);
+    const signal = AbortSignal.any([deadline.signal, upstream.signal]);
+
+    // Screen the user's messages before opening the stream
+    await moderateRequest(req, validated, model, signal);
+
+    // Open the stream, falling back along the model chain until the first
+    // chunk arrives (never switches models mid-stream)
+    const { model: servedModel, stream } = await createChatCompletionStreamWithFallback(
+      resolveFallbackChain(model, req, tier, trimmed, entitlements, conversation?.messages),
+      request,
+      { signal, deadline: deadline.deadline }
+    );
+
+    // Streams that end before their usage chunk are charged and logged with this
+    context.values.set(streamPromptEstimateKey, {
+      model: servedModel,
+      promptTokens: trimmed.estimatedTokens,
+    });
+
+    // Wrap stream with timeout detection (5 minute max between chunks),
+    // restoring redacted values as chunks arrive
+    const timedStream = withStreamTimeout(
+      redaction ? restoreStream(redaction, stream, hasJsonContent(validated)) : stream,
+      STREAM_TIMEOUT_MS
+    );
+
+    // Iterate over stream and convert chunks to proto format
+    // The first chunk reports which model serves the stream
+    let metadata: ResponseMetadata | undefined = buildResponseMetadata(model, servedModel, {
+      messagesDropped: trimmed.droppedMessages,
+      piiRedactions: redaction?.originals.size,
+    });
+    const reply: AssistantReply = { content: null, toolCalls: [] };
+    for await (const openaiChunk of timedStream) {
+      const delta = openaiChunk.choices[0]?.delta;
+      if (conversation && delta) {
+        appendDeltaToReply(reply, delta);
+      }
+
+      const chunk = openAIToProtoChunk(openaiChunk);
+      if (metadata) {
+        chunk.metadata = metadata;
+        metadata = undefined;
+      }
+      yield chunk;
+    }
+
+    // Store the exchange once the whole reply was delivered
+    if (conversation) {
+      await appendConversationMessages(conversation, req.deviceToken, [
+        ...req.messages,
+        replyToProtoMessage(reply),
+      ]);
+    }
   } catch (error) {
-    // Handle OpenAI errors with proper type checking
-    if (isErrorWithStatus(error)) {
+    throw toConnectError(error, deadline?.signal ?? context.signal);
+  } finally {
+    // Close the upstream request if it is still open
+    upstream.abort();
+    deadline?.dispose();
+  }
+}
+
+/**
+ * Create a conversation, optionally seeded with initial history
+ * Seed messages get the same content validation and moderation as
+ * completion requests; later requests don't screen stored history again
+ */
+async function handleCreateConversation(
+  req: CreateConversationRequest,
+  context: HandlerContext
+): Promise<CreateConversationResponse> {
+  let deadline: RequestDeadline | undefined;
+
+  try {
+    const contentErrors = validateMessageContent(req.messages);
+    if (contentErrors.length > 0) {
       throw new ConnectError(
-        error.message,
-        error.status === 429
-          ? Code.ResourceExhausted
-          : error.status >= 500
-            ? Code.Internal
-            : Code.InvalidArgument
+        `Invalid message content: ${contentErrors.join('; ')}`,
+        Code.InvalidArgument
       );
     }
 
-    throw error;
+    if (req.messages.length >= CONVERSATION_CONFIG.maxMessages) {
+      throw new ConnectError(
+        `Conversations are limited to ${CONVERSATION_CONFIG.maxMessages} messages`,
+        Code.InvalidArgument
+      );
+    }
+
+    // No model is picked yet, so the mini tier's default provider moderates
+    const model = DEFAULT_MODELS.mini;
+    deadline = startRequestDeadline(context, model);
+    await rejectFlaggedMessages(req.messages.map(protoToOpenAIMessage), model, deadline.signal);
+
+    const conversation = await createConversation(req.deviceToken, req.messages);
+
+    return new CreateConversationResponse({
+      conversationId: conversation.id,
+      expiresAt: Math.floor(conversation.expiresAt / 1000).toString(),
+    });
+  } catch (error) {
+    throw toConnectError(error, deadline?.signal ?? context.signal);
+  } finally {
+    deadline?.dispose();
+  }
+}
+
+/**
+ * Estimate prompt tokens and cost for a completion request without calling a model
+ * Uses the same validation, prompt template and conversation history as the
+ * completion handlers; the conversation is not changed
+ *
+ * Costs are listed for every model the device's plan includes that can
+ * serve the request on the standard tier (a superset of the mini tier),
+ * priced with the same calculateCost used for request logs
+ */
+async function handleCountTokens(
+  req: CreateChatCompletionRequest,
+  context: HandlerContext
+): Promise<CountTokensResponse> {
+  const conversation = await loadRequestConversation(req);
+  const validated = validateAndConvertRequest(req, conversation?.messages);
+  context.values.set(promptTemplateKey, validated.promptTemplate);
+
+  const request = buildCompletionRequest(req, validated);
+  const tokens = estimatePromptTokenBreakdown(request);
+
+  const entitlements = await getRequestEntitlements(req.deviceToken, context.values);
+  const models = listModelsForTier('standard')
+    .filter((id) => entitlements.models.includes(id))
+    .map((id) => getModelSpec(id))
+    .filter((spec) => modelRejectionReason(spec, req, 'standard', conversation?.messages ?? []) === null)
+    .map((spec) => {
+      const maxCompletionTokens = Math.min(request.max_tokens ?? 0, spec.maxOutputTokens);
+      return new ModelCostEstimate({
+        model: spec.id,
+        promptCostUsd: calculateCost(spec.id, tokens.total, 0),
+        maxCostUsd: calculateCost(spec.id, tokens.total, maxCompletionTokens),
+        fitsContextWindow: getContextBudget(spec, request.max_tokens) >= tokens.total,
+      });
+    });
+
+  return new CountTokensResponse({
+    promptTokens: tokens.total,
+    systemTokens: tokens.system,
+    messageTokens: tokens.messages,
+    toolTokens: tokens.tools,
+    models,
+  });
+}
+
+/**
+ * Report the device token and IP address rate limit buckets without charging them
+ * The device bucket uses the device's plan limit, as the rate limit interceptor does
+ */
+async function handleGetQuota(
+  req: GetQuotaRequest,
+  context: HandlerContext
+): Promise<GetQuotaResponse> {
+  const ip = getClientIp(context.requestHeader) ?? '0.0.0.0';
+  const device = req.deviceToken
+    ? await peekRateLimit(
+        req.deviceToken,
+        true,
+        (await getRequestEntitlements(req.deviceToken, context.values)).requestsPerHour
+      )
+    : undefined;
+
+  return new GetQuotaResponse({
+    device: device && toRateLimitBucket(device),
+    ip: toRateLimitBucket(await peekRateLimit(ip, false)),
+  });
+}
+
+function toRateLimitBucket(rateLimit: RateLimitInfo): RateLimitBucket {
+  return new RateLimitBucket({
+    limit: rateLimit.limit,
+    remaining: rateLimit.remaining,
+    resetAt: Math.floor(rateLimit.resetAt / 1000).toString(),
+  });
+}
+
+/**
+ * Issue a signing secret for a device token
+ * The auth interceptor verifies this request with the shared secret
+ */
+async function handleRegisterDevice(req: RegisterDeviceRequest): Promise<RegisterDeviceResponse> {
+  if (!req.deviceToken) {
+    throw new ConnectError('device_token is required', Code.InvalidArgument);
+  }
+
+  const deviceSecret = await registerDevice(req.deviceToken);
+  if (deviceSecret === null) {
+    throw new ConnectError('Device is already registered', Code.AlreadyExists);
+  }
+
+  logger.info('Device registered', { identifier: `token#${anonymize(req.deviceToken)}` });
+
+  return new RegisterDeviceResponse({ deviceSecret });
+}
+
+/**
+ * Replace a registered device's signing secret
+ * The auth interceptor verifies this request with the current device secret
+ */
+async function handleRotateDeviceSecret(
+  req: RotateDeviceSecretRequest
+): Promise<RotateDeviceSecretResponse> {
+  if (!req.deviceToken) {
+    throw new ConnectError('device_token is required', Code.InvalidArgument);
+  }
+
+  const deviceSecret = await rotateDeviceSecret(req.deviceToken);
+  if (deviceSecret === null) {
+    throw new ConnectError(
+      'Device secret not rotated: the device is not registered or its secret changed',
+      Code.FailedPrecondition
+    );
+  }
+
+  logger.info('Device secret rotated', { identifier: `token#${anonymize(req.deviceToken)}` });
+
+  return new RotateDeviceSecretResponse({ deviceSecret });
+}
+
+/**
+ * Map upstream errors to Connect errors
+ * Deadline expiry → DeadlineExceeded, client cancellation → Canceled
+ * 429 → ResourceExhausted, 5xx → Internal, other statuses → InvalidArgument
+ * Errors without a status (including ConnectErrors) are passed through
+ */
+function toConnectError(error: unknown, signal?: AbortSignal): unknown {
+  // Deadlines abort with a DeadlineExceeded ConnectError as the reason
+  if (signal?.aborted && signal.reason instanceof ConnectError) {
+    return signal.reason;
+  }
+
+  // Errors after the client disconnected are cancellations, not failures
+  if (signal?.aborted || isAbortError(error)) {
+    return new ConnectError('Request cancelled by client', Code.Canceled);
+  }
+
+  // Handle OpenAI errors with proper type checking
+  if (isErrorWithStatus(error)) {
+    return new ConnectError(
+      error.message,
+      error.status === 429
+        ? Code.ResourceExhausted
+        : error.status >= 500
+          ? Code.Internal
+          : Code.InvalidArgument
+    );
   }
+
+  return error;
 }
 
 /**
@@ -312,95 +1275,60 @@ async function handleChatCompletionRequest(
 export function registerChatServiceHandlers(router: ConnectRouter) {
   router.service(ChatService, {
     async createStandardCompletion(
-      req: CreateChatCompletionRequest
+      req: CreateChatCompletionRequest,
+      context: HandlerContext
     ): Promise<ChatCompletionResponse> {
-      return handleChatCompletionRequest(req, 'gpt-5.2');
+      return handleChatCompletionRequest(req, 'standard', context);
     },
 
     async createMiniCompletion(
-      req: CreateChatCompletionRequest
+      req: CreateChatCompletionRequest,
+      context: HandlerContext
     ): Promise<ChatCompletionResponse> {
-      return handleChatCompletionRequest(req, 'gpt-4o-mini');
+      return handleChatCompletionRequest(req, 'mini', context);
     },
 
     async *streamStandardCompletion(
-      req: CreateChatCompletionRequest
+      req: CreateChatCompletionRequest,
+      context: HandlerContext
     ): AsyncGenerator<ChatCompletionChunk> {
-      try {
-        // Validate and convert request (shared with unary handlers)
-        const validated = validateAndConvertRequest(req);
-
-        // Determine model to use (client can override via req.model)
-        type ValidModel = 'gpt-4o-mini' | 'gpt-4o' | 'gpt-5-mini' | 'gpt-5.2';
-        const isValidModel = (value: string | undefined): value is ValidModel => {
-          return value !== undefined && ['gpt-4o-mini', 'gpt-4o', 'gpt-5-mini', 'gpt-5.2'].includes(value);
-        };
-
-        const model: ValidModel = isValidModel(req.model) ? req.model : 'gpt-5.2';
-
-        // Call OpenAI with streaming
-        const stream = createChatCompletionStream(model, {
-          messages: validated.messages,
-          temperature: req.temperature ?? 0.7,
-          max_tokens: req.maxTokens ?? 2000,
-          tools: validated.tools,
-          tool_choice: validated.toolChoice,
-        });
-
-        // Wrap stream with timeout detection (5 minute max between chunks)
-        const timedStream = withStreamTimeout(stream, STREAM_TIMEOUT_MS);
-
-        // Iterate over stream and convert chunks to proto format
-        for await (const openaiChunk of timedStream) {
-          const chunk = new ChatCompletionChunk({
-            id: openaiChunk.id,
-            model: openaiChunk.model,
-            created: openaiChunk.created.toString(),
-            object: 'chat.completion.chunk',
-          });
-
-          if (openaiChunk.choices && openaiChunk.choices.length > 0) {
-            chunk.choices = openaiChunk.choices.map((choice) => {
-              const deltaContent = choice.delta?.content;
-              const deltaToolCalls = choice.delta?.tool_calls?.map((tc) => ({
-                index: tc.index,
-                id: tc.id,
-                type: 'function' as const,
-                function: {
-                  name: tc.function?.name || '',
-                  arguments: tc.function?.arguments || '',
-                },
-              })) || [];
-
-              return new DeltaChoice({
-                index: choice.index,
-                finishReason: choice.finish_reason || '',
-                delta: new Delta({
-                  role: 'assistant',
-                  content: deltaContent ?? undefined,
-                  toolCalls: deltaToolCalls.length > 0 ? deltaToolCalls : undefined,
-                }),
-              });
-            });
-          }
-
-          yield chunk;
-        }
-      } catch (error) {
-        // Handle OpenAI errors with proper type checking
-        if (isErrorWithStatus(error)) {
-          throw new ConnectError(
-            error.message,
-            error.status === 429
-              ? Code.ResourceExhausted
-              : error.status >= 500
-                ? Code.Internal
-                : Code.InvalidArgument
-          );
-        }
+      yield* handleChatCompletionStream(req, 'standard', context);
+    },
 
-        throw error;
-      }
+    async *streamMiniCompletion(
+      req: CreateChatCompletionRequest,
+      context: HandlerContext
+    ): AsyncGenerator<ChatCompletionChunk> {
+      yield* handleChatCompletionStream(req, 'mini', context);
+    },
+
+    async createConversation(
+      req: CreateConversationRequest,
+      context: HandlerContext
+    ): Promise<CreateConversationResponse> {
+      return handleCreateConversation(req, context);
+    },
+
+    async countTokens(
+      req: CreateChatCompletionRequest,
+      context: HandlerContext
+    ): Promise<CountTokensResponse> {
+      return handleCountTokens(req, context);
+    },
+
+    async getQuota(
+      req: GetQuotaRequest,
+      context: HandlerContext
+    ): Promise<GetQuotaResponse> {
+      return handleGetQuota(req, context);
+    },
+
+    async registerDevice(req: RegisterDeviceRequest): Promise<RegisterDeviceResponse> {
+      return handleRegisterDevice(req);
+    },
+
+    async rotateDeviceSecret(req: RotateDeviceSecretRequest): Promise<RotateDeviceSecretResponse> {
+      return handleRotateDeviceSecret(req);
     },
   });
 }
@@ -0,0 +1,203 @@
+/**
+ * Idempotency Store
+ * Tracks client idempotency keys so retried unary requests run only once
+ *
+ * Each key moves through two states:
+ * - pending: claimed by the first request, which is still running
+ * - completed: holds the serialized response for replay
+ *
+ * Pending claims expire on their own so a crashed instance never blocks a key
+ * forever. Failed requests release their claim so the client can retry.
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured
+ * (SET NX makes the claim atomic across instances), otherwise a per-instance
+ * in-memory store. Redis errors fall back to memory.
+ *
+ * Configuration:
+ * - IDEMPOTENCY_WINDOW_SECONDS: how long completed responses are replayed (default 600)
+ */
+
+import { getRedisClient } from '@/lib/rate-limit';
+
+/**
+ * Idempotency configuration
+ * - defaultWindowSeconds: Replay window when IDEMPOTENCY_WINDOW_SECONDS is unset
+ * - pendingTtlMs: Lifetime of a claim whose request never finished (longer than any unary deadline)
+ * - maxKeyLength: Longest accepted client key
+ * - maxMemoryEntries: Oldest in-memory entries are evicted beyond this size
+ * - keyPrefix: Versioned key prefix (bump when the record format changes)
+ */
+export const IDEMPOTENCY_CONFIG = {
+  defaultWindowSeconds: 10 * 60,
+  pendingTtlMs: 2 * 60 * 1000,
+  maxKeyLength: 255,
+  maxMemoryEntries: 1000,
+  keyPrefix: 'idempotency:v1:',
+};
+
+/**
+ * Stored state for a key
+ * The fingerprint identifies the request so a key can't be reused for another one
+ */
+type IdempotencyRecord =
+  | { state: 'pending'; fingerprint: string }
+  | { state: 'completed'; fingerprint: string; response: string };
+
+/**
+ * Result of claiming a key
+ * - acquired: the caller runs the request and must complete or release the key
+ * - pending: another request with this key is still running
+ * - completed: the serialized response of the original request
+ * - mismatch: the key was used for a different request
+ */
+export type IdempotencyClaim =
+  | { status: 'acquired' }
+  | { status: 'pending' }
+  | { status: 'completed'; response: Uint8Array }
+  | { status: 'mismatch' };
+
+interface MemoryEntry {
+  record: IdempotencyRecord;
+  expiresAt: number;
+}
+
+const memoryStore = new Map<string, MemoryEntry>();
+
+/**
+ * Get the configured replay window in seconds
+ */
+function getWindowSeconds(): number {
+  const window = Number(process.env.IDEMPOTENCY_WINDOW_SECONDS);
+  return Number.isFinite(window) && window > 0
+    ? Math.ceil(window)
+    : IDEMPOTENCY_CONFIG.defaultWindowSeconds;
+}
+
+/**
+ * Type guard for records read back from Redis
+ */
+function isIdempotencyRecord(value: unknown): value is IdempotencyRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  if (!('state' in value) || !('fingerprint' in value)) return false;
+  if (typeof value.fingerprint !== 'string') return false;
+  if (value.state === 'pending') return true;
+  return value.state === 'completed' && 'response' in value && typeof value.response === 'string';
+}
+
+/**
+ * Interpret an existing record for a claim attempt
+ */
+function toClaim(record: IdempotencyRecord | null, fingerprint: string): IdempotencyClaim {
+  // The record expired between SET NX and GET; report pending so the caller retries
+  if (!record) return { status: 'pending' };
+  if (record.fingerprint !== fingerprint) return { status: 'mismatch' };
+  if (record.state === 'pending') return { status: 'pending' };
+  return { status: 'completed', response: Buffer.from(record.response, 'base64') };
+}
+
+/**
+ * Claim an idempotency key for a request
+ *
+ * @param key - Store key (already scoped to the caller and method)
+ * @param fingerprint - Hash of the request the key is used for
+ * @returns Claim result (see IdempotencyClaim)
+ */
+export async function claimIdempotencyKey(
+  key: string,
+  fingerprint: string
+): Promise<IdempotencyClaim> {
+  const pending: IdempotencyRecord = { state: 'pending', fingerprint };
+  const redis = getRedisClient();
+  if (!redis) {
+    return claimMemoryEntry(key, pending, Date.now());
+  }
+
+  try {
+    const claimed = await redis.set(key, pending, { nx: true, px: IDEMPOTENCY_CONFIG.pendingTtlMs });
+    if (claimed === 'OK') {
+      return { status: 'acquired' };
+    }
+
+    // Upstash deserializes JSON values automatically
+    const existing = await redis.get<unknown>(key);
+    return toClaim(isIdempotencyRecord(existing) ? existing : null, fingerprint);
+  } catch (error) {
+    console.error('[Idempotency] Redis error, using in-memory fallback', { error });
+    return claimMemoryEntry(key, pending, Date.now());
+  }
+}
+
+/**
+ * Store the response for a claimed key
+ * Failures are logged and ignored (the response is still returned)
+ *
+ * @param key - Store key passed to claimIdempotencyKey
+ * @param fingerprint - Hash of the request
+ * @param response - Serialized response (proto binary)
+ */
+export async function completeIdempotencyKey(
+  key: string,
+  fingerprint: string,
+  response: Uint8Array
+): Promise<void> {
+  const record: IdempotencyRecord = {
+    state: 'completed',
+    fingerprint,
+    response: Buffer.from(response).toString('base64'),
+  };
+  const windowSeconds = getWindowSeconds();
+  const redis = getRedisClient();
+  if (!redis) {
+    setMemoryEntry(key, record, windowSeconds * 1000, Date.now());
+    return;
+  }
+
+  try {
+    await redis.set(key, record, { ex: windowSeconds });
+  } catch (error) {
+    console.error('[Idempotency] Redis error, using in-memory fallback', { error });
+    setMemoryEntry(key, record, windowSeconds * 1000, Date.now());
+  }
+}
+
+/**
+ * Release a claimed key after the request failed, so the client can retry
+ *
+ * @param key - Store key passed to claimIdempotencyKey
+ */
+export async function releaseIdempotencyKey(key: string): Promise<void> {
+  const redis = getRedisClient();
+  if (!redis) {
+    memoryStore.delete(key);
+    return;
+  }
+
+  try {
+    await redis.del(key);
+  } catch (error) {
+    console.error('[Idempotency] Redis error, using in-memory fallback', { error });
+    memoryStore.delete(key);
+  }
+}
+
+function claimMemoryEntry(key: string, pending: IdempotencyRecord, now: number): IdempotencyClaim {
+  const entry = memoryStore.get(key);
+  if (entry && now <= entry.expiresAt) {
+    return toClaim(entry.record, pending.fingerprint);
+  }
+
+  setMemoryEntry(key, pending, IDEMPOTENCY_CONFIG.pendingTtlMs, now);
+  return { status: 'acquired' };
+}
+
+function setMemoryEntry(key: string, record: IdempotencyRecord, ttlMs: number, now: number): void {
+  // Re-insert so the key moves to the end of the eviction order
+  memoryStore.delete(key);
+  memoryStore.set(key, { record, expiresAt: now + ttlMs });
+
+  // Evict oldest entries (Map iterates in insertion order)
+  for (const oldest of memoryStore.keys()) {
+    if (memoryStore.size <= IDEMPOTENCY_CONFIG.maxMemoryEntries) break;
+    memoryStore.delete(oldest);
+  }
+}
@@ -6,6 +6,18 @@
 import { createHmac } from 'crypto';
 import type { Interceptor } from '@connectrpc/connect';
 import { Code, ConnectError } from '@connectrpc/connect';
+import { RegisterDeviceRequest } from '@/lib/generated/repkit/ai/v1/api_pb';
+import { getDevice, isDeviceRegistrationRequired, type DeviceRecord } from '@/lib/devices';
+import { connectErrorWithReason } from '@/lib/errors';
+import { claimRequestSignature } from '@/lib/rate-limit';
+import {
+  DEVICE_KEY_ID,
+  getSigningKey,
+  isLegacySignatureAccepted,
+  LEGACY_KEY_ID,
+  signingKeyIdKey,
+  type SigningKey,
+} from '@/lib/signing-keys';
 import { anonymize } from '@/lib/utils/anonymize';
 import { logger } from '@/lib/utils/logger';
 
@@ -15,13 +27,34 @@ import { logger } from '@/lib/utils/logger';
  *
  * Signature validation:
  * - Extracts signature and timestamp from request message
- * - Computes HMAC-SHA256(payload + timestamp) using HMAC_SECRET
+ * - Computes HMAC-SHA256(message bytes without signature + timestamp) using
+ *   the device's secret for registered device tokens, otherwise the shared
+ *   key named by key_id (HMAC_SECRET without one; see lib/signing-keys)
+ *   (RegisterDevice itself is always signed with a shared key)
  * - Compares with provided signature
+ * - Records the key id for the logs; retiring keys are logged as deprecated
+ * - Until ACCEPT_LEGACY_SIGNATURES=false, requests signed with HMAC_SECRET
+ *   may still use the old scheme, HMAC-SHA256(timestamp), which doesn't
+ *   cover the message; every use is logged as deprecated
+ *
+ * Device registration (see lib/devices):
+ * - Revoked devices are rejected on every RPC, RegisterDevice included
+ *   (reason DEVICE_REVOKED), until an admin resets them
+ * - Fails closed with UNAVAILABLE when the device store can't be read, so a
+ *   registered or revoked token is never verified with the shared secret
+ * - With REQUIRE_DEVICE_REGISTRATION=true, requests without a registered
+ *   device token are rejected (reason DEVICE_NOT_REGISTERED)
  *
  * Timestamp validation:
  * - Prevents replay attacks by enforcing 5-minute window
  * - Request timestamp must be within ±5 minutes of server time
  *
+ * Replay protection:
+ * - Accepted signatures are recorded (see claimRequestSignature) until their
+ *   timestamp leaves the window
+ * - Repeats fail with UNAUTHENTICATED, reason REQUEST_REPLAYED; retries must
+ *   be signed again with a new timestamp
+ *
  * Error handling:
  * - Returns UNAUTHENTICATED (401) if validation fails
  * - Does NOT forward to handlers if auth fails
@@ -29,6 +62,15 @@ import { logger } from '@/lib/utils/logger';
  */
 export const authInterceptor: Interceptor = (next) => {
   return async (req) => {
+    // Every ChatService method takes a single request message
+    // (server-streaming requests also arrive here as one message)
+    if (req.stream) {
+      throw new ConnectError(
+        'Authentication failed: client-streaming requests are not supported',
+        Code.Unauthenticated
+      );
+    }
+
     // Extract auth fields from request message
     // These are included in the proto message, not in HTTP headers
     const msg = req.message as Record<string, unknown>;
@@ -90,40 +132,77 @@ export const authInterceptor: Interceptor = (next) => {
     // - Future-proof: proto evolution is handled properly
     // - No hidden field selection: actual message bytes are signed
     // - Language-agnostic: binary format is standard across implementations
-    const secret = process.env.HMAC_SECRET;
+    const keyId = typeof msg.keyId === 'string' && msg.keyId ? msg.keyId : undefined;
 
-    // In production, HMAC_SECRET is required to prevent authentication bypass
-    if (!secret && process.env.NODE_ENV === 'production') {
-      throw new Error(
-        'HMAC_SECRET environment variable is required in production for request authentication'
-      );
-    }
+    try {
+      const registering = req.message instanceof RegisterDeviceRequest;
+      const device =
+        typeof deviceToken === 'string' && deviceToken ? await readDevice(deviceToken) : null;
+
+      if (device?.revokedAt !== undefined) {
+        logger.warn('Revoked device rejected', {
+          method: req.method.name,
+          identifier: `token#${anonymize(String(deviceToken))}`,
+        });
 
-    const fallbackSecret = secret || 'change-me-in-prod';
+        throw connectErrorWithReason(
+          'Authentication failed: device has been revoked',
+          Code.Unauthenticated,
+          'DEVICE_REVOKED'
+        );
+      }
 
-    try {
-      // Create a clean copy of the message WITHOUT the signature field for verification
-      // The original message includes signature, timestamp, and payload fields
-      // We sign only the payload fields (messages, tools, temperature, etc.)
-      // Note: We must completely exclude the signature field from serialization
-      // Setting it to undefined doesn't work in proto3 - the field may still be included
-      const { signature, ...payloadCopy } = msg as Record<string, unknown>;
-
-      // Serialize message to proto binary (without signature field)
-      // The proto message has toBinary() method auto-generated by protoc-gen-es
-      const msgWithBinary = payloadCopy as { toBinary?: () => Buffer };
-      const messageBytes = msgWithBinary.toBinary?.() || Buffer.from('');
+      if (!device && !registering && isDeviceRegistrationRequired()) {
+        throw connectErrorWithReason(
+          'Authentication failed: device is not registered',
+          Code.Unauthenticated,
+          'DEVICE_NOT_REGISTERED'
+        );
+      }
+
+      // Registered devices must use their own secret
+      const signingKey: SigningKey | null =
+        device && !registering
+          ? { id: DEVICE_KEY_ID, secret: device.secret, status: 'active' }
+          : getSigningKey(keyId);
+
+      if (!signingKey) {
+        logger.warn('Unknown signing key', {
+          method: req.method.name,
+          key_id: keyId,
+        });
+
+        throw new ConnectError(
+          'Authentication failed: unknown signing key',
+          Code.Unauthenticated
+        );
+      }
+
+      // Serialize a copy of the message WITHOUT the signature field
+      // Every other field (payload, timestamp, device token, idempotency key)
+      // is covered by the signature. Unset proto3 optional fields are not
+      // serialized, so clearing the signature removes it from the bytes.
+      const unsigned = req.message.clone();
+      Object.assign(unsigned, { signature: undefined });
+      const messageBytes = unsigned.toBinary();
 
       const payload = Buffer.concat([
         messageBytes,
         Buffer.from(String(timestamp), 'utf-8'),
       ]);
 
-      const expectedSignature = createHmac('sha256', fallbackSecret)
+      const expectedSignature = createHmac('sha256', signingKey.secret)
         .update(payload)
         .digest('hex');
 
-      if (String(signature) !== expectedSignature) {
+      // Builds from before message signing sign only the timestamp
+      const legacySignature =
+        signingKey.id === LEGACY_KEY_ID && isLegacySignatureAccepted()
+          ? createHmac('sha256', signingKey.secret).update(String(timestamp)).digest('hex')
+          : null;
+      const legacy = String(signature) !== expectedSignature && String(signature) === legacySignature;
+
+      if (String(signature) !== expectedSignature && !legacy) {
         const identifier = deviceToken
           ? `token#${anonymize(String(deviceToken))}`
           : 'unknown';
@@ -139,7 +218,43 @@ export const authInterceptor: Interceptor = (next) => {
         );
       }
 
-      // Signature valid - forward request to next handler
+      // Each signed request is accepted once; the record lasts until the
+      // timestamp check would reject it anyway
+      if (!(await claimRequestSignature(String(signature), requestTime + fiveMinutesMs + 1))) {
+        logger.warn('Replayed request rejected', {
+          method: req.method.name,
+          identifier: deviceToken
+            ? `token#${anonymize(String(deviceToken))}`
+            : 'unknown',
+        });
+
+        throw connectErrorWithReason(
+          'Authentication failed: request has already been used',
+          Code.Unauthenticated,
+          'REQUEST_REPLAYED'
+        );
+      }
+
+      // Signature valid - record the key, then forward request to next handler
+      req.contextValues.set(signingKeyIdKey, signingKey.id);
+      if (signingKey.status === 'retiring') {
+        logger.warn('Deprecated signing key used', {
+          method: req.method.name,
+          key_id: signingKey.id,
+          identifier: deviceToken
+            ? `token#${anonymize(String(deviceToken))}`
+            : 'unknown',
+        });
+      }
+      if (legacy) {
+        logger.warn('Deprecated signature scheme used', {
+          method: req.method.name,
+          identifier: deviceToken
+            ? `token#${anonymize(String(deviceToken))}`
+            : 'unknown',
+        });
+      }
+
       return await next(req);
     } catch (error) {
       if (error instanceof ConnectError) {
@@ -157,3 +272,23 @@ export const authInterceptor: Interceptor = (next) => {
     }
   };
 };
+
+/**
+ * Look up a device's registration for verification
+ *
+ * @throws ConnectError with Unavailable if the device store can't be read
+ */
+async function readDevice(deviceToken: string): Promise<DeviceRecord | null> {
+  try {
+    return await getDevice(deviceToken);
+  } catch (error) {
+    logger.error('Device store unavailable', error instanceof Error ? error : null, {
+      identifier: `token#${anonymize(deviceToken)}`,
+    });
+
+    throw new ConnectError(
+      'Authentication unavailable: device registrations cannot be read',
+      Code.Unavailable
+    );
+  }
+}
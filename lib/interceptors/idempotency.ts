@@ -0,0 +1,128 @@
+/**
+ * Idempotency Interceptor
+ * Replays the stored response for retried unary requests
+ */
+
+import { createHash } from 'crypto';
+import { MethodKind } from '@bufbuild/protobuf';
+import type { Interceptor } from '@connectrpc/connect';
+import { Code, ConnectError } from '@connectrpc/connect';
+import {
+  IDEMPOTENCY_CONFIG,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '@/lib/idempotency';
+import { anonymize } from '@/lib/utils/anonymize';
+import { getClientIp } from '@/lib/utils/client-ip';
+import { logger } from '@/lib/utils/logger';
+import { sleep } from '@/lib/utils/sleep';
+
+/**
+ * How often a repeat polls for the original request to finish
+ */
+const PENDING_POLL_INTERVAL_MS = 100;
+
+/**
+ * Idempotency Interceptor
+ * Runs each unary request with an idempotency_key at most once per replay window
+ *
+ * Behavior:
+ * - First request claims the key, runs, and stores its response
+ * - Repeats get the stored response
+ * - Repeats that arrive while the first request is running wait for it
+ * - Failed requests release the key so the client can retry
+ * - Reusing a key for a different request fails with INVALID_ARGUMENT
+ *
+ * Must run after auth (the key is covered by the signature) and before rate
+ * limiting, so repeats are not charged against the rate-limit buckets.
+ *
+ * Keys are scoped to the caller (device token, or IP address without one) and
+ * the RPC method. Streaming RPCs ignore the key.
+ */
+export const idempotencyInterceptor: Interceptor = (next) => {
+  return async (req) => {
+    if (req.stream || req.method.kind !== MethodKind.Unary) {
+      return await next(req);
+    }
+
+    const msg: object = req.message;
+    const idempotencyKey = 'idempotencyKey' in msg ? msg.idempotencyKey : undefined;
+    if (typeof idempotencyKey !== 'string' || idempotencyKey === '') {
+      return await next(req);
+    }
+
+    if (idempotencyKey.length > IDEMPOTENCY_CONFIG.maxKeyLength) {
+      throw new ConnectError(
+        `Idempotency key exceeds ${IDEMPOTENCY_CONFIG.maxKeyLength} characters`,
+        Code.InvalidArgument
+      );
+    }
+
+    const deviceToken =
+      'deviceToken' in msg && typeof msg.deviceToken === 'string' ? msg.deviceToken : undefined;
+    const ip = getClientIp(req.header) ?? '0.0.0.0';
+    const scope = deviceToken ? `token:${deviceToken}` : `ip:${ip}`;
+    const storeKey =
+      IDEMPOTENCY_CONFIG.keyPrefix +
+      createHash('sha256')
+        .update(`${req.method.name}\n${scope}\n${idempotencyKey}`)
+        .digest('hex');
+
+    // Fingerprint everything except the auth fields, which change on every retry
+    const unsigned = req.message.clone();
+    Object.assign(unsigned, { signature: undefined, timestamp: undefined });
+    const fingerprint = createHash('sha256').update(unsigned.toBinary()).digest('hex');
+
+    for (;;) {
+      const claim = await claimIdempotencyKey(storeKey, fingerprint);
+
+      switch (claim.status) {
+        case 'acquired': {
+          try {
+            const response = await next(req);
+            if (!response.stream) {
+              await completeIdempotencyKey(storeKey, fingerprint, response.message.toBinary());
+            }
+            return response;
+          } catch (error) {
+            await releaseIdempotencyKey(storeKey);
+            throw error;
+          }
+        }
+
+        case 'completed':
+          logger.info('Idempotent request replayed', {
+            method: req.method.name,
+            identifier: deviceToken ? `token#${anonymize(deviceToken)}` : `ip#${anonymize(ip)}`,
+          });
+
+          return {
+            stream: false,
+            service: req.service,
+            method: req.method,
+            header: new Headers(),
+            message: req.method.O.fromBinary(claim.response),
+            trailer: new Headers(),
+          };
+
+        case 'mismatch':
+          throw new ConnectError(
+            'Idempotency key was already used for a different request',
+            Code.InvalidArgument
+          );
+
+        case 'pending':
+          // Wait for the original request; stop when this client times out or cancels
+          try {
+            await sleep(PENDING_POLL_INTERVAL_MS, req.signal);
+          } catch {
+            throw req.signal.reason instanceof ConnectError
+              ? req.signal.reason
+              : new ConnectError('Request cancelled by client', Code.Canceled);
+          }
+          break;
+      }
+    }
+  };
+};
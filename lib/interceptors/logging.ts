@@ -3,9 +3,16 @@
  * Captures request metrics and integrates with Sentry for error tracking
  */
 
-import type { Interceptor } from '@connectrpc/connect';
+import { Code, ConnectError, type Interceptor } from '@connectrpc/connect';
+import { getErrorReason } from '@/lib/errors';
+import { ChatCompletionChunk, ChatCompletionResponse } from '@/lib/generated/repkit/ai/v1/api_pb';
+import { DEFAULT_MODELS } from '@/lib/models';
 import { calculateCost } from '@/lib/openai';
+import { promptTemplateKey } from '@/lib/prompts';
+import { signingKeyIdKey } from '@/lib/signing-keys';
+import { countChunkChars, estimateStreamUsage, streamPromptEstimateKey } from '@/lib/tokens';
 import { anonymize } from '@/lib/utils/anonymize';
+import { getClientIp } from '@/lib/utils/client-ip';
 import { logger } from '@/lib/utils/logger';
 
 /**
@@ -17,8 +24,24 @@ import { logger } from '@/lib/utils/logger';
  * - Method name (RPC method being called)
  * - Message counts (messages, tools)
  * - Latency (duration in ms)
- * - Token usage (from OpenAI response)
- * - Cost (calculated from token usage)
+ * - Token usage (from OpenAI response, or the final chunk of a stream)
+ * - Model and cost (calculated from token usage and the model that served it;
+ *   completion RPCs only)
+ * - Fallback details when a fallback model served the request
+ * - Cache hits (logged with zero cost since no tokens were bought)
+ * - Messages dropped to fit the model's context window
+ * - Number of personal data values redacted (never the values)
+ * - Prompt template name and version (when the request used one)
+ * - Signing key id (shared key id, "legacy" or "device")
+ * - Error reason (ErrorInfo detail, e.g. CONTENT_FLAGGED) for failed requests
+ *
+ * Streaming responses are logged when the stream starts and again with
+ * usage and cost after the last chunk is delivered. Streams that end without
+ * a usage chunk (e.g. cancelled or failed) are logged with the estimate the
+ * quota interceptor charges (usageEstimated: true).
+ *
+ * Client cancellations (disconnects, abandoned streams) are logged as
+ * "API Request cancelled" at info level and are not reported as errors.
  *
  * Error handling:
  * - Captures OpenAI errors with fingerprinting by error type
@@ -35,13 +58,7 @@ export const loggingInterceptor: Interceptor = (next) => {
     const deviceToken = typeof msg['deviceToken'] === 'string' ? msg['deviceToken'] : undefined;
 
     // Extract client IP from request headers
-    // Priority: Cloudflare Edge IP > Real IP > First X-Forwarded-For > fallback
-    const headers = req.header;
-    const cfIp = headers.get('cf-connecting-ip')?.trim();
-    const realIp = headers.get('x-real-ip')?.trim();
-    const xff = headers.get('x-forwarded-for') || '';
-    const xffFirst = xff.split(',')[0]?.trim();
-    const ip = cfIp || realIp || xffFirst || 'unknown';
+    const ip = getClientIp(req.header) ?? 'unknown';
 
     const identifier = deviceToken
       ? `token#${anonymize(deviceToken)}`
@@ -52,96 +69,83 @@ export const loggingInterceptor: Interceptor = (next) => {
     const messages = Array.isArray(msg.messages) ? msg.messages.length : 0;
     const tools = Array.isArray(msg.tools) ? msg.tools.length : 0;
 
-    try {
-      const response = await next(req);
+    // Tier default model, used when a completion response doesn't report one
+    // (other RPCs are logged without a model)
+    const completion =
+      req.method.O === ChatCompletionResponse || req.method.O === ChatCompletionChunk;
+    const defaultModel = !completion
+      ? undefined
+      : method.includes('Mini')
+        ? DEFAULT_MODELS.mini
+        : DEFAULT_MODELS.standard;
 
-      // Log successful request
-      const duration = Date.now() - startTime;
+    // Shared or device key that signed the request (set by the auth interceptor)
+    const signingKeyId = req.contextValues.get(signingKeyIdKey);
+    const keyDetails = signingKeyId ? { signingKey: signingKeyId } : {};
 
-      if ('message' in response && !response.stream) {
-        // Unary response - has usage metadata
-        const message = response.message as Record<string, unknown>;
-        const usage = message.usage;
-
-        // Type guard: check if usage exists and is an object
-        if (usage && typeof usage === 'object') {
-          const u = usage as Record<string, unknown>;
-          const promptTokensDetails = u.promptTokensDetails;
-
-          // Extract numeric values with fallback defaults
-          const cachedTokensValue = typeof promptTokensDetails === 'object' && promptTokensDetails !== null
-            ? (promptTokensDetails as Record<string, unknown>).cachedTokens
-            : 0;
-          const promptTokensValue = u.promptTokens ?? 0;
-          const completionTokensValue = u.completionTokens ?? 0;
-          const totalTokensValue = u.totalTokens ?? 0;
-
-          // Safely coerce to numbers
-          const cachedTokens = Number(cachedTokensValue) || 0;
-          const promptTokens = Number(promptTokensValue) || 0;
-          const completionTokens = Number(completionTokensValue) || 0;
-          const totalTokens = Number(totalTokensValue) || 0;
-
-          const cost = calculateCost(
-            method.includes('Mini') ? 'gpt-4o-mini' : 'gpt-5.2',
-            promptTokens,
-            completionTokens,
-            cachedTokens
-          );
-
-          logger.info('API Request completed', {
-            requestId,
-            method,
-            identifier,
-            userAgent: req.header.get('user-agent') || 'unknown',
-            messages,
-            tools,
-            promptTokens,
-            cachedTokens,
-            completionTokens,
-            totalTokens,
-            cost: `$${cost.toFixed(6)}`,
-            duration: `${duration}ms`,
-          });
-        } else {
-          logger.info('API Request completed', {
-            requestId,
-            method,
-            identifier,
-            userAgent: req.header.get('user-agent') || 'unknown',
-            messages,
-            tools,
-            duration: `${duration}ms`,
-          });
-        }
-      } else {
-        // Streaming response
-        logger.info('API Request streaming', {
-          requestId,
-          method,
-          identifier,
-          userAgent: req.header.get('user-agent') || 'unknown',
-          messages,
-          tools,
-          duration: `${duration}ms`,
-        });
+    // Prompt template rendered by the handler (set once the request is validated)
+    const templateDetails = (): Record<string, unknown> => {
+      const template = req.contextValues.get(promptTemplateKey);
+      return template
+        ? { promptTemplate: template.name, promptTemplateVersion: template.version }
+        : {};
+    };
+
+    // Usage and cost estimate for a stream that ended without a usage chunk
+    // (nothing once no upstream stream was opened)
+    const estimateDetails = (streamedChars: number): Record<string, unknown> => {
+      const estimate = req.contextValues.get(streamPromptEstimateKey);
+      if (!estimate) {
+        return {};
+      }
+
+      const tokens = extractUsage(estimateStreamUsage(estimate.promptTokens, streamedChars));
+      const cost = tokens ? calculateCost(estimate.model, tokens.promptTokens, tokens.completionTokens) : 0;
+      return {
+        model: estimate.model,
+        ...tokens,
+        usageEstimated: true,
+        cost: `$${cost.toFixed(6)}`,
+      };
+    };
+
+    const logCancelled = (extra?: Record<string, unknown>) => {
+      logger.info('API Request cancelled', {
+        requestId,
+        method,
+        identifier,
+        messages,
+        tools,
+        ...templateDetails(),
+        ...extra,
+        duration: `${Date.now() - startTime}ms`,
+      });
+    };
+
+    const logFailure = (error: unknown, extra?: Record<string, unknown>) => {
+      if (isCancellation(error, req.signal)) {
+        logCancelled(extra);
+        return;
       }
 
-      return response;
-    } catch (error) {
       const duration = Date.now() - startTime;
       const errorMessage =
         error instanceof Error ? error.message : 'Unknown error';
       const errorType =
         error instanceof Error ? error.constructor.name : 'Unknown';
+      const reason = getErrorReason(error);
 
       // Log error (logger.error internally calls Sentry.captureException)
       logger.error('API Request failed', error instanceof Error ? error : null, {
         requestId,
         method,
         identifier,
+        ...templateDetails(),
+        ...keyDetails,
         error: errorMessage,
         type: errorType,
+        ...(reason && { reason }),
+        ...extra,
         duration: `${duration}ms`,
         tags: {
           endpoint: method,
@@ -149,9 +153,237 @@ export const loggingInterceptor: Interceptor = (next) => {
         },
         fingerprint: ['api-error', method, errorType],
       });
+    };
+
+    const logCompleted = (summary: ResponseSummary, extra?: Record<string, unknown>) => {
+      const duration = Date.now() - startTime;
+      const tokens = extractUsage(summary.usage);
+      const servedModel =
+        typeof summary.model === 'string' && summary.model ? summary.model : defaultModel;
+      const details = extractMetadataDetails(summary.metadata);
+
+      if (tokens && servedModel) {
+        // Cost uses the model that served the request (resolves dated snapshots)
+        // Cache hits cost nothing - the usage is from the original completion
+        const cost = details.cacheHit
+          ? 0
+          : calculateCost(
+              servedModel,
+              tokens.promptTokens,
+              tokens.completionTokens,
+              tokens.cachedTokens
+            );
+
+        logger.info('API Request completed', {
+          requestId,
+          method,
+          identifier,
+          userAgent: req.header.get('user-agent') || 'unknown',
+          messages,
+          tools,
+          model: servedModel,
+          ...details,
+          ...templateDetails(),
+          ...keyDetails,
+          ...extra,
+          ...tokens,
+          cost: `$${cost.toFixed(6)}`,
+          duration: `${duration}ms`,
+        });
+      } else {
+        logger.info('API Request completed', {
+          requestId,
+          method,
+          identifier,
+          userAgent: req.header.get('user-agent') || 'unknown',
+          messages,
+          tools,
+          ...(servedModel && { model: servedModel }),
+          ...details,
+          ...templateDetails(),
+          ...keyDetails,
+          ...extra,
+          duration: `${duration}ms`,
+        });
+      }
+    };
+
+    try {
+      const response = await next(req);
+
+      if (!response.stream) {
+        // Unary response - has usage metadata
+        const message = response.message as Record<string, unknown>;
+        logCompleted(message);
+        return response;
+      }
+
+      // Streaming response - log when the stream starts, then again with
+      // usage and cost once the final chunk has been delivered
+      logger.info('API Request streaming', {
+        requestId,
+        method,
+        identifier,
+        userAgent: req.header.get('user-agent') || 'unknown',
+        messages,
+        tools,
+        duration: `${Date.now() - startTime}ms`,
+      });
+
+      return {
+        ...response,
+        message: observeStream(
+          response.message,
+          logCompleted,
+          logFailure,
+          logCancelled,
+          estimateDetails
+        ),
+      };
+    } catch (error) {
+      logFailure(error);
 
       // Re-throw to let Connect error handling take over
       throw error;
     }
   };
 };
+
+/**
+ * Response fields used for completion logs
+ * Unary responses are used as-is; streams collect them across chunks
+ */
+interface ResponseSummary {
+  usage?: unknown;
+  model?: unknown;
+  metadata?: unknown;
+}
+
+/**
+ * Token counts extracted from a proto Usage message
+ */
+interface UsageTokens {
+  promptTokens: number;
+  cachedTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Extract token counts from a proto Usage message
+ * Returns null if usage is missing or not an object
+ */
+function extractUsage(usage: unknown): UsageTokens | null {
+  // Type guard: check if usage exists and is an object
+  if (!usage || typeof usage !== 'object') {
+    return null;
+  }
+
+  const u = usage as Record<string, unknown>;
+  const promptTokensDetails = u.promptTokensDetails;
+
+  // Extract numeric values with fallback defaults
+  const cachedTokensValue = typeof promptTokensDetails === 'object' && promptTokensDetails !== null
+    ? (promptTokensDetails as Record<string, unknown>).cachedTokens
+    : 0;
+
+  // Safely coerce to numbers
+  return {
+    promptTokens: Number(u.promptTokens ?? 0) || 0,
+    cachedTokens: Number(cachedTokensValue) || 0,
+    completionTokens: Number(u.completionTokens ?? 0) || 0,
+    totalTokens: Number(u.totalTokens ?? 0) || 0,
+  };
+}
+
+/**
+ * Extract fallback, cache, trimming and redaction details from proto ResponseMetadata
+ * Only includes fields that are set (fallback used, cache hit, messages dropped,
+ * PII redactions)
+ */
+function extractMetadataDetails(metadata: unknown): Record<string, unknown> {
+  if (!metadata || typeof metadata !== 'object') {
+    return {};
+  }
+
+  const m = metadata as Record<string, unknown>;
+  return {
+    ...(m.fallbackUsed === true && { fallback: true, requestedModel: m.requestedModel }),
+    ...(m.cacheHit === true && { cacheHit: true }),
+    ...(typeof m.messagesDropped === 'number' && m.messagesDropped > 0 && {
+      messagesDropped: m.messagesDropped,
+    }),
+    ...(typeof m.piiRedactions === 'number' && m.piiRedactions > 0 && {
+      piiRedactions: m.piiRedactions,
+    }),
+  };
+}
+
+/**
+ * Check whether a failure is a client cancellation
+ * Deadline expiry also aborts the request signal but is a real failure
+ */
+function isCancellation(error: unknown, signal: AbortSignal): boolean {
+  if (error instanceof ConnectError) {
+    if (error.code === Code.DeadlineExceeded) return false;
+    if (error.code === Code.Canceled) return true;
+  }
+  return signal.aborted;
+}
+
+/**
+ * Pass stream messages through while watching for the final usage chunk
+ * Calls onComplete after the last message is delivered, onError if the
+ * stream fails mid-way, or onCancel if the consumer stops reading early
+ * Streams that end without a usage chunk are reported with the usage estimate
+ */
+async function* observeStream<T>(
+  stream: AsyncIterable<T>,
+  onComplete: (summary: ResponseSummary, extra: Record<string, unknown>) => void,
+  onError: (error: unknown, extra: Record<string, unknown>) => void,
+  onCancel: (extra: Record<string, unknown>) => void,
+  estimate: (streamedChars: number) => Record<string, unknown>
+): AsyncGenerator<T> {
+  const summary: ResponseSummary = {};
+  let chunks = 0;
+  let streamedChars = 0;
+  let settled = false;
+
+  const streamDetails = () => ({
+    streamed: true,
+    chunks,
+    ...(!summary.usage && estimate(streamedChars)),
+  });
+
+  try {
+    for await (const message of stream) {
+      chunks++;
+      if (message instanceof ChatCompletionChunk) {
+        streamedChars += countChunkChars(message);
+      }
+      const m = message as Record<string, unknown>;
+      if (m.usage) {
+        summary.usage = m.usage;
+      }
+      if (m.model) {
+        summary.model = m.model;
+      }
+      if (m.metadata) {
+        summary.metadata = m.metadata;
+      }
+      yield message;
+    }
+    settled = true;
+  } catch (error) {
+    settled = true;
+    onError(error, streamDetails());
+    throw error;
+  } finally {
+    // Consumer returned before the stream ended (client went away)
+    if (!settled) {
+      onCancel(streamDetails());
+    }
+  }
+
+  onComplete(summary, streamDetails());
+}
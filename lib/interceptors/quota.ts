@@ -0,0 +1,166 @@
+/**
+ * Quota Interceptor
+ * Enforces per-device spend budgets and charges each response's real usage
+ */
+
+import type { ContextValues, Interceptor } from '@connectrpc/connect';
+import { Code } from '@connectrpc/connect';
+import { getRequestEntitlements } from '@/lib/entitlements';
+import { connectErrorWithReason } from '@/lib/errors';
+import {
+  ChatCompletionChunk,
+  ChatCompletionResponse,
+  CreateChatCompletionRequest,
+  type ResponseMetadata,
+  type Usage,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import {
+  chargeQuota,
+  checkQuota,
+  hasQuota,
+  measureQuotaUsage,
+  type QuotaLimits,
+} from '@/lib/quotas';
+import { countChunkChars, estimateStreamUsage, streamPromptEstimateKey } from '@/lib/tokens';
+import { anonymize } from '@/lib/utils/anonymize';
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Quota Interceptor
+ * Checks the device's budgets before completions and charges usage after
+ *
+ * Behavior:
+ * - Only completion RPCs (responses that report usage) are checked and charged
+ * - Budgets come from the device's plan (see lib/entitlements)
+ * - Requests without a device token are not budgeted (IP rate limits apply)
+ * - Returns RESOURCE_EXHAUSTED with ErrorInfo reason QUOTA_EXHAUSTED and a
+ *   Retry-After header once a daily or monthly budget is used up
+ * - Unary responses are charged from their usage; streams are charged when
+ *   the final usage chunk arrives. Streams cancelled or failed before it are
+ *   charged an estimate (prompt estimate plus the text streamed so far)
+ * - Cache hits are not charged (no tokens were bought)
+ *
+ * Runs after rate limiting so throttled requests never touch the quota store.
+ */
+export const quotaInterceptor: Interceptor = (next) => {
+  return async (req) => {
+    const spends = req.method.O === ChatCompletionResponse || req.method.O === ChatCompletionChunk;
+    const deviceToken =
+      req.message instanceof CreateChatCompletionRequest ? req.message.deviceToken : undefined;
+    if (!spends || !deviceToken) {
+      return await next(req);
+    }
+
+    // Budgets depend on the device's plan
+    const limits = (await getRequestEntitlements(deviceToken, req.contextValues)).quota;
+    if (!hasQuota(limits)) {
+      return await next(req);
+    }
+
+    const quota = await checkQuota(deviceToken, limits);
+    if (quota.exhausted) {
+      const { window, limit, used, resetAt } = quota.exhausted;
+
+      logger.warn('Quota exhausted', {
+        method: req.method.name,
+        identifier: `token#${anonymize(deviceToken)}`,
+        window,
+        unit: quota.unit,
+        limit,
+        reset_at: new Date(resetAt).toISOString(),
+      });
+
+      const retryAfter = Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+      const error = connectErrorWithReason(
+        `${window === 'daily' ? 'Daily' : 'Monthly'} quota exhausted: ${limit} ${quota.unit}. Retry after ${retryAfter}s`,
+        Code.ResourceExhausted,
+        'QUOTA_EXHAUSTED',
+        {
+          window,
+          unit: quota.unit,
+          limit: String(limit),
+          used: String(used),
+          reset_at: new Date(resetAt).toISOString(),
+        }
+      );
+      error.metadata.set('Retry-After', retryAfter.toString());
+      throw error;
+    }
+
+    const response = await next(req);
+
+    if (!response.stream) {
+      if (response.message instanceof ChatCompletionResponse) {
+        const { usage, model, metadata } = response.message;
+        await charge(deviceToken, limits, usage, model, metadata);
+      }
+      return response;
+    }
+
+    return {
+      ...response,
+      message: chargeStream(response.message, deviceToken, limits, req.contextValues),
+    };
+  };
+};
+
+/**
+ * Charge a response's usage (cache hits and responses without usage are free)
+ */
+async function charge(
+  deviceToken: string,
+  limits: QuotaLimits,
+  usage: Usage | undefined,
+  model: string,
+  metadata: ResponseMetadata | undefined
+): Promise<void> {
+  if (!usage || metadata?.cacheHit) {
+    return;
+  }
+
+  const amount = measureQuotaUsage(limits.unit, {
+    model: metadata?.servedModel || model,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    cachedTokens: usage.promptTokensDetails?.cachedTokens ?? 0,
+  });
+  await chargeQuota(deviceToken, limits, amount);
+}
+
+/**
+ * Pass stream messages through and charge the usage of the final chunk
+ * The charge lands before the usage chunk is delivered, so a client that
+ * disconnects right after it is still charged. Streams that end without a
+ * usage chunk are charged an estimate once the upstream stream was opened.
+ */
+async function* chargeStream<T>(
+  stream: AsyncIterable<T>,
+  deviceToken: string,
+  limits: QuotaLimits,
+  values: ContextValues
+): AsyncGenerator<T> {
+  let metadata: ResponseMetadata | undefined;
+  let charged = false;
+  let streamedChars = 0;
+
+  try {
+    for await (const message of stream) {
+      if (message instanceof ChatCompletionChunk) {
+        metadata = message.metadata ?? metadata;
+        streamedChars += countChunkChars(message);
+        if (message.usage) {
+          charged = true;
+          await charge(deviceToken, limits, message.usage, message.model, metadata);
+        }
+      }
+      yield message;
+    }
+  } finally {
+    // Set by the handler once the upstream stream opened (tokens were bought)
+    const estimate = values.get(streamPromptEstimateKey);
+    if (!charged && estimate) {
+      const usage = estimateStreamUsage(estimate.promptTokens, streamedChars);
+      await charge(deviceToken, limits, usage, estimate.model, undefined);
+    }
+  }
+}
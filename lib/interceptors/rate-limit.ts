@@ -3,13 +3,21 @@
  * Enforces dual-bucket rate limiting (device token + IP address)
  */
 
-import type { Interceptor } from '@connectrpc/connect';
+import { MethodKind, type Message } from '@bufbuild/protobuf';
+import type { Interceptor, StreamResponse } from '@connectrpc/connect';
 import { Code, ConnectError } from '@connectrpc/connect';
 import {
+  acquireStreamSlot,
   checkRateLimit,
+  getMethodCost,
   getRateLimitHeaders,
+  getRateLimitHeadersCombined,
+  type StreamSlotResult,
 } from '@/lib/rate-limit';
+import { getRequestEntitlements } from '@/lib/entitlements';
+import { connectErrorWithReason } from '@/lib/errors';
 import { anonymize } from '@/lib/utils/anonymize';
+import { getClientIp } from '@/lib/utils/client-ip';
 import { logger } from '@/lib/utils/logger';
 
 /**
@@ -17,14 +25,30 @@ import { logger } from '@/lib/utils/logger';
  * Enforces dual-bucket rate limiting on all Connect RPC requests
  *
  * Rate limits:
- * - 100 requests/hour with valid device token
+ * - Device token: the plan's limit (free 100/hour, Pro 500/hour by default)
  * - 50 requests/hour by IP address (fallback)
  * - Both must be within limits (AND logic, not OR)
+ * - Sliding window by default; token bucket or fixed window per bucket
+ *   (see RATE_LIMIT_ALGORITHM in lib/rate-limit)
+ * - Each RPC is weighted (e.g. CountTokens 0.1, StreamStandardCompletion 2;
+ *   see getMethodCost)
+ *
+ * Concurrent streams:
+ * - Streaming RPCs hold a slot per device token and per IP address while
+ *   they run (default 3 per device, 10 per IP)
+ * - Slots are released when the stream ends, fails or is cancelled
+ *
+ * Response metadata:
+ * - Successful responses carry X-RateLimit-* headers for both buckets
+ *   (-Token and -IP suffixes, plus the most restrictive without one)
+ * - Streams carry them as trailers
  *
  * Error handling:
  * - Returns RESOURCE_EXHAUSTED (429) if limit exceeded
- * - Includes X-RateLimit-* headers in response
+ * - Includes X-RateLimit-* headers for the exceeded bucket
  * - Includes Retry-After header for client backoff
+ * - Too many open streams fail with RESOURCE_EXHAUSTED and ErrorInfo
+ *   reason TOO_MANY_STREAMS
  *
  * Device Token Tracking:
  * - Extracted from request message (not headers)
@@ -44,55 +68,148 @@ export const rateLimitInterceptor: Interceptor = (next) => {
       : undefined;
 
     // Get client IP from request headers
-    // Priority: Cloudflare Edge IP > Real IP > First X-Forwarded-For > fallback
-    const headers = req.header;
-    const cfIp = headers.get('cf-connecting-ip')?.trim();
-    const realIp = headers.get('x-real-ip')?.trim();
-    const xff = headers.get('x-forwarded-for') || '';
-    const xffFirst = xff.split(',')[0]?.trim();
-    const ip = cfIp || realIp || xffFirst || '0.0.0.0';
-
-    // Check rate limits (both token and IP must be within limits)
-    const tokenRate = deviceToken
-      ? await checkRateLimit(deviceToken, true)
-      : null;
-    const ipRate = await checkRateLimit(ip, false);
-
-    // Determine if rate limit is violated (both must be within limits - AND logic)
-    const tokenViolated = tokenRate && !tokenRate.allowed;
-    const ipViolated = !ipRate.allowed;
-    const violated = tokenViolated ? tokenRate : ipViolated ? ipRate : null;
-
-    if (violated) {
-      logger.warn('Rate limit exceeded', {
-        method: req.method.name,
-        identifier: deviceToken
-          ? `token#${anonymize(deviceToken)}`
-          : `ip#${anonymize(ip)}`,
-        limit: violated.limit,
-        reset_at: new Date(violated.resetAt).toISOString(),
-      });
+    const ip = getClientIp(req.header) ?? '0.0.0.0';
 
-      const retryAfter = Math.max(
-        0,
-        Math.ceil((violated.resetAt - Date.now()) / 1000)
-      );
+    // Take stream slots before charging, so rejected streams cost nothing
+    // (server-streaming requests reach interceptors with req.stream false)
+    const streaming = req.method.kind === MethodKind.ServerStreaming;
+    const releaseSlots = streaming
+      ? await acquireStreamSlots(req.method.name, deviceToken, ip)
+      : async () => {};
+
+    try {
+      // Check rate limits (both token and IP must be within limits)
+      const cost = getMethodCost(req.method.name);
+      const tokenRate = deviceToken
+        ? await checkRateLimit(
+            deviceToken,
+            true,
+            cost,
+            (await getRequestEntitlements(deviceToken, req.contextValues)).requestsPerHour
+          )
+        : null;
+      const ipRate = await checkRateLimit(ip, false, cost);
+
+      // Determine if rate limit is violated (both must be within limits - AND logic)
+      const tokenViolated = tokenRate && !tokenRate.allowed;
+      const ipViolated = !ipRate.allowed;
+      const violated = tokenViolated ? tokenRate : ipViolated ? ipRate : null;
+
+      if (violated) {
+        logger.warn('Rate limit exceeded', {
+          method: req.method.name,
+          identifier: deviceToken
+            ? `token#${anonymize(deviceToken)}`
+            : `ip#${anonymize(ip)}`,
+          limit: violated.limit,
+          reset_at: new Date(violated.resetAt).toISOString(),
+        });
+
+        const retryAfter = Math.max(
+          0,
+          Math.ceil((violated.resetAt - Date.now()) / 1000)
+        );
+
+        // Create response headers with rate limit info
+        const rateLimitHeaders = getRateLimitHeaders(violated);
+        const responseHeaders: Record<string, string> = {
+          ...rateLimitHeaders,
+          'Retry-After': retryAfter.toString(),
+        };
+
+        throw new ConnectError(
+          `Rate limit exceeded: ${violated.limit} requests per hour. Retry after ${retryAfter}s`,
+          Code.ResourceExhausted,
+          new Headers(Object.entries(responseHeaders))
+        );
+      }
+
+      // Rate limit check passed - continue to next handler
+      const response = await next(req);
+
+      const metadata = response.stream ? response.trailer : response.header;
+      for (const [name, value] of Object.entries(getRateLimitHeadersCombined(tokenRate, ipRate))) {
+        metadata.set(name, value);
+      }
+
+      if (!response.stream) {
+        await releaseSlots();
+        return response;
+      }
+
+      // A stream that is never read never reaches its finally block, so
+      // release on abort as well as when iteration stops
+      req.signal.addEventListener('abort', () => void releaseSlots(), { once: true });
+      return releaseWhenDone(response, releaseSlots);
+    } catch (error) {
+      await releaseSlots();
+      throw error;
+    }
+  };
+};
+
+/**
+ * Take a stream slot for the device token (if any) and the IP address
+ *
+ * @returns Function releasing both slots
+ * @throws ConnectError with ResourceExhausted and reason TOO_MANY_STREAMS if
+ *   either has no free slot
+ */
+async function acquireStreamSlots(
+  method: string,
+  deviceToken: string | undefined,
+  ip: string
+): Promise<() => Promise<void>> {
+  const slots: StreamSlotResult[] = [];
+  const releaseAll = async () => {
+    await Promise.all(slots.map((slot) => slot.release()));
+  };
+
+  const buckets: Array<{ identifier: string; hasDeviceToken: boolean }> = [
+    ...(deviceToken ? [{ identifier: deviceToken, hasDeviceToken: true }] : []),
+    { identifier: ip, hasDeviceToken: false },
+  ];
 
-      // Create response headers with rate limit info
-      const rateLimitHeaders = getRateLimitHeaders(violated);
-      const responseHeaders: Record<string, string> = {
-        ...rateLimitHeaders,
-        'Retry-After': retryAfter.toString(),
-      };
+  for (const { identifier, hasDeviceToken } of buckets) {
+    const slot = await acquireStreamSlot(identifier, hasDeviceToken);
+    if (!slot.acquired) {
+      await releaseAll();
 
-      throw new ConnectError(
-        `Rate limit exceeded: ${violated.limit} requests per hour. Retry after ${retryAfter}s`,
+      const scope = hasDeviceToken ? 'device' : 'ip';
+      logger.warn('Concurrent stream limit exceeded', {
+        method,
+        identifier: hasDeviceToken
+          ? `token#${anonymize(identifier)}`
+          : `ip#${anonymize(identifier)}`,
+        limit: slot.limit,
+      });
+      throw connectErrorWithReason(
+        `Too many concurrent streams: ${slot.limit} per ${hasDeviceToken ? 'device' : 'IP address'}`,
         Code.ResourceExhausted,
-        new Headers(Object.entries(responseHeaders))
+        'TOO_MANY_STREAMS',
+        { scope, limit: String(slot.limit) }
       );
     }
+    slots.push(slot);
+  }
 
-    // Rate limit check passed - continue to next handler
-    return await next(req);
-  };
-};
+  return releaseAll;
+}
+
+/**
+ * Pass a stream through and release its slots once it ends, fails, or the
+ * consumer stops reading
+ */
+function releaseWhenDone<I extends Message<I>, O extends Message<O>>(
+  response: StreamResponse<I, O>,
+  release: () => Promise<void>
+): StreamResponse<I, O> {
+  async function* guarded(): AsyncGenerator<O> {
+    try {
+      yield* response.message;
+    } finally {
+      await release();
+    }
+  }
+  return { ...response, message: guarded() };
+}
@@ -0,0 +1,226 @@
+/**
+ * Model Registry
+ * Single source of truth for supported models and their capabilities
+ *
+ * Handlers, providers and cost calculation all read from this registry
+ * instead of hard-coding model names or guessing capabilities from prefixes.
+ */
+
+import type { ModelPricing } from '@/lib/providers/types';
+
+/**
+ * RPC tiers that can serve completions
+ * - standard: CreateStandardCompletion, StreamStandardCompletion
+ * - mini: CreateMiniCompletion, StreamMiniCompletion
+ */
+export type ModelTier = 'standard' | 'mini';
+
+/**
+ * Capabilities and limits for a single model
+ */
+export interface ModelSpec {
+  /** Canonical model name sent to the provider */
+  id: string;
+  /** Alternate names accepted in requests and responses (e.g., dated snapshots) */
+  aliases: string[];
+  /** Maximum prompt + completion tokens */
+  contextWindow: number;
+  /** Maximum completion tokens */
+  maxOutputTokens: number;
+  /** Maximum total request duration, including retries (see lib/deadlines) */
+  maxDurationMs: number;
+  /** Request parameter used for the completion token limit */
+  tokenParam: 'max_tokens' | 'max_completion_tokens';
+  /** Whether a custom temperature is accepted (gpt-5-* only supports the default) */
+  supportsTemperature: boolean;
+  /** Whether tool calling is supported */
+  supportsTools: boolean;
+  /** Whether image inputs are supported */
+  supportsImages: boolean;
+  /** OpenAI pricing per 1M tokens (December 2025, https://openai.com/api/pricing/) */
+  pricing: ModelPricing;
+  /** RPC tiers allowed to use this model */
+  tiers: ModelTier[];
+}
+
+/**
+ * Supported models
+ */
+export const MODEL_REGISTRY = {
+  'gpt-4o-mini': {
+    id: 'gpt-4o-mini',
+    aliases: ['gpt-4o-mini-2024-07-18'],
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    maxDurationMs: 120_000,
+    tokenParam: 'max_tokens',
+    supportsTemperature: true,
+    supportsTools: true,
+    supportsImages: true,
+    pricing: { input: 0.15, output: 0.6 },
+    tiers: ['standard', 'mini'],
+  },
+  'gpt-4o': {
+    id: 'gpt-4o',
+    aliases: ['gpt-4o-2024-08-06', 'gpt-4o-2024-11-20'],
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    maxDurationMs: 180_000,
+    tokenParam: 'max_tokens',
+    supportsTemperature: true,
+    supportsTools: true,
+    supportsImages: true,
+    pricing: { input: 2.5, output: 10.0 },
+    tiers: ['standard'],
+  },
+  'gpt-5-mini': {
+    id: 'gpt-5-mini',
+    aliases: ['gpt-5-mini-2025-08-07'],
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    maxDurationMs: 180_000,
+    tokenParam: 'max_completion_tokens',
+    supportsTemperature: false,
+    supportsTools: true,
+    supportsImages: true,
+    pricing: { input: 0.25, cached: 0.025, output: 2.0 },
+    tiers: ['standard', 'mini'],
+  },
+  'gpt-5.2': {
+    id: 'gpt-5.2',
+    aliases: ['gpt-5.2-2025-12-11'],
+    contextWindow: 400_000,
+    maxOutputTokens: 128_000,
+    maxDurationMs: 300_000,
+    tokenParam: 'max_completion_tokens',
+    supportsTemperature: false,
+    supportsTools: true,
+    supportsImages: true,
+    pricing: { input: 1.75, cached: 0.175, output: 14.0 },
+    tiers: ['standard'],
+  },
+} satisfies Record<string, ModelSpec>;
+
+/**
+ * Canonical model names
+ */
+export type ModelId = keyof typeof MODEL_REGISTRY;
+
+/**
+ * Default model for each RPC tier (used when the request has no model)
+ */
+export const DEFAULT_MODELS: Record<ModelTier, ModelId> = {
+  standard: 'gpt-5.2',
+  mini: 'gpt-4o-mini',
+};
+
+/**
+ * Dated snapshot suffix returned by OpenAI (e.g., "-2025-08-07")
+ */
+const SNAPSHOT_SUFFIX = /-\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Type guard for canonical model names
+ */
+export function isModelId(value: string): value is ModelId {
+  return Object.prototype.hasOwnProperty.call(MODEL_REGISTRY, value);
+}
+
+/**
+ * Get the spec for a canonical model name
+ */
+export function getModelSpec(id: ModelId): ModelSpec {
+  return MODEL_REGISTRY[id];
+}
+
+/**
+ * Resolve a model name or alias to its spec
+ * Also accepts unknown dated snapshots of a registered model
+ *
+ * @param name - Model name from a request or provider response
+ * @returns Model spec, or undefined if the model is not supported
+ */
+export function resolveModel(name: string): ModelSpec | undefined {
+  if (isModelId(name)) {
+    return MODEL_REGISTRY[name];
+  }
+
+  const specs: ModelSpec[] = Object.values(MODEL_REGISTRY);
+  const byAlias = specs.find((spec) => spec.aliases.includes(name));
+  if (byAlias) {
+    return byAlias;
+  }
+
+  const base = name.replace(SNAPSHOT_SUFFIX, '');
+  return base !== name && isModelId(base) ? MODEL_REGISTRY[base] : undefined;
+}
+
+/**
+ * List canonical model names allowed for an RPC tier
+ */
+export function listModelsForTier(tier: ModelTier): ModelId[] {
+  return Object.values(MODEL_REGISTRY)
+    .filter((spec: ModelSpec) => spec.tiers.includes(tier))
+    .map((spec) => spec.id)
+    .filter(isModelId);
+}
+
+/**
+ * Default fallback chains, tried in order after a model keeps failing upstream
+ * Override per model with MODEL_FALLBACKS (see FALLBACKS)
+ */
+export const DEFAULT_FALLBACKS: Record<ModelId, ModelId[]> = {
+  'gpt-5.2': ['gpt-5-mini', 'gpt-4o-mini'],
+  'gpt-4o': ['gpt-4o-mini'],
+  'gpt-5-mini': ['gpt-4o-mini'],
+  'gpt-4o-mini': [],
+};
+
+/**
+ * Parse MODEL_FALLBACKS into a model → fallback models map
+ * Format: comma-separated "model=fallback>fallback" entries; an empty list
+ * ("gpt-5.2=") disables fallback for that model
+ * Throws for unknown model names so misconfiguration fails loudly
+ *
+ * @param value - MODEL_FALLBACKS
+ * @returns Fallback models per overridden model
+ */
+export function parseFallbackOverrides(value: string | undefined): Map<ModelId, ModelId[]> {
+  const overrides = new Map<ModelId, ModelId[]>();
+  if (!value) return overrides;
+
+  for (const entry of value.split(',')) {
+    const [model, chain = ''] = entry.split('=').map((part) => part.trim());
+    if (!model) continue;
+
+    const names = [model, ...chain.split('>').map((name) => name.trim()).filter(Boolean)];
+    const unknown = names.find((name) => !isModelId(name));
+    if (unknown) {
+      throw new Error(`Unknown model "${unknown}" in MODEL_FALLBACKS`);
+    }
+
+    const [head, ...fallbacks] = names.filter(isModelId);
+    overrides.set(head, fallbacks);
+  }
+  return overrides;
+}
+
+/**
+ * Fallback models per model: DEFAULT_FALLBACKS with the MODEL_FALLBACKS
+ * entries applied, parsed once at startup so a bad value fails the deploy
+ * instead of every request that needs a fallback
+ */
+export const FALLBACKS: Record<ModelId, ModelId[]> = {
+  ...DEFAULT_FALLBACKS,
+  ...Object.fromEntries(parseFallbackOverrides(process.env.MODEL_FALLBACKS)),
+};
+
+/**
+ * Get the models to try for a request, starting with the model itself
+ *
+ * @param model - Requested model
+ * @returns Requested model followed by its fallbacks (no duplicates)
+ */
+export function getFallbackChain(model: ModelId): ModelId[] {
+  return [...new Set([model, ...FALLBACKS[model]])];
+}
@@ -0,0 +1,162 @@
+/**
+ * Input Moderation
+ * Screens user messages before they are sent to a model
+ *
+ * Uses the moderation endpoint of the provider serving the requested model
+ * (OpenAI's is free). Providers without one, and provider failures, fall back
+ * to local rules: a small set of patterns for clear-cut self-harm and
+ * violence statements, tuned to avoid gym vocabulary ("killer workout",
+ * "suicide sprints"). Only text is screened; images are not.
+ *
+ * Verdicts and logs carry category names and counts, never message content.
+ *
+ * Configuration:
+ * - MODERATION_MODE: "provider" (default), "local" (rules only) or "off"
+ */
+
+import type { ChatMessage } from '@/lib/openai';
+import { getProviderForModel, type ModerationResult } from '@/lib/providers';
+import { isAbortError } from '@/lib/providers/errors';
+import { logger } from '@/lib/utils/logger';
+
+/**
+ * Local moderation rules by category (OpenAI category names)
+ */
+export const LOCAL_MODERATION_RULES: Record<string, RegExp[]> = {
+  'self-harm': [
+    /\bkill(?:ing)?\s+myself\b/i,
+    /\bend(?:ing)?\s+my\s+(?:own\s+)?life\b/i,
+    /\bcommit(?:ting)?\s+suicide\b/i,
+    /\bsuicidal\b/i,
+    /\bself[-\s]harm(?:ing)?\b/i,
+  ],
+  violence: [
+    /\b(?:kill|murder|shoot|stab)\s+(?:him|her|them|you|someone|somebody|people|my\s+(?:wife|husband|partner|boss|coach|trainer|neighbou?r))\b/i,
+  ],
+};
+
+/**
+ * Outcome of screening a request
+ */
+export interface ModerationVerdict {
+  flagged: boolean;
+  /** Number of flagged messages per category */
+  categoryCounts: Record<string, number>;
+  /** Whether the provider endpoint or the local rules decided */
+  source: 'provider' | 'local';
+}
+
+/**
+ * Per-call options for moderation
+ */
+export interface ModerationOptions {
+  /** Aborts the provider call (e.g., when the client disconnects) */
+  signal?: AbortSignal;
+}
+
+type ModerationMode = 'provider' | 'local' | 'off';
+
+/**
+ * Get the configured moderation mode
+ */
+function getModerationMode(): ModerationMode {
+  const mode = process.env.MODERATION_MODE;
+  return mode === 'local' || mode === 'off' ? mode : 'provider';
+}
+
+/**
+ * Extract the text of a message (text parts only for multi-part content)
+ */
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join('\n');
+  }
+  return '';
+}
+
+/**
+ * Screen one text with the local rules
+ *
+ * @param text - Text to screen
+ * @returns Flagged categories
+ */
+export function moderateTextLocally(text: string): ModerationResult {
+  const categories = Object.entries(LOCAL_MODERATION_RULES)
+    .filter(([, patterns]) => patterns.some((pattern) => pattern.test(text)))
+    .map(([category]) => category);
+  return { flagged: categories.length > 0, categories };
+}
+
+/**
+ * Screen texts with the model's provider, falling back to local rules
+ */
+async function moderateTexts(
+  texts: string[],
+  model: string,
+  options: ModerationOptions
+): Promise<{ results: ModerationResult[]; source: ModerationVerdict['source'] }> {
+  const provider = getModerationMode() === 'provider' ? getProviderForModel(model) : undefined;
+
+  if (provider?.moderate) {
+    try {
+      return { results: await provider.moderate(texts, options), source: 'provider' };
+    } catch (error) {
+      if (options.signal?.aborted || isAbortError(error)) {
+        throw error;
+      }
+      logger.warn('Moderation provider failed, using local rules', {
+        provider: provider.name,
+        kind: provider.classifyError(error).kind,
+      });
+    }
+  }
+
+  return { results: texts.map(moderateTextLocally), source: 'local' };
+}
+
+/**
+ * Screen the user messages of a request
+ * Other roles (system prompts, assistant replies, tool results) come from
+ * the app or the model and are not screened
+ *
+ * @param messages - Messages in OpenAI format
+ * @param model - Model that will serve the request (selects the provider)
+ * @param options - Abort signal for the provider call
+ * @returns Verdict with per-category counts (not flagged when moderation is off)
+ */
+export async function moderateMessages(
+  messages: ChatMessage[],
+  model: string,
+  options: ModerationOptions = {}
+): Promise<ModerationVerdict> {
+  const texts = messages
+    .filter((message) => message.role === 'user')
+    .map(messageText)
+    .filter((text) => text.trim().length > 0);
+
+  if (getModerationMode() === 'off' || texts.length === 0) {
+    return { flagged: false, categoryCounts: {}, source: 'local' };
+  }
+
+  const { results, source } = await moderateTexts(texts, model, options);
+
+  const categoryCounts: Record<string, number> = {};
+  for (const result of results.filter((r) => r.flagged)) {
+    for (const category of result.categories) {
+      categoryCounts[category] = (categoryCounts[category] ?? 0) + 1;
+    }
+  }
+
+  const flagged = results.some((result) => result.flagged);
+  if (flagged) {
+    logger.warn('Moderation flagged request', { source, categories: categoryCounts });
+  }
+
+  return { flagged, categoryCounts, source };
+}
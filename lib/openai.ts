@@ -1,27 +1,29 @@
-import OpenAI from "openai";
-
 /**
- * Shared OpenAI client instance (lazy initialization)
- * Configured with API key from environment variables
+ * Model Completion Entry Point
+ * Routes chat completions to the configured model provider with retries
+ *
+ * The provider for each model comes from configuration (see lib/providers),
+ * so handlers never import a vendor SDK directly.
  */
-let openaiClient: OpenAI | null = null;
-
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error(
-        "OPENAI_API_KEY environment variable is not set. Please add it to your .env file."
-      );
-    }
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+
+import { resolveModel, type ModelId } from "@/lib/models";
+import {
+  getProviderForModel,
+  type ModelProvider,
+  type ProviderErrorKind,
+} from "@/lib/providers";
+import { throwIfAborted } from "@/lib/providers/errors";
+import { logger } from "@/lib/utils/logger";
+import { sleep } from "@/lib/utils/sleep";
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionResponse,
+  OpenAIContentPart,
+  OpenAIResponseFormat,
+} from "@/lib/types/openai-api";
 
 /**
- * Retry configuration for OpenAI API calls
+ * Retry configuration for model provider calls
  * - maxRetries: Maximum number of retry attempts
  * - initialDelayMs: Starting delay for exponential backoff
  * - maxDelayMs: Maximum delay between retries
@@ -35,27 +37,16 @@ const RETRY_CONFIG = {
 };
 
 /**
- * Determines if an error is retryable (transient failure)
- * Retryable errors: rate limit (429), server errors (500, 502, 503, 504)
+ * Error kinds that move on to the next model in a fallback chain once
+ * retries on the current model are exhausted
+ * Client errors (bad request, auth) fail immediately since every model
+ * would reject them too
  */
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof OpenAI.APIError) {
-    const status = error.status;
-    // Retry on rate limits and server errors
-    return status === 429 || (status >= 500 && status < 600);
-  }
-  // Network errors are also retryable
-  if (error instanceof Error) {
-    const message = error.message.toLowerCase();
-    return (
-      message.includes('econnrefused') ||
-      message.includes('econnreset') ||
-      message.includes('etimedout') ||
-      message.includes('socket hang up')
-    );
-  }
-  return false;
-}
+const FALLBACK_ERROR_KINDS: ReadonlySet<ProviderErrorKind> = new Set([
+  "server",
+  "timeout",
+  "network",
+]);
 
 /**
  * Calculate exponential backoff delay with jitter
@@ -69,18 +60,27 @@ function calculateBackoffDelay(attempt: number): number {
 
 /**
  * Wraps an async function with retry logic
- * Retries up to maxRetries times on retryable errors
+ * Retries up to maxRetries times on errors the provider classifies as retryable
+ * (rate limits, server errors, network issues)
+ * Stops immediately once the signal aborts, including during backoff sleeps,
+ * and gives up when the next backoff would run past the deadline
  */
-async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
+async function withRetry<T>(
+  provider: ModelProvider,
+  fn: () => Promise<T>,
+  { signal, deadline }: CompletionOptions = {}
+): Promise<T> {
   let lastError: unknown;
 
   for (let attempt = 0; attempt <= RETRY_CONFIG.maxRetries; attempt++) {
+    throwIfAborted(signal);
+
     try {
       return await fn();
     } catch (error) {
       lastError = error;
 
-      if (!isRetryableError(error)) {
+      if (signal?.aborted || !provider.classifyError(error).retryable) {
         // Non-retryable error, throw immediately
         throw error;
       }
@@ -91,13 +91,55 @@ async function withRetry<T>(fn: () => Promise<T>): Promise<T> {
       }
 
       const delayMs = calculateBackoffDelay(attempt);
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (deadline !== undefined && Date.now() + delayMs >= deadline) {
+        // No time left for another attempt
+        break;
+      }
+
+      await sleep(delayMs, signal);
     }
   }
 
   throw lastError;
 }
 
+/**
+ * Runs an attempt against each model in order until one succeeds
+ * Moves to the next model only for upstream failures (see
+ * FALLBACK_ERROR_KINDS); other errors, the last model's error, and errors
+ * after the signal aborts are thrown
+ */
+async function withFallback<T>(
+  models: readonly ModelId[],
+  attempt: (model: ModelId) => Promise<T>,
+  signal?: AbortSignal
+): Promise<{ model: ModelId; result: T }> {
+  if (models.length === 0) {
+    throw new Error("Fallback chain must contain at least one model");
+  }
+
+  for (let i = 0; ; i++) {
+    const model = models[i];
+    try {
+      return { model, result: await attempt(model) };
+    } catch (error) {
+      const next = models[i + 1];
+      const classification = getProviderForModel(model).classifyError(error);
+
+      if (!next || signal?.aborted || !FALLBACK_ERROR_KINDS.has(classification.kind)) {
+        throw error;
+      }
+
+      logger.warn("Model fallback", {
+        from: model,
+        to: next,
+        reason: classification.kind,
+        status: classification.status,
+      });
+    }
+  }
+}
+
 /**
  * Tool call information returned by assistant messages
  */
@@ -116,7 +158,7 @@ export interface ToolCallInfo {
  */
 export interface ChatMessage {
   role: "system" | "user" | "assistant" | "tool";
-  content: string | null; // Can be null for tool calls
+  content: string | OpenAIContentPart[] | null; // Can be null for tool calls
   name?: string; // Function name for tool results
   tool_call_id?: string; // Required when role is "tool"
   tool_calls?: ToolCallInfo[]; // For assistant messages with tool calls
@@ -183,207 +225,201 @@ export interface ChatCompletionRequest {
   max_tokens?: number;
   tools?: ToolDefinition[];
   tool_choice?: ToolChoice;
+  response_format?: OpenAIResponseFormat;
 }
 
 /**
- * Build model-specific request parameters for OpenAI API
- *
- * gpt-5-* models:
- * - Require: max_completion_tokens (not max_tokens)
- * - Require: no custom temperature (only supports default=1)
- *
- * gpt-4o* models:
- * - Require: max_tokens
- * - Support: custom temperature
+ * Per-call options for completions
  */
-function buildModelSpecificParams(
-  model: string,
-  request: ChatCompletionRequest,
-  tokenLimit: number
-): Record<string, unknown> {
-  const isGpt5 = model.startsWith("gpt-5");
-
-  return {
-    ...(isGpt5
-      ? { max_completion_tokens: tokenLimit }
-      : {
-          max_tokens: tokenLimit,
-          temperature: request.temperature ?? 0.7,
-        }),
-  };
+export interface CompletionOptions {
+  /**
+   * Aborts the upstream request and any pending retries
+   * Pass the handler context's signal so client disconnects stop billing
+   */
+  signal?: AbortSignal;
+  /** Absolute deadline (epoch ms); retries that can't finish before it are skipped */
+  deadline?: number;
 }
 
 /**
  * Create a chat completion using the specified model
  *
- * Note: gpt-5-* models require max_completion_tokens instead of max_tokens.
- * The OpenAI SDK types don't enforce this at compile time because max_tokens
- * is still valid for older models - it's a runtime error from OpenAI.
- *
- * Includes retry logic with exponential backoff for transient failures
- * (rate limits, server errors, network issues).
+ * Dispatches to the provider configured for the model. Includes retry logic
+ * with exponential backoff for transient failures (rate limits, server
+ * errors, network issues).
  */
 export async function createChatCompletion(
-  model: "gpt-4o-mini" | "gpt-4o" | "gpt-5-mini" | "gpt-5.2",
-  request: ChatCompletionRequest
-): Promise<Awaited<ReturnType<OpenAI["chat"]["completions"]["create"]>>> {
-  return withRetry(async () => {
-    const client = getOpenAIClient();
-    const tokenLimit = request.max_tokens ?? 2000;
-
-    try {
-      const completion = await client.chat.completions.create({
-        model,
-        messages: request.messages as Parameters<
-          typeof client.chat.completions.create
-        >[0]["messages"],
-        ...buildModelSpecificParams(model, request, tokenLimit),
-        stream: false,
-        ...(request.tools && { tools: request.tools }),
-        ...(request.tool_choice && { tool_choice: request.tool_choice }),
-      });
-
-      return completion;
-    } catch (error: unknown) {
-      // Sentry: Report OpenAI API errors
-      const Sentry = await import("@sentry/nextjs");
-
-      Sentry.captureException(error, {
-        tags: {
-          service: "openai",
-          model,
-        },
-        extra: {
-          message_count: request.messages.length,
-          has_tools: Boolean(request.tools),
-          // DO NOT include message content or tool definitions
-        },
-      });
-
-      // Re-throw to let retry logic and API route handle the response
-      throw error;
-    }
-  });
+  model: ModelId,
+  request: ChatCompletionRequest,
+  options: CompletionOptions = {}
+): Promise<OpenAIChatCompletionResponse> {
+  const provider = getProviderForModel(model);
+  return withRetry(
+    provider,
+    () => provider.createChatCompletion(model, request, { signal: options.signal }),
+    options
+  );
 }
 
 /**
  * Create a streaming chat completion using the specified model
  *
  * Returns an AsyncIterable that yields ChatCompletionChunk messages as they
- * arrive from the OpenAI API. Use in an async generator to stream responses.
+ * arrive from the provider. Use in an async generator to stream responses.
+ * The final chunk has no choices and carries token usage for the whole stream.
  *
- * Note: gpt-5-* models require max_completion_tokens instead of max_tokens.
+ * Includes retry logic with exponential backoff for stream creation, up to
+ * and including the first chunk (transient failures like rate limits, server
+ * errors, network issues). Errors after the first chunk are not retried -
+ * they indicate the stream is degraded and recovery should happen at the
+ * handler level.
  *
- * Includes retry logic with exponential backoff for initial stream creation
- * (transient failures like rate limits, server errors, network issues).
- * Individual chunk delivery errors are not retried - they indicate the stream
- * is degraded and recovery should happen at the handler level.
+ * Aborting options.signal stops reading from the provider mid-stream.
  */
 export async function* createChatCompletionStream(
-  model: "gpt-4o-mini" | "gpt-4o" | "gpt-5-mini" | "gpt-5.2",
-  request: ChatCompletionRequest
-): AsyncGenerator<OpenAI.Chat.Completions.ChatCompletionChunk> {
-  // Retry only applies to initial stream creation, not chunk delivery
-  const stream = await withRetry(async () => {
-    const client = getOpenAIClient();
-    const tokenLimit = request.max_tokens ?? 2000;
+  model: ModelId,
+  request: ChatCompletionRequest,
+  options: CompletionOptions = {}
+): AsyncGenerator<OpenAIChatCompletionChunk> {
+  yield* resumeStream(await openStream(model, request, options));
+}
 
-    try {
-      const streamResponse = await client.chat.completions.create({
-        model,
-        messages: request.messages as Parameters<
-          typeof client.chat.completions.create
-        >[0]["messages"],
-        ...buildModelSpecificParams(model, request, tokenLimit),
-        stream: true,
-        ...(request.tools && { tools: request.tools }),
-        ...(request.tool_choice && { tool_choice: request.tool_choice }),
-      });
+/**
+ * Stream opened up to and including its first chunk
+ */
+interface OpenedStream {
+  stream: AsyncGenerator<OpenAIChatCompletionChunk>;
+  first: IteratorResult<OpenAIChatCompletionChunk>;
+}
 
-      return streamResponse;
-    } catch (error: unknown) {
-      // Sentry: Report OpenAI API errors during stream initialization
-      const Sentry = await import("@sentry/nextjs");
-
-      Sentry.captureException(error, {
-        tags: {
-          service: "openai",
-          model,
-          stream: true,
-          phase: "initialization",
-        },
-        extra: {
-          message_count: request.messages.length,
-          has_tools: Boolean(request.tools),
-          // DO NOT include message content or tool definitions
-        },
+/**
+ * Open a provider stream, retrying until the first chunk arrives
+ */
+async function openStream(
+  model: ModelId,
+  request: ChatCompletionRequest,
+  options: CompletionOptions
+): Promise<OpenedStream> {
+  const provider = getProviderForModel(model);
+
+  // Retry only applies to stream creation, not chunk delivery
+  return withRetry(
+    provider,
+    async () => {
+      const stream = provider.createChatCompletionStream(model, request, {
+        signal: options.signal,
       });
+      const first = await stream.next();
+      return { stream, first };
+    },
+    options
+  );
+}
 
-      // Re-throw to let retry logic handle transient failures
-      throw error;
-    }
-  });
-
-  // Yield each chunk as it arrives
-  // Note: Errors during chunk delivery are not retried at this level
-  try {
-    for await (const chunk of stream) {
-      yield chunk;
-    }
-  } catch (error: unknown) {
-    // Sentry: Report errors during stream delivery
-    const Sentry = await import("@sentry/nextjs");
-
-    Sentry.captureException(error, {
-      tags: {
-        service: "openai",
-        model,
-        stream: true,
-        phase: "delivery",
-      },
-      extra: {
-        // DO NOT include message content or tool definitions
-      },
-    });
-
-    // Re-throw to let handler deal with stream errors
-    throw error;
+/**
+ * Yield the first chunk of an opened stream followed by the rest
+ */
+async function* resumeStream({
+  stream,
+  first,
+}: OpenedStream): AsyncGenerator<OpenAIChatCompletionChunk> {
+  if (first.done) {
+    return;
   }
+
+  yield first.value;
+  yield* stream;
 }
 
 /**
- * Official OpenAI pricing (per 1M tokens)
- * Updated: December 2025
- * Source: https://openai.com/api/pricing/
+ * Completion produced by one model of a fallback chain
  */
-export const PRICING_USD_PER_MTOK = {
-  "gpt-4o-mini": { input: 0.15, output: 0.6 },
-  "gpt-4o": { input: 2.5, output: 10.0 },
-  "gpt-5-mini": { input: 0.25, cached: 0.025, output: 2.0 },
-  "gpt-5.2": { input: 1.75, cached: 0.175, output: 14.0 },
-} satisfies Record<
-  "gpt-4o-mini" | "gpt-4o" | "gpt-5-mini" | "gpt-5.2",
-  { input: number; output: number; cached?: number }
->;
-
-type SupportedModel = keyof typeof PRICING_USD_PER_MTOK;
+export interface FallbackCompletion {
+  /** Model that produced the completion */
+  model: ModelId;
+  completion: OpenAIChatCompletionResponse;
+}
 
 /**
- * Calculate approximate cost for OpenAI API usage
- * Prices as of December 2025 (per 1M tokens):
- * - gpt-4o-mini: $0.15 input, $0.60 output
- * - gpt-4o: $2.50 input, $10.00 output
- * - gpt-5-mini: $0.25 input, $0.025 cached, $2.00 output (fast, cheap)
- * - gpt-5.2: $1.75 input, $0.175 cached, $14.00 output (agentic tasks)
+ * Stream produced by one model of a fallback chain
+ */
+export interface FallbackStream {
+  /** Model that serves the stream */
+  model: ModelId;
+  stream: AsyncGenerator<OpenAIChatCompletionChunk>;
+}
+
+/**
+ * Create a chat completion, falling back along a chain of models
+ *
+ * Each model gets the usual retries; when they are exhausted on an upstream
+ * failure (5xx, timeout, network), the next model in the chain is tried.
+ *
+ * @param models - Models to try in order (requested model first)
+ * @param request - Completion request
+ * @param options - Per-call options (abort signal, deadline)
+ * @returns Completion and the model that produced it
+ */
+export async function createChatCompletionWithFallback(
+  models: readonly ModelId[],
+  request: ChatCompletionRequest,
+  options: CompletionOptions = {}
+): Promise<FallbackCompletion> {
+  const { model, result } = await withFallback(
+    models,
+    (candidate) => createChatCompletion(candidate, request, options),
+    options.signal
+  );
+  return { model, completion: result };
+}
+
+/**
+ * Open a streaming chat completion, falling back along a chain of models
+ *
+ * Falls back only while opening the stream (up to and including the first
+ * chunk), so clients never receive chunks from two different models.
+ * Errors after the first chunk are thrown as-is.
+ *
+ * @param models - Models to try in order (requested model first)
+ * @param request - Completion request
+ * @param options - Per-call options (abort signal, deadline)
+ * @returns Stream and the model that serves it
+ */
+export async function createChatCompletionStreamWithFallback(
+  models: readonly ModelId[],
+  request: ChatCompletionRequest,
+  options: CompletionOptions = {}
+): Promise<FallbackStream> {
+  const { model, result } = await withFallback(
+    models,
+    (candidate) => openStream(candidate, request, options),
+    options.signal
+  );
+  return { model, stream: resumeStream(result) };
+}
+
+/**
+ * Calculate approximate cost for model usage
+ * Uses the pricing of the provider configured for the model
+ * (registry pricing for OpenAI, zero for providers that don't price it,
+ * e.g. the local fake)
+ *
+ * Accepts aliases and dated snapshots (e.g. the model reported in a
+ * provider response); unknown models cost 0.
  */
 export function calculateCost(
-  model: SupportedModel,
+  model: string,
   promptTokens: number,
   completionTokens: number,
   cachedInputTokens: number = 0
 ): number {
-  const price = PRICING_USD_PER_MTOK[model];
-  const cachedRate = "cached" in price ? price.cached : price.input;
+  const spec = resolveModel(model);
+  const price = spec && getProviderForModel(spec.id).getPricing(spec.id);
+  if (!price) {
+    return 0;
+  }
+
+  const cachedRate = price.cached ?? price.input;
   const uncachedInputTokens = Math.max(0, promptTokens - cachedInputTokens);
   const inputCost = (uncachedInputTokens / 1_000_000) * price.input;
   const cachedCost = (cachedInputTokens / 1_000_000) * cachedRate;
@@ -0,0 +1,168 @@
+/**
+ * Prompt Template Registry
+ * Looks up, validates and renders server-managed system prompts
+ *
+ * Requests reference a template as "name@version" (pinned) or "name" (latest
+ * version) and supply typed values for its variables. The rendered text is
+ * sent as the first system message.
+ */
+
+import { createContextKey } from '@connectrpc/connect';
+import { PROMPT_TEMPLATES } from '@/lib/prompts/templates';
+import type {
+  PromptTemplate,
+  PromptTemplateUsage,
+  PromptVariableSpec,
+  PromptVariableValue,
+} from '@/lib/prompts/types';
+
+export type {
+  PromptTemplate,
+  PromptTemplateUsage,
+  PromptVariableSpec,
+  PromptVariableValue,
+} from '@/lib/prompts/types';
+
+/**
+ * Template reference format: "name" or "name@version"
+ */
+const TEMPLATE_ID_PATTERN = /^([a-z][a-z0-9_]*)(?:@([1-9]\d*))?$/;
+
+/**
+ * Variable placeholder in template text: {{name}}
+ */
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Context value holding the template that rendered the request's system prompt
+ * Set by the handlers and read by the logging interceptor
+ */
+export const promptTemplateKey = createContextKey<PromptTemplateUsage | undefined>(undefined, {
+  description: 'Prompt template used by the request',
+});
+
+/**
+ * Look up a template by reference
+ *
+ * @param id - "name@version", or "name" for the latest version
+ * @returns Template, or undefined if no such template or version exists
+ */
+export function getPromptTemplate(id: string): PromptTemplate | undefined {
+  const match = TEMPLATE_ID_PATTERN.exec(id);
+  if (!match) return undefined;
+
+  const [, name, version] = match;
+  const versions = PROMPT_TEMPLATES.filter((template) => template.name === name);
+  if (version) {
+    return versions.find((template) => template.version === Number(version));
+  }
+  return versions.reduce<PromptTemplate | undefined>(
+    (latest, template) => (!latest || template.version > latest.version ? template : latest),
+    undefined
+  );
+}
+
+/**
+ * Check a single value against its declared type
+ * Returns an error message, or null if the value is valid
+ */
+function validateVariable(
+  name: string,
+  spec: PromptVariableSpec,
+  value: PromptVariableValue
+): string | null {
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') return `Variable "${name}" must be a string`;
+      if (spec.maxLength !== undefined && value.length > spec.maxLength) {
+        return `Variable "${name}" exceeds ${spec.maxLength} characters`;
+      }
+      return null;
+    case 'enum':
+      if (typeof value !== 'string' || !spec.values.includes(value)) {
+        return `Variable "${name}" must be one of: ${spec.values.join(', ')}`;
+      }
+      return null;
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `Variable "${name}" must be a number`;
+      }
+      if (spec.type === 'integer' && !Number.isInteger(value)) {
+        return `Variable "${name}" must be an integer`;
+      }
+      if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+        return `Variable "${name}" must be between ${spec.min ?? '-∞'} and ${spec.max ?? '∞'}`;
+      }
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Variable "${name}" must be a boolean`;
+  }
+}
+
+/**
+ * Validate request variables against a template's declarations
+ * Variables without a default are required; undeclared variables are rejected
+ *
+ * @param template - Template being rendered
+ * @param values - Variable values from the request
+ * @returns Array of error messages (empty if valid)
+ */
+export function validatePromptVariables(
+  template: PromptTemplate,
+  values: Record<string, PromptVariableValue | undefined>
+): string[] {
+  const errors: string[] = [];
+  const id = `${template.name}@${template.version}`;
+
+  for (const name of Object.keys(values)) {
+    if (!Object.prototype.hasOwnProperty.call(template.variables, name)) {
+      errors.push(`Prompt template ${id}: unknown variable "${name}"`);
+    }
+  }
+
+  for (const [name, spec] of Object.entries(template.variables)) {
+    const value = values[name];
+    if (value === undefined) {
+      if (spec.default === undefined) {
+        errors.push(`Prompt template ${id}: missing variable "${name}"`);
+      }
+      continue;
+    }
+
+    const error = validateVariable(name, spec, value);
+    if (error) {
+      errors.push(`Prompt template ${id}: ${error}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Render a template with validated variables
+ * Missing variables use their declared defaults; booleans render as yes/no
+ *
+ * @param template - Template to render
+ * @param values - Variable values (see validatePromptVariables)
+ * @returns System prompt text
+ */
+export function renderPromptTemplate(
+  template: PromptTemplate,
+  values: Record<string, PromptVariableValue | undefined>
+): string {
+  return template.text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const spec = template.variables[name];
+    const value = values[name] ?? spec?.default;
+    if (value === undefined) return placeholder;
+    if (typeof value === 'boolean') return value ? 'yes' : 'no';
+    return String(value);
+  });
+}
+
+/**
+ * List the placeholders used in a template's text
+ */
+export function listTemplatePlaceholders(template: PromptTemplate): string[] {
+  return [...new Set([...template.text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]))];
+}
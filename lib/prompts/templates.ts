@@ -0,0 +1,104 @@
+/**
+ * Prompt Templates
+ * System prompts served to the app by name and version
+ *
+ * Never edit a published version: clients may pin it. Add a new version
+ * instead; clients that reference a template without a version get the latest.
+ */
+
+import type { PromptTemplate } from '@/lib/prompts/types';
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'program_generator',
+    version: 1,
+    description: 'Generates a multi-week training program',
+    variables: {
+      goal: {
+        type: 'enum',
+        description: 'Primary training goal',
+        values: ['strength', 'hypertrophy', 'endurance', 'general_fitness'],
+      },
+      experience: {
+        type: 'enum',
+        description: 'Training experience level',
+        values: ['beginner', 'intermediate', 'advanced'],
+      },
+      days_per_week: {
+        type: 'integer',
+        description: 'Training days per week',
+        min: 1,
+        max: 7,
+      },
+      session_minutes: {
+        type: 'integer',
+        description: 'Target session length in minutes',
+        min: 15,
+        max: 180,
+        default: 60,
+      },
+      equipment: {
+        type: 'string',
+        description: 'Available equipment',
+        maxLength: 500,
+        default: 'a fully equipped commercial gym',
+      },
+    },
+    text: [
+      'You are RepKit, an expert strength and conditioning coach.',
+      'Design a training program for a {{experience}} lifter whose goal is {{goal}}.',
+      'They train {{days_per_week}} days per week for about {{session_minutes}} minutes per session',
+      'and have access to {{equipment}}.',
+      'Use progressive overload, balance movement patterns across the week, and include',
+      'sets, reps, rest periods and target effort (RPE) for every exercise.',
+      'Only program exercises that can be done with the available equipment.',
+    ].join('\n'),
+  },
+  {
+    name: 'exercise_substitution',
+    version: 1,
+    description: 'Suggests replacements for an exercise',
+    variables: {
+      exercise: {
+        type: 'string',
+        description: 'Exercise to replace',
+        maxLength: 100,
+      },
+      reason: {
+        type: 'string',
+        description: 'Why the exercise needs replacing',
+        maxLength: 200,
+        default: 'the equipment is unavailable',
+      },
+    },
+    text: [
+      'You are RepKit, an expert strength and conditioning coach.',
+      'Suggest up to three substitutes for {{exercise}} because {{reason}}.',
+      'Each substitute must train the same primary muscles and movement pattern.',
+      'Keep each suggestion to one sentence explaining why it is a good match.',
+    ].join('\n'),
+  },
+  {
+    name: 'workout_summary',
+    version: 1,
+    description: 'Summarizes a completed workout',
+    variables: {
+      weight_unit: {
+        type: 'enum',
+        description: 'Unit used for loads',
+        values: ['kg', 'lb'],
+      },
+      include_next_steps: {
+        type: 'boolean',
+        description: 'Whether to suggest changes for the next session',
+        default: true,
+      },
+    },
+    text: [
+      'You are RepKit, an encouraging strength coach.',
+      'Summarize the workout the user logged in three sentences or fewer, reporting loads in {{weight_unit}}.',
+      'Call out personal records and total volume.',
+      'Suggest changes for the next session: {{include_next_steps}}.',
+    ].join('\n'),
+  },
+];
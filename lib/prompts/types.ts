@@ -0,0 +1,48 @@
+/**
+ * Prompt Template Types
+ * Server-managed system prompts with typed variables
+ */
+
+/**
+ * Declared type of a template variable
+ * - string: free text (optionally length-limited)
+ * - enum: one of a fixed set of strings
+ * - integer / number: numeric values (optionally range-limited)
+ * - boolean: true or false
+ */
+export type PromptVariableSpec =
+  | { type: 'string'; description: string; maxLength?: number; default?: string }
+  | { type: 'enum'; description: string; values: string[]; default?: string }
+  | { type: 'integer'; description: string; min?: number; max?: number; default?: number }
+  | { type: 'number'; description: string; min?: number; max?: number; default?: number }
+  | { type: 'boolean'; description: string; default?: boolean };
+
+/**
+ * Variable value supplied by a request
+ */
+export type PromptVariableValue = string | number | boolean;
+
+/**
+ * A single version of a prompt template
+ * Published versions are immutable; changes ship as a new version
+ */
+export interface PromptTemplate {
+  /** Template name (e.g., "program_generator") */
+  name: string;
+  /** Version number, starting at 1 */
+  version: number;
+  /** What the prompt is for */
+  description: string;
+  /** Variables referenced by the text as {{name}} */
+  variables: Record<string, PromptVariableSpec>;
+  /** System prompt text with {{variable}} placeholders */
+  text: string;
+}
+
+/**
+ * Template and version that rendered a request's system prompt
+ */
+export interface PromptTemplateUsage {
+  name: string;
+  version: number;
+}
@@ -0,0 +1,91 @@
+/**
+ * Provider Error Helpers
+ * Shared error type and HTTP status classification for model providers
+ */
+
+import type { ProviderErrorClassification } from '@/lib/providers/types';
+
+/**
+ * Error raised by providers that don't have their own SDK error type
+ * Carries an HTTP-style status so handlers can map it like OpenAI errors
+ */
+export class ProviderError extends Error {
+  /**
+   * @param message - Error message from the provider
+   * @param status - HTTP status of the failed upstream call
+   */
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Classify an HTTP status from an upstream provider
+ * Retryable: rate limit (429), server errors (5xx)
+ */
+export function classifyHttpStatus(status: number): ProviderErrorClassification {
+  if (status === 429) {
+    return { kind: 'rate_limit', retryable: true, status };
+  }
+  if (status >= 500 && status < 600) {
+    return { kind: 'server', retryable: true, status };
+  }
+  if (status === 401 || status === 403) {
+    return { kind: 'auth', retryable: false, status };
+  }
+  return { kind: 'invalid_request', retryable: false, status };
+}
+
+/**
+ * Check whether an error comes from an aborted request
+ * Matches DOM-style AbortErrors thrown by fetch and AbortSignal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Create the AbortError thrown for cancelled provider calls
+ */
+export function createAbortError(): Error {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Throw an AbortError if the signal has been aborted
+ * Uses a consistent AbortError regardless of the signal's abort reason
+ */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Classify a network-level error by its message
+ * Network errors are retryable (connection refused/reset, timeouts);
+ * aborted requests are cancellations and never retried
+ */
+export function classifyNetworkError(error: unknown): ProviderErrorClassification {
+  if (isAbortError(error)) {
+    return { kind: 'cancelled', retryable: false };
+  }
+  if (error instanceof Error) {
+    const message = error.message.toLowerCase();
+    if (message.includes('etimedout')) {
+      return { kind: 'timeout', retryable: true };
+    }
+    if (
+      message.includes('econnrefused') ||
+      message.includes('econnreset') ||
+      message.includes('socket hang up')
+    ) {
+      return { kind: 'network', retryable: true };
+    }
+  }
+  return { kind: 'unknown', retryable: false };
+}
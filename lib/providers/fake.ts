@@ -0,0 +1,311 @@
+/**
+ * Fake Model Provider
+ * Deterministic local provider for offline development and tests
+ *
+ * Produces the same output for the same input without network access:
+ * - Text replies echo the last user message
+ * - Forced tool calls ("required" or a specific function) get schema-shaped arguments
+ * - json_object / json_schema response formats get schema-shaped JSON
+ * - A user message containing "[fake-error:<status>]" fails with that HTTP status
+ *   ("[fake-error:<status>@<model>]" fails only for that model, to exercise fallbacks)
+ * - A user message containing "[fake-delay:<ms>]" waits that long before replying
+ *   (and before each streamed chunk), to exercise deadlines and cancellation
+ * - Moderation flags inputs containing "[fake-flag:<category>]" with that category
+ */
+
+import { createHash } from 'crypto';
+import type { ChatCompletionRequest, ChatMessage } from '@/lib/openai';
+import type { ModelPricing, ModelProvider, ModerationResult } from '@/lib/providers/types';
+import {
+  ProviderError,
+  classifyHttpStatus,
+  classifyNetworkError,
+  throwIfAborted,
+} from '@/lib/providers/errors';
+import { sleep } from '@/lib/utils/sleep';
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionResponse,
+} from '@/lib/types/openai-api';
+
+/**
+ * Marker that makes the fake provider fail with the given status
+ */
+const FAKE_ERROR_PATTERN = /\[fake-error:(\d{3})(?:@([\w.-]+))?\]/;
+
+/**
+ * Marker that makes the fake provider wait before replying
+ */
+const FAKE_DELAY_PATTERN = /\[fake-delay:(\d+)\]/;
+
+/**
+ * Marker that makes fake moderation flag an input
+ */
+const FAKE_FLAG_PATTERN = /\[fake-flag:([\w/-]+)\]/g;
+
+/**
+ * Approximate characters per token for fake usage numbers
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Words per streamed content chunk
+ */
+const WORDS_PER_CHUNK = 3;
+
+type FakeToolCall = NonNullable<
+  OpenAIChatCompletionResponse['choices'][number]['message']['tool_calls']
+>[number];
+
+/**
+ * Extract the text of a message (text parts only for multi-part content)
+ */
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    const images = message.content.filter((part) => part.type === 'image_url').length;
+    const text = message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .filter(Boolean)
+      .join(' ');
+    return images > 0 ? `${text} [${images} image(s)]`.trim() : text;
+  }
+  return '';
+}
+
+/**
+ * Get the simulated latency requested by the last user message
+ */
+function fakeDelayMs(request: ChatCompletionRequest): number {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+  const match = lastUser ? FAKE_DELAY_PATTERN.exec(messageText(lastUser)) : null;
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * Build a deterministic example value for a JSON Schema node
+ * Accepts any schema shape (tool parameters or response format schemas)
+ */
+function exampleValue(schema: unknown): unknown {
+  if (!isRecord(schema)) return null;
+
+  switch (schema.type) {
+    case 'string':
+      return Array.isArray(schema.enum) && schema.enum.length > 0 ? schema.enum[0] : 'example';
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return schema.items ? [exampleValue(schema.items)] : [];
+    case 'object':
+      return exampleObject(schema.properties);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build a deterministic example object for a properties map
+ */
+function exampleObject(properties: unknown): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (!isRecord(properties)) return result;
+
+  for (const [name, prop] of Object.entries(properties)) {
+    result[name] = exampleValue(prop);
+  }
+  return result;
+}
+
+/**
+ * Type guard for plain object schema nodes
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the tool call forced by tool_choice, if any
+ */
+function forcedToolCall(request: ChatCompletionRequest, id: string): FakeToolCall | null {
+  if (!request.tools || request.tools.length === 0 || !request.tool_choice) {
+    return null;
+  }
+
+  const choice = request.tool_choice;
+  const tool =
+    typeof choice === 'object'
+      ? request.tools.find((t) => t.function.name === choice.function.name)
+      : choice === 'required'
+        ? request.tools[0]
+        : undefined;
+
+  if (!tool) {
+    return null;
+  }
+
+  return {
+    id: `call_${id}`,
+    type: 'function',
+    function: {
+      name: tool.function.name,
+      arguments: JSON.stringify(exampleObject(tool.function.parameters.properties)),
+    },
+  };
+}
+
+/**
+ * Build the deterministic reply content for a request
+ */
+function replyContent(model: string, request: ChatCompletionRequest, lastUserText: string): string {
+  const format = request.response_format;
+
+  if (format?.type === 'json_schema') {
+    return JSON.stringify(exampleObject(format.json_schema.schema.properties));
+  }
+  if (format?.type === 'json_object') {
+    return JSON.stringify({ reply: lastUserText });
+  }
+
+  return `[fake ${model}] You said: "${lastUserText.slice(0, 200)}"`;
+}
+
+/**
+ * Generate the full fake completion for a request
+ */
+function generateCompletion(
+  model: string,
+  request: ChatCompletionRequest
+): OpenAIChatCompletionResponse {
+  const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+  const lastUserText = lastUser ? messageText(lastUser) : '';
+
+  const errorMatch = FAKE_ERROR_PATTERN.exec(lastUserText);
+  if (errorMatch && (!errorMatch[2] || errorMatch[2] === model)) {
+    const status = Number(errorMatch[1]);
+    throw new ProviderError(`Fake provider error (status ${status})`, status);
+  }
+
+  const id = createHash('sha256')
+    .update(model)
+    .update(JSON.stringify(request.messages))
+    .digest('hex')
+    .slice(0, 24);
+
+  const toolCall = forcedToolCall(request, id);
+  const content = toolCall ? null : replyContent(model, request, lastUserText);
+
+  const promptChars = request.messages.reduce((sum, m) => sum + messageText(m).length, 0);
+  const completionChars = content?.length ?? toolCall?.function.arguments.length ?? 0;
+  const promptTokens = Math.ceil(promptChars / CHARS_PER_TOKEN);
+  const completionTokens = Math.ceil(completionChars / CHARS_PER_TOKEN);
+
+  return {
+    id: `fakecmpl-${id}`,
+    model,
+    created: Math.floor(Date.now() / 1000),
+    object: 'chat.completion',
+    choices: [
+      {
+        index: 0,
+        finish_reason: toolCall ? 'tool_calls' : 'stop',
+        message: {
+          content,
+          tool_calls: toolCall ? [toolCall] : undefined,
+        },
+      },
+    ],
+    usage: {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    },
+  };
+}
+
+/**
+ * Split a completion into stream chunks (role, content words, finish, usage)
+ */
+function toChunks(completion: OpenAIChatCompletionResponse): OpenAIChatCompletionChunk[] {
+  const base = {
+    id: completion.id,
+    model: completion.model,
+    created: completion.created,
+    object: 'chat.completion.chunk',
+  };
+  const choice = completion.choices[0];
+  const chunks: OpenAIChatCompletionChunk[] = [
+    { ...base, choices: [{ index: 0, delta: { role: 'assistant' }, finish_reason: null }] },
+  ];
+
+  const words = (choice.message.content ?? '').split(/(?<=\s)/);
+  for (let i = 0; i < words.length; i += WORDS_PER_CHUNK) {
+    const content = words.slice(i, i + WORDS_PER_CHUNK).join('');
+    if (content) {
+      chunks.push({ ...base, choices: [{ index: 0, delta: { content }, finish_reason: null }] });
+    }
+  }
+
+  choice.message.tool_calls?.forEach((tc, index) => {
+    chunks.push({
+      ...base,
+      choices: [{ index: 0, delta: { tool_calls: [{ index, ...tc }] }, finish_reason: null }],
+    });
+  });
+
+  chunks.push({
+    ...base,
+    choices: [{ index: 0, delta: {}, finish_reason: choice.finish_reason }],
+  });
+  chunks.push({ ...base, choices: [], usage: completion.usage });
+
+  return chunks;
+}
+
+/**
+ * Fake provider (offline, zero cost)
+ */
+export const fakeProvider: ModelProvider = {
+  name: 'fake',
+
+  async createChatCompletion(model, request, options) {
+    throwIfAborted(options?.signal);
+    await sleep(fakeDelayMs(request), options?.signal);
+    return generateCompletion(model, request);
+  },
+
+  async *createChatCompletionStream(model, request, options) {
+    const delayMs = fakeDelayMs(request);
+    for (const chunk of toChunks(generateCompletion(model, request))) {
+      // Stop between chunks once the caller aborts, like a closed HTTP stream
+      throwIfAborted(options?.signal);
+      if (delayMs > 0) {
+        await sleep(delayMs, options?.signal);
+      }
+      yield chunk;
+    }
+  },
+
+  classifyError(error) {
+    if (error instanceof ProviderError) {
+      return classifyHttpStatus(error.status);
+    }
+    return classifyNetworkError(error);
+  },
+
+  getPricing(): ModelPricing {
+    return { input: 0, output: 0 };
+  },
+
+  async moderate(inputs, options): Promise<ModerationResult[]> {
+    throwIfAborted(options?.signal);
+    return inputs.map((input) => {
+      const categories = [...new Set([...input.matchAll(FAKE_FLAG_PATTERN)].map((m) => m[1]))];
+      return { flagged: categories.length > 0, categories };
+    });
+  },
+};
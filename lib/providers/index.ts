@@ -0,0 +1,96 @@
+/**
+ * Model Provider Selection
+ * Picks the provider implementation for each model from configuration
+ *
+ * Configuration:
+ * - MODEL_PROVIDER: default provider for every model ("openai" or "fake", default "openai")
+ * - MODEL_PROVIDER_OVERRIDES: per-model providers, e.g. "gpt-5.2=openai,gpt-4o-mini=fake"
+ *
+ * Set MODEL_PROVIDER=fake to run fully offline in development.
+ * MODEL_PROVIDER_OVERRIDES is parsed once at startup, so a bad entry fails
+ * the deploy instead of every request.
+ */
+
+import { isModelId } from '@/lib/models';
+import { openAIProvider } from '@/lib/providers/openai';
+import { fakeProvider } from '@/lib/providers/fake';
+import type { ModelProvider } from '@/lib/providers/types';
+
+export type {
+  ModelPricing,
+  ModelProvider,
+  ModerationResult,
+  ProviderErrorClassification,
+  ProviderErrorKind,
+} from '@/lib/providers/types';
+
+/**
+ * Registered providers by configuration name
+ */
+const PROVIDERS: Record<string, ModelProvider> = {
+  [openAIProvider.name]: openAIProvider,
+  [fakeProvider.name]: fakeProvider,
+};
+
+const DEFAULT_PROVIDER = openAIProvider.name;
+
+/**
+ * Look up a provider by name
+ * Throws for unknown names so misconfiguration fails loudly
+ */
+function getProviderByName(name: string): ModelProvider {
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown model provider "${name}". Available providers: ${Object.keys(PROVIDERS).join(', ')}`
+    );
+  }
+  return provider;
+}
+
+/**
+ * Parse MODEL_PROVIDER_OVERRIDES into a model → provider map
+ * Format: comma-separated "model=provider" pairs
+ * Throws for malformed entries, unknown models and unknown providers so
+ * misconfiguration fails loudly
+ *
+ * @param value - MODEL_PROVIDER_OVERRIDES
+ * @returns Provider per overridden model
+ */
+export function parseProviderOverrides(value: string | undefined): Map<string, ModelProvider> {
+  const overrides = new Map<string, ModelProvider>();
+  if (!value) return overrides;
+
+  for (const entry of value.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [model, provider] = entry.split('=').map((part) => part.trim());
+    if (!model || !provider) {
+      throw new Error(
+        `Invalid entry "${entry}" in MODEL_PROVIDER_OVERRIDES: expected "model=provider"`
+      );
+    }
+    if (!isModelId(model)) {
+      throw new Error(`Unknown model "${model}" in MODEL_PROVIDER_OVERRIDES`);
+    }
+    overrides.set(model, getProviderByName(provider));
+  }
+  return overrides;
+}
+
+/**
+ * Per-model providers from MODEL_PROVIDER_OVERRIDES, parsed at startup
+ */
+const PROVIDER_OVERRIDES = parseProviderOverrides(process.env.MODEL_PROVIDER_OVERRIDES);
+
+/**
+ * Get the configured provider for a model
+ * Per-model overrides take precedence over the default provider
+ *
+ * @param model - Model name (e.g., "gpt-5.2")
+ * @returns Provider that serves the model
+ */
+export function getProviderForModel(model: string): ModelProvider {
+  return (
+    PROVIDER_OVERRIDES.get(model) ??
+    getProviderByName(process.env.MODEL_PROVIDER || DEFAULT_PROVIDER)
+  );
+}
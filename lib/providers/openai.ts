@@ -0,0 +1,299 @@
+import OpenAI from "openai";
+import type { ChatCompletionRequest } from "@/lib/openai";
+import { resolveModel } from "@/lib/models";
+import type {
+  ModelPricing,
+  ModelProvider,
+  ModerationResult,
+  ProviderCallOptions,
+  ProviderErrorClassification,
+} from "@/lib/providers/types";
+import {
+  classifyHttpStatus,
+  classifyNetworkError,
+} from "@/lib/providers/errors";
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionResponse,
+} from "@/lib/types/openai-api";
+
+/**
+ * Shared OpenAI client instance (lazy initialization)
+ * Configured with API key from environment variables
+ */
+let openaiClient: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+  if (!openaiClient) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error(
+        "OPENAI_API_KEY environment variable is not set. Please add it to your .env file."
+      );
+    }
+    openaiClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return openaiClient;
+}
+
+/**
+ * Build model-specific request parameters for OpenAI API
+ * Token limit parameter and temperature support come from the model registry
+ * (gpt-5-* models require max_completion_tokens and only support the default
+ * temperature; gpt-4o* models use max_tokens and accept a custom temperature).
+ */
+function buildModelSpecificParams(
+  model: string,
+  request: ChatCompletionRequest,
+  tokenLimit: number
+): Record<string, unknown> {
+  const spec = resolveModel(model);
+  const tokenParam = spec?.tokenParam ?? "max_tokens";
+  const supportsTemperature = spec?.supportsTemperature ?? true;
+
+  return {
+    [tokenParam]: tokenLimit,
+    ...(supportsTemperature && { temperature: request.temperature ?? 0.7 }),
+  };
+}
+
+/**
+ * Build the shared request body for unary and streaming calls
+ */
+function buildRequestBody(model: string, request: ChatCompletionRequest) {
+  const tokenLimit = request.max_tokens ?? 2000;
+
+  return {
+    model,
+    messages: request.messages as OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+    ...buildModelSpecificParams(model, request, tokenLimit),
+    ...(request.tools && { tools: request.tools }),
+    ...(request.tool_choice && { tool_choice: request.tool_choice }),
+    ...(request.response_format && {
+      response_format: request.response_format,
+    }),
+  };
+}
+
+/**
+ * Normalize an SDK completion to the provider wire format
+ * Only function tool calls are forwarded (custom tools are not used)
+ */
+function toCompletionResponse(
+  completion: OpenAI.Chat.Completions.ChatCompletion
+): OpenAIChatCompletionResponse {
+  return {
+    id: completion.id,
+    model: completion.model,
+    created: completion.created,
+    object: completion.object,
+    choices: completion.choices.map((choice) => ({
+      index: choice.index,
+      finish_reason: choice.finish_reason,
+      message: {
+        content: choice.message.content,
+        tool_calls: choice.message.tool_calls?.flatMap((tc) =>
+          tc.type === "function"
+            ? [{ id: tc.id, type: "function" as const, function: tc.function }]
+            : []
+        ),
+      },
+    })),
+    usage: completion.usage,
+  };
+}
+
+/**
+ * Create a chat completion using the specified model
+ *
+ * Note: gpt-5-* models require max_completion_tokens instead of max_tokens.
+ * The OpenAI SDK types don't enforce this at compile time because max_tokens
+ * is still valid for older models - it's a runtime error from OpenAI, so the
+ * parameter is chosen from the model registry.
+ */
+async function createChatCompletion(
+  model: string,
+  request: ChatCompletionRequest,
+  options: ProviderCallOptions = {}
+): Promise<OpenAIChatCompletionResponse> {
+  const client = getOpenAIClient();
+
+  try {
+    const completion = await client.chat.completions.create(
+      {
+        ...buildRequestBody(model, request),
+        stream: false,
+      },
+      { signal: options.signal }
+    );
+
+    return toCompletionResponse(completion);
+  } catch (error: unknown) {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      // Client went away - not an upstream failure
+      throw error;
+    }
+
+    // Sentry: Report OpenAI API errors
+    const Sentry = await import("@sentry/nextjs");
+
+    Sentry.captureException(error, {
+      tags: {
+        service: "openai",
+        model,
+      },
+      extra: {
+        message_count: request.messages.length,
+        has_tools: Boolean(request.tools),
+        // DO NOT include message content or tool definitions
+      },
+    });
+
+    // Re-throw to let retry logic and API route handle the response
+    throw error;
+  }
+}
+
+/**
+ * Create a streaming chat completion using the specified model
+ *
+ * Yields chunks as they arrive from the OpenAI API. The final chunk has no
+ * choices and carries token usage for the whole stream.
+ *
+ * Errors during stream creation are thrown before the first chunk so the
+ * caller can retry them; errors during chunk delivery are reported and
+ * re-thrown as-is.
+ *
+ * Aborting options.signal (or returning early from the generator) closes
+ * the upstream HTTP stream so no further tokens are generated or billed.
+ */
+async function* createChatCompletionStream(
+  model: string,
+  request: ChatCompletionRequest,
+  options: ProviderCallOptions = {}
+): AsyncGenerator<OpenAIChatCompletionChunk> {
+  const client = getOpenAIClient();
+  let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+
+  try {
+    stream = await client.chat.completions.create(
+      {
+        ...buildRequestBody(model, request),
+        stream: true,
+        // Final chunk carries token usage for cost logging
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+  } catch (error: unknown) {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      // Client went away - not an upstream failure
+      throw error;
+    }
+
+    // Sentry: Report OpenAI API errors during stream initialization
+    const Sentry = await import("@sentry/nextjs");
+
+    Sentry.captureException(error, {
+      tags: {
+        service: "openai",
+        model,
+        stream: true,
+        phase: "initialization",
+      },
+      extra: {
+        message_count: request.messages.length,
+        has_tools: Boolean(request.tools),
+        // DO NOT include message content or tool definitions
+      },
+    });
+
+    // Re-throw to let retry logic handle transient failures
+    throw error;
+  }
+
+  // Yield each chunk as it arrives
+  // Note: Errors during chunk delivery are not retried at this level
+  try {
+    for await (const chunk of stream) {
+      yield chunk;
+    }
+  } catch (error: unknown) {
+    if (error instanceof OpenAI.APIUserAbortError) {
+      throw error;
+    }
+
+    // Sentry: Report errors during stream delivery
+    const Sentry = await import("@sentry/nextjs");
+
+    Sentry.captureException(error, {
+      tags: {
+        service: "openai",
+        model,
+        stream: true,
+        phase: "delivery",
+      },
+      extra: {
+        // DO NOT include message content or tool definitions
+      },
+    });
+
+    // Re-throw to let handler deal with stream errors
+    throw error;
+  }
+}
+
+/**
+ * Classify OpenAI errors
+ * Retryable errors: rate limit (429), server errors (5xx), network errors
+ * Aborted requests are cancellations (never retried)
+ */
+function classifyError(error: unknown): ProviderErrorClassification {
+  if (error instanceof OpenAI.APIUserAbortError) {
+    return { kind: "cancelled", retryable: false };
+  }
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return { kind: "timeout", retryable: true };
+  }
+  if (error instanceof OpenAI.APIError && typeof error.status === "number") {
+    return classifyHttpStatus(error.status);
+  }
+  return classifyNetworkError(error);
+}
+
+/**
+ * Screen texts with the OpenAI moderation endpoint (free of charge)
+ * Returns the names of flagged categories; category scores are dropped
+ */
+async function moderate(
+  inputs: string[],
+  options: ProviderCallOptions = {}
+): Promise<ModerationResult[]> {
+  const client = getOpenAIClient();
+  const response = await client.moderations.create(
+    { model: "omni-moderation-latest", input: inputs },
+    { signal: options.signal }
+  );
+
+  return response.results.map((result) => ({
+    flagged: result.flagged,
+    categories: Object.entries(result.categories)
+      .filter(([, flagged]) => flagged === true)
+      .map(([category]) => category),
+  }));
+}
+
+/**
+ * OpenAI provider (default)
+ */
+export const openAIProvider: ModelProvider = {
+  name: "openai",
+  createChatCompletion,
+  createChatCompletionStream,
+  classifyError,
+  getPricing(model: string): ModelPricing | undefined {
+    return resolveModel(model)?.pricing;
+  },
+  moderate,
+};
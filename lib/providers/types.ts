@@ -0,0 +1,102 @@
+/**
+ * Model Provider Types
+ * Contract implemented by each model vendor (OpenAI, local fake, ...)
+ *
+ * Providers speak the OpenAI wire format on both sides so handlers and
+ * converters stay vendor-agnostic.
+ */
+
+import type { ChatCompletionRequest } from '@/lib/openai';
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionResponse,
+} from '@/lib/types/openai-api';
+
+/**
+ * Error categories used for retry decisions and logging
+ */
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'invalid_request'
+  | 'auth'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Result of classifying a provider error
+ */
+export interface ProviderErrorClassification {
+  kind: ProviderErrorKind;
+  retryable: boolean;
+  status?: number;
+}
+
+/**
+ * Price per 1M tokens in USD
+ * cached applies to prompt tokens served from the provider's prompt cache
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cached?: number;
+}
+
+/**
+ * Moderation verdict for one input text
+ * categories uses OpenAI moderation category names (e.g., "violence", "self-harm")
+ */
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+/**
+ * Per-call options passed to providers
+ */
+export interface ProviderCallOptions {
+  /** Aborts the upstream request (e.g., when the client disconnects) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Model provider implementation
+ * One instance serves every model routed to it by configuration
+ */
+export interface ModelProvider {
+  /** Provider name used in configuration (e.g., "openai", "fake") */
+  readonly name: string;
+
+  /** Create a unary chat completion */
+  createChatCompletion(
+    model: string,
+    request: ChatCompletionRequest,
+    options?: ProviderCallOptions
+  ): Promise<OpenAIChatCompletionResponse>;
+
+  /**
+   * Create a streaming chat completion
+   * The final chunk has no choices and carries token usage
+   * Aborting the signal stops reading from the upstream stream
+   */
+  createChatCompletionStream(
+    model: string,
+    request: ChatCompletionRequest,
+    options?: ProviderCallOptions
+  ): AsyncGenerator<OpenAIChatCompletionChunk>;
+
+  /** Classify an error thrown by this provider */
+  classifyError(error: unknown): ProviderErrorClassification;
+
+  /** Pricing for a model, or undefined if the provider doesn't price it */
+  getPricing(model: string): ModelPricing | undefined;
+
+  /**
+   * Screen input texts with the provider's moderation endpoint
+   * Returns one result per input, in order. Providers without an endpoint
+   * omit this and lib/moderation uses local rules instead.
+   */
+  moderate?(inputs: string[], options?: ProviderCallOptions): Promise<ModerationResult[]>;
+}
@@ -0,0 +1,270 @@
+/**
+ * Spend Quotas
+ * Per-device budgets measured in USD or tokens over daily and monthly windows
+ *
+ * Rate limits count requests; quotas count what requests actually cost, so a
+ * short mini call and a long gpt-5.2 stream are charged differently. Requests
+ * are checked before they run and charged with the usage reported by the
+ * provider after the response (or the last stream chunk) is delivered. A
+ * request that starts under budget may finish over it; the next one is
+ * rejected.
+ *
+ * Windows are calendar periods in UTC (the day, the month). Only requests
+ * with a device token have a budget; anonymous requests are limited by IP
+ * rate limits. Budgets depend on the device's plan (see lib/entitlements).
+ *
+ * Uses the shared Upstash Redis client from lib/rate-limit when configured,
+ * otherwise a per-instance in-memory store. Redis errors fall back to memory.
+ */
+
+import { createHash } from 'crypto';
+import { calculateCost } from '@/lib/openai';
+import { getRedisClient } from '@/lib/rate-limit';
+
+/**
+ * Quota store configuration
+ * - maxMemoryEntries: Oldest in-memory counters are evicted beyond this size
+ * - keyPrefix: Versioned key prefix (bump when the counter format changes)
+ * - expiryGraceSeconds: Counters outlive their window so late charges land
+ */
+export const QUOTA_CONFIG = {
+  maxMemoryEntries: 10_000,
+  keyPrefix: 'quota:v1:',
+  expiryGraceSeconds: 60 * 60,
+};
+
+/**
+ * Unit budgets are measured in
+ */
+export type QuotaUnit = 'usd' | 'tokens';
+
+/**
+ * Budget window
+ */
+export type QuotaWindow = 'daily' | 'monthly';
+
+/**
+ * Budgets for one device (a missing or zero limit means no budget for that window)
+ */
+export interface QuotaLimits {
+  unit: QuotaUnit;
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * Spend in one window
+ */
+export interface QuotaWindowStatus {
+  window: QuotaWindow;
+  limit: number;
+  used: number;
+  remaining: number;
+  /** Start of the next window (epoch ms) */
+  resetAt: number;
+}
+
+/**
+ * Result of checking a device's budgets
+ */
+export interface QuotaStatus {
+  allowed: boolean;
+  unit: QuotaUnit;
+  windows: QuotaWindowStatus[];
+  /** First used-up window when not allowed */
+  exhausted?: QuotaWindowStatus;
+}
+
+/**
+ * Token usage reported for a response
+ */
+export interface QuotaUsage {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+}
+
+interface MemoryEntry {
+  used: number;
+  expiresAt: number;
+}
+
+const memoryStore = new Map<string, MemoryEntry>();
+
+/**
+ * Check whether any window has a budget
+ */
+export function hasQuota(limits: QuotaLimits): boolean {
+  return Boolean(limits.daily || limits.monthly);
+}
+
+/**
+ * Measure a response's usage in the budget unit
+ * USD uses the pricing of the model that served the response
+ *
+ * @param unit - Budget unit
+ * @param usage - Reported token usage
+ * @returns Amount to charge
+ */
+export function measureQuotaUsage(unit: QuotaUnit, usage: QuotaUsage): number {
+  if (unit === 'tokens') {
+    return usage.promptTokens + usage.completionTokens;
+  }
+  return calculateCost(usage.model, usage.promptTokens, usage.completionTokens, usage.cachedTokens);
+}
+
+/**
+ * Start of the window containing `now` and of the next one (UTC)
+ */
+function windowBounds(window: QuotaWindow, now: number): { id: string; resetAt: number } {
+  const date = new Date(now);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  if (window === 'daily') {
+    const day = date.getUTCDate();
+    return {
+      id: `d:${date.toISOString().slice(0, 10)}`,
+      resetAt: Date.UTC(year, month, day + 1),
+    };
+  }
+  return {
+    id: `m:${date.toISOString().slice(0, 7)}`,
+    resetAt: Date.UTC(year, month + 1, 1),
+  };
+}
+
+/**
+ * Windows that have a budget, with their limits
+ */
+function budgetedWindows(limits: QuotaLimits): Array<{ window: QuotaWindow; limit: number }> {
+  const windows: Array<{ window: QuotaWindow; limit: number }> = [];
+  if (limits.daily) windows.push({ window: 'daily', limit: limits.daily });
+  if (limits.monthly) windows.push({ window: 'monthly', limit: limits.monthly });
+  return windows;
+}
+
+/**
+ * Counter key for a device and window (device tokens are never stored)
+ */
+function counterKey(deviceToken: string, unit: QuotaUnit, windowId: string): string {
+  const device = createHash('sha256').update(deviceToken).digest('hex');
+  return `${QUOTA_CONFIG.keyPrefix}${device}:${unit}:${windowId}`;
+}
+
+/**
+ * Check a device's budgets
+ *
+ * @param deviceToken - Device making the request
+ * @param limits - Budgets for the device
+ * @param now - Current time (epoch ms)
+ * @returns Spend per budgeted window; not allowed once any window is used up
+ */
+export async function checkQuota(
+  deviceToken: string,
+  limits: QuotaLimits,
+  now: number = Date.now()
+): Promise<QuotaStatus> {
+  const windows: QuotaWindowStatus[] = [];
+
+  for (const { window, limit } of budgetedWindows(limits)) {
+    const { id, resetAt } = windowBounds(window, now);
+    const used = await readCounter(counterKey(deviceToken, limits.unit, id), now);
+    windows.push({ window, limit, used, remaining: Math.max(0, limit - used), resetAt });
+  }
+
+  const exhausted = windows.find((w) => w.used >= w.limit);
+  return { allowed: !exhausted, unit: limits.unit, windows, exhausted };
+}
+
+/**
+ * Charge usage against every budgeted window
+ *
+ * @param deviceToken - Device that made the request
+ * @param limits - Budgets for the device (selects the unit and windows)
+ * @param amount - Usage in the budget unit
+ * @param now - Current time (epoch ms)
+ */
+export async function chargeQuota(
+  deviceToken: string,
+  limits: QuotaLimits,
+  amount: number,
+  now: number = Date.now()
+): Promise<void> {
+  if (!(amount > 0)) return;
+
+  for (const { window } of budgetedWindows(limits)) {
+    const { id, resetAt } = windowBounds(window, now);
+    const ttlSeconds = Math.ceil((resetAt - now) / 1000) + QUOTA_CONFIG.expiryGraceSeconds;
+    await incrementCounter(counterKey(deviceToken, limits.unit, id), amount, ttlSeconds, now);
+  }
+}
+
+/**
+ * Convert a Redis counter value (number or numeric string) to a number
+ */
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+async function readCounter(key: string, now: number): Promise<number> {
+  const redis = getRedisClient();
+  if (!redis) {
+    return getMemoryCounter(key, now);
+  }
+
+  try {
+    return toNumber(await redis.get<unknown>(key));
+  } catch (error) {
+    console.error('[Quotas] Redis error, using in-memory fallback', { error });
+    return getMemoryCounter(key, now);
+  }
+}
+
+async function incrementCounter(
+  key: string,
+  amount: number,
+  ttlSeconds: number,
+  now: number
+): Promise<void> {
+  const redis = getRedisClient();
+  if (!redis) {
+    incrementMemoryCounter(key, amount, ttlSeconds, now);
+    return;
+  }
+
+  try {
+    await redis.incrbyfloat(key, amount);
+    await redis.expire(key, ttlSeconds);
+  } catch (error) {
+    console.error('[Quotas] Redis error, using in-memory fallback', { error });
+    incrementMemoryCounter(key, amount, ttlSeconds, now);
+  }
+}
+
+function getMemoryCounter(key: string, now: number): number {
+  const entry = memoryStore.get(key);
+  if (!entry) return 0;
+
+  if (now > entry.expiresAt) {
+    memoryStore.delete(key);
+    return 0;
+  }
+  return entry.used;
+}
+
+function incrementMemoryCounter(key: string, amount: number, ttlSeconds: number, now: number): void {
+  const used = getMemoryCounter(key, now) + amount;
+
+  // Re-insert so the key moves to the end of the eviction order
+  memoryStore.delete(key);
+  memoryStore.set(key, { used, expiresAt: now + ttlSeconds * 1000 });
+
+  // Evict oldest entries (Map iterates in insertion order)
+  for (const oldest of memoryStore.keys()) {
+    if (memoryStore.size <= QUOTA_CONFIG.maxMemoryEntries) break;
+    memoryStore.delete(oldest);
+  }
+}
@@ -1,3 +1,4 @@
+import { randomUUID } from "crypto";
 import { Redis } from "@upstash/redis";
 
 /**
@@ -7,13 +8,46 @@ import { Redis } from "@upstash/redis";
  * If UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are provided,
  * rate limits are enforced per-instance + shared Redis. Otherwise, the
  * limiter falls back to single-instance memory.
+ *
+ * Algorithms (selectable per bucket, see RATE_LIMIT_ALGORITHM):
+ * - sliding-window (default): counts requests in the last hour, so no more
+ *   than the limit ever fits in any hour
+ * - token-bucket: allows bursts up to the limit, refilling continuously at
+ *   limit per hour
+ * - fixed-window: counts requests per clock hour; a client can send twice
+ *   the limit across an hour boundary
+ *
+ * In Redis each check is one atomic Lua script, so concurrent requests on
+ * different instances can't both take the last slot.
+ *
+ * Requests are weighted per RPC method (see getMethodCost), and streaming
+ * RPCs also hold one of a limited number of stream slots while they run
+ * (see acquireStreamSlot).
+ *
+ * The same stores record accepted request signatures so a signed request
+ * can't be replayed (see claimRequestSignature).
+ */
+
+/**
+ * Rate limiting algorithm
  */
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket" | "fixed-window";
 
-interface RateLimitEntry {
+interface FixedWindowEntry {
   count: number;
   resetAt: number;
 }
 
+interface SlidingWindowEntry {
+  /** Admitted requests, oldest first */
+  log: Array<{ at: number; cost: number }>;
+}
+
+interface TokenBucketEntry {
+  tokens: number;
+  updatedAt: number;
+}
+
 /**
  * Rate limit evaluation result for a single identifier.
  */
@@ -24,7 +58,11 @@ export interface RateLimitInfo {
   resetAt: number;
 }
 
-const rateLimitStore = new Map<string, RateLimitEntry>();
+const fixedWindowStore = new Map<string, FixedWindowEntry>();
+const slidingWindowStore = new Map<string, SlidingWindowEntry>();
+const tokenBucketStore = new Map<string, TokenBucketEntry>();
+/** Accepted request signatures → expiry (epoch ms) */
+const signatureStore = new Map<string, number>();
 
 /**
  * Rate limit configuration
@@ -37,8 +75,97 @@ const RATE_LIMITS = {
   WINDOW_MS: 60 * 60 * 1000, // 1 hour in milliseconds
 };
 
+/**
+ * Default request weight per RPC method (methods not listed cost 1)
+ * CountTokens only runs local estimates; mini completions are cheaper and
+ * standard streams run longer than a unary call; GetQuota is free so the
+ * app can still read its limits once they are used up
+ */
+export const DEFAULT_METHOD_COSTS: Record<string, number> = {
+  CountTokens: 0.1,
+  CreateConversation: 0.1,
+  CreateMiniCompletion: 0.5,
+  GetQuota: 0,
+  StreamMiniCompletion: 0.5,
+  StreamStandardCompletion: 2,
+};
+
+/**
+ * Concurrent stream configuration
+ * - deviceLimit / ipLimit: Defaults for MAX_CONCURRENT_STREAMS(_PER_IP)
+ * - leaseMs: Slots not released by then expire (longer than any stream
+ *   deadline, covers instances that die mid-stream)
+ */
+const STREAM_LIMITS = {
+  deviceLimit: 3,
+  ipLimit: 10,
+  leaseMs: 15 * 60 * 1000,
+};
+
+/**
+ * Parse per-method request weights (comma-separated "Method=weight" entries,
+ * e.g. "StreamStandardCompletion=3") over the defaults
+ * Throws for malformed entries or negative weights so misconfiguration fails
+ * loudly; 0 makes a method free
+ *
+ * @param value - RATE_LIMIT_METHOD_COSTS
+ * @returns Weight per RPC method
+ */
+export function parseMethodCosts(value: string | undefined): Record<string, number> {
+  const costs = { ...DEFAULT_METHOD_COSTS };
+  for (const entry of (value ?? "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [name, weight] = entry.split("=").map((part) => part.trim());
+    const cost = Number(weight);
+    if (!name || !weight || !Number.isFinite(cost) || cost < 0) {
+      throw new Error(
+        `Invalid entry "${entry}" in RATE_LIMIT_METHOD_COSTS: expected "Method=weight" (weight >= 0)`
+      );
+    }
+    costs[name] = cost;
+  }
+  return costs;
+}
+
+/**
+ * Request weight per RPC method, parsed once at startup so a bad
+ * RATE_LIMIT_METHOD_COSTS fails the deploy instead of every request
+ */
+const METHOD_COSTS = parseMethodCosts(process.env.RATE_LIMIT_METHOD_COSTS);
+
+/**
+ * Get the request weight of an RPC method
+ * RATE_LIMIT_METHOD_COSTS overrides the defaults (see parseMethodCosts)
+ *
+ * @param method - RPC method name
+ * @returns Share of a request to charge
+ */
+export function getMethodCost(method: string): number {
+  return METHOD_COSTS[method] ?? 1;
+}
+
+/**
+ * Get the algorithm for a bucket
+ * RATE_LIMIT_ALGORITHM applies to device token buckets and
+ * RATE_LIMIT_ALGORITHM_NO_TOKEN to IP buckets (default sliding-window)
+ */
+export function getRateLimitAlgorithm(hasDeviceToken: boolean): RateLimitAlgorithm {
+  const value = hasDeviceToken
+    ? process.env.RATE_LIMIT_ALGORITHM
+    : process.env.RATE_LIMIT_ALGORITHM_NO_TOKEN;
+  return value === "token-bucket" || value === "fixed-window" ? value : "sliding-window";
+}
+
 const redisClient = createRedisClient();
 
+/**
+ * Shared Upstash Redis client, or null when Redis is not configured.
+ * Other stores (e.g. the completion cache) reuse it instead of opening
+ * their own connection.
+ */
+export function getRedisClient(): Redis | null {
+  return redisClient;
+}
+
 function createRedisClient(): Redis | null {
   const url = process.env.UPSTASH_REDIS_REST_URL;
   const token = process.env.UPSTASH_REDIS_REST_TOKEN;
@@ -64,9 +191,26 @@ function cleanupExpired(now: number) {
   // At most once every 5 minutes
   if (now - lastCleanupAt < 5 * 60 * 1000) return;
   lastCleanupAt = now;
-  for (const [key, entry] of rateLimitStore.entries()) {
+  for (const [key, entry] of fixedWindowStore.entries()) {
     if (now > entry.resetAt) {
-      rateLimitStore.delete(key);
+      fixedWindowStore.delete(key);
+    }
+  }
+  for (const [key, entry] of slidingWindowStore.entries()) {
+    const newest = entry.log[entry.log.length - 1];
+    if (!newest || now >= newest.at + RATE_LIMITS.WINDOW_MS) {
+      slidingWindowStore.delete(key);
+    }
+  }
+  // A bucket left alone for a whole window is full again
+  for (const [key, entry] of tokenBucketStore.entries()) {
+    if (now >= entry.updatedAt + RATE_LIMITS.WINDOW_MS) {
+      tokenBucketStore.delete(key);
+    }
+  }
+  for (const [key, expiresAt] of signatureStore.entries()) {
+    if (now >= expiresAt) {
+      signatureStore.delete(key);
     }
   }
 }
@@ -77,32 +221,71 @@ function cleanupExpired(now: number) {
  *
  * @param identifier - Device token or IP address
  * @param hasDeviceToken - Whether the request includes a device token
+ * @param cost - Share of a request to charge (e.g. 0.1 for cheap RPCs)
+ * @param limit - Requests per window (defaults to the configured token or
+ *   IP limit; device buckets pass their plan's limit)
  * @returns Object with allowed status and limit info
  */
 export async function checkRateLimit(
   identifier: string,
-  hasDeviceToken: boolean
+  hasDeviceToken: boolean,
+  cost: number = 1,
+  limit: number = hasDeviceToken ? RATE_LIMITS.WITH_TOKEN : RATE_LIMITS.WITHOUT_TOKEN
 ): Promise<RateLimitInfo> {
   const now = Date.now();
-  const limit = hasDeviceToken
-    ? RATE_LIMITS.WITH_TOKEN
-    : RATE_LIMITS.WITHOUT_TOKEN;
+  const algorithm = getRateLimitAlgorithm(hasDeviceToken);
 
   if (!redisClient) {
-    return checkRateLimitMemory(identifier, limit, now);
+    return checkRateLimitMemory(algorithm, identifier, limit, now, cost);
   }
 
-  return checkRateLimitRedis(redisClient, identifier, limit, now);
+  return checkRateLimitRedis(redisClient, algorithm, identifier, limit, now, cost);
 }
 
-async function checkRateLimitMemory(
+/**
+ * Read a bucket without charging it
+ * Same as checkRateLimit with a cost of 0; allowed is false only when the
+ * bucket is over its limit (e.g. after a plan downgrade)
+ *
+ * @param identifier - Device token or IP address
+ * @param hasDeviceToken - Whether identifier is a device token
+ * @param limit - Requests per window (see checkRateLimit)
+ * @returns Current limit, remaining requests and reset time
+ */
+export async function peekRateLimit(
   identifier: string,
-  limit: number,
-  now: number
+  hasDeviceToken: boolean,
+  limit?: number
 ): Promise<RateLimitInfo> {
+  return checkRateLimit(identifier, hasDeviceToken, 0, limit);
+}
+
+function checkRateLimitMemory(
+  algorithm: RateLimitAlgorithm,
+  identifier: string,
+  limit: number,
+  now: number,
+  cost: number
+): RateLimitInfo {
   cleanupExpired(now); // Lazy cleanup on each check
 
-  let entry = rateLimitStore.get(identifier);
+  switch (algorithm) {
+    case "sliding-window":
+      return checkSlidingWindowMemory(identifier, limit, now, cost);
+    case "token-bucket":
+      return checkTokenBucketMemory(identifier, limit, now, cost);
+    case "fixed-window":
+      return checkFixedWindowMemory(identifier, limit, now, cost);
+  }
+}
+
+function checkFixedWindowMemory(
+  identifier: string,
+  limit: number,
+  now: number,
+  cost: number
+): RateLimitInfo {
+  let entry = fixedWindowStore.get(identifier);
 
   // Initialize or reset if window expired
   if (!entry || now > entry.resetAt) {
@@ -110,11 +293,11 @@ async function checkRateLimitMemory(
       count: 0,
       resetAt: now + RATE_LIMITS.WINDOW_MS,
     };
-    rateLimitStore.set(identifier, entry);
+    fixedWindowStore.set(identifier, entry);
   }
 
   // Check if limit exceeded
-  if (entry.count >= limit) {
+  if (entry.count + cost > limit) {
     return {
       allowed: false,
       limit,
@@ -124,58 +307,381 @@ async function checkRateLimitMemory(
   }
 
   // Increment count
-  entry.count++;
-  rateLimitStore.set(identifier, entry);
+  entry.count += cost;
+  fixedWindowStore.set(identifier, entry);
 
   return {
     allowed: true,
     limit,
-    remaining: limit - entry.count,
+    remaining: Math.floor(limit - entry.count),
     resetAt: entry.resetAt,
   };
 }
 
+/**
+ * Sliding window log: admits a request if the requests admitted in the last
+ * window plus this one stay within the limit
+ * resetAt is when the oldest request leaves the window (allowed), or when
+ * enough have left for this request to fit (denied)
+ */
+function checkSlidingWindowMemory(
+  identifier: string,
+  limit: number,
+  now: number,
+  cost: number
+): RateLimitInfo {
+  const entry = slidingWindowStore.get(identifier) ?? { log: [] };
+  entry.log = entry.log.filter((request) => request.at > now - RATE_LIMITS.WINDOW_MS);
+
+  let used = entry.log.reduce((sum, request) => sum + request.cost, 0);
+  const allowed = used + cost <= limit;
+  if (allowed && cost > 0) {
+    entry.log.push({ at: now, cost });
+    used += cost;
+  }
+  slidingWindowStore.set(identifier, entry);
+
+  // Walk the log oldest first until enough has expired
+  let resetAt = now + RATE_LIMITS.WINDOW_MS;
+  let freed = 0;
+  for (const request of entry.log) {
+    freed += request.cost;
+    resetAt = request.at + RATE_LIMITS.WINDOW_MS;
+    if (allowed || used - freed + cost <= limit) break;
+  }
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(limit - used)),
+    resetAt,
+  };
+}
+
+/**
+ * Token bucket: holds up to `limit` tokens, refilled at limit per window;
+ * each request takes `cost` tokens
+ * resetAt is when the bucket is full again (allowed), or when it holds
+ * enough tokens for this request (denied)
+ */
+function checkTokenBucketMemory(
+  identifier: string,
+  limit: number,
+  now: number,
+  cost: number
+): RateLimitInfo {
+  const entry = tokenBucketStore.get(identifier) ?? { tokens: limit, updatedAt: now };
+
+  const elapsed = Math.max(0, now - entry.updatedAt);
+  let tokens = Math.min(limit, entry.tokens + (elapsed * limit) / RATE_LIMITS.WINDOW_MS);
+  const allowed = tokens >= cost;
+  if (allowed) {
+    tokens -= cost;
+  }
+  tokenBucketStore.set(identifier, { tokens, updatedAt: now });
+
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetAt: now + Math.ceil((((allowed ? limit : cost) - tokens) * RATE_LIMITS.WINDOW_MS) / limit),
+  };
+}
+
+/**
+ * Lua scripts, one atomic check per call
+ * All return { allowed (1/0), used or tokens, resetAt }; fractional numbers
+ * are returned as strings because Redis truncates Lua numbers to integers
+ *
+ * KEYS[1]: bucket key
+ * ARGV: now (ms), window (ms), limit, cost, request id (sliding window only)
+ */
+const RATE_LIMIT_SCRIPTS: Record<RateLimitAlgorithm, string> = {
+  "sliding-window": `
+local now, window, limit, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now - window)
+local entries = redis.call("ZRANGE", KEYS[1], 0, -1, "WITHSCORES")
+local used = 0
+for i = 1, #entries, 2 do
+  used = used + tonumber(string.match(entries[i], ":([^:]+)$"))
+end
+local allowed = used + cost <= limit
+if allowed and cost > 0 then
+  redis.call("ZADD", KEYS[1], now, ARGV[5] .. ":" .. ARGV[4])
+  redis.call("PEXPIRE", KEYS[1], window)
+  used = used + cost
+  table.insert(entries, ARGV[5] .. ":" .. ARGV[4])
+  table.insert(entries, tostring(now))
+end
+local resetAt, freed = now + window, 0
+for i = 1, #entries, 2 do
+  freed = freed + tonumber(string.match(entries[i], ":([^:]+)$"))
+  resetAt = tonumber(entries[i + 1]) + window
+  if allowed or used - freed + cost <= limit then break end
+end
+return { allowed and 1 or 0, tostring(used), tostring(resetAt) }
+`,
+  "token-bucket": `
+local now, window, limit, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+local state = redis.call("HMGET", KEYS[1], "tokens", "updated_at")
+local tokens = tonumber(state[1]) or limit
+local elapsed = math.max(0, now - (tonumber(state[2]) or now))
+tokens = math.min(limit, tokens + elapsed * limit / window)
+local allowed = tokens >= cost
+if allowed then tokens = tokens - cost end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updated_at", tostring(now))
+redis.call("PEXPIRE", KEYS[1], window)
+local resetAt = now + math.ceil(((allowed and limit or cost) - tokens) * window / limit)
+return { allowed and 1 or 0, tostring(tokens), tostring(resetAt) }
+`,
+  "fixed-window": `
+local now, window, limit, cost = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3]), tonumber(ARGV[4])
+local used = tonumber(redis.call("GET", KEYS[1]) or "0")
+local allowed = used + cost <= limit
+if allowed then
+  used = tonumber(redis.call("INCRBYFLOAT", KEYS[1], ARGV[4]))
+end
+if redis.call("PTTL", KEYS[1]) < 0 then
+  redis.call("PEXPIRE", KEYS[1], window - (now % window))
+end
+local resetAt = now + math.max(0, redis.call("PTTL", KEYS[1]))
+return { allowed and 1 or 0, tostring(used), tostring(resetAt) }
+`,
+};
+
+/**
+ * Redis key for a bucket (fixed windows get one key per clock hour)
+ */
+function rateLimitKey(algorithm: RateLimitAlgorithm, identifier: string, now: number): string {
+  switch (algorithm) {
+    case "sliding-window":
+      return `ratelimit:sw:${identifier}`;
+    case "token-bucket":
+      return `ratelimit:tb:${identifier}`;
+    case "fixed-window":
+      return `ratelimit:${identifier}:${Math.floor(now / RATE_LIMITS.WINDOW_MS)}`;
+  }
+}
+
 async function checkRateLimitRedis(
   client: Redis,
+  algorithm: RateLimitAlgorithm,
   identifier: string,
   limit: number,
-  now: number
+  now: number,
+  cost: number
 ): Promise<RateLimitInfo> {
-  const windowStart = Math.floor(now / RATE_LIMITS.WINDOW_MS);
-  const key = `ratelimit:${identifier}:${windowStart}`;
+  try {
+    const result = await client.eval<string[], unknown>(
+      RATE_LIMIT_SCRIPTS[algorithm],
+      [rateLimitKey(algorithm, identifier, now)],
+      [String(now), String(RATE_LIMITS.WINDOW_MS), String(limit), String(cost), randomUUID()]
+    );
+    const [allowedRaw, amountRaw, resetAtRaw] = Array.isArray(result) ? result : [];
+
+    // Sliding and fixed windows report usage, token buckets what is left
+    const amount = normalizeRedisNumber(amountRaw);
+    const remaining = algorithm === "token-bucket" ? amount : limit - amount;
+
+    return {
+      allowed: normalizeRedisNumber(allowedRaw) === 1,
+      limit,
+      remaining: Math.max(0, Math.floor(remaining)),
+      resetAt: normalizeRedisNumber(resetAtRaw, now + RATE_LIMITS.WINDOW_MS),
+    };
+  } catch (error) {
+    console.error("[Rate Limit] Redis error, using in-memory fallback", {
+      error,
+    });
+    return checkRateLimitMemory(algorithm, identifier, limit, now, cost);
+  }
+}
+
+/**
+ * Result of asking for a stream slot
+ */
+export interface StreamSlotResult {
+  acquired: boolean;
+  limit: number;
+  /** Streams open for the identifier (including this one when acquired) */
+  active: number;
+  /** Frees the slot; safe to call more than once */
+  release: () => Promise<void>;
+}
+
+const streamSlotStore = new Map<string, Map<string, number>>();
+
+/**
+ * Lua script taking a stream slot if fewer than the limit are held
+ * KEYS[1]: slot set; ARGV: now (ms), lease (ms), limit, slot id
+ */
+const ACQUIRE_STREAM_SLOT_SCRIPT = `
+local now, lease, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], "-inf", now)
+local active = redis.call("ZCARD", KEYS[1])
+if active >= limit then return { 0, active } end
+redis.call("ZADD", KEYS[1], now + lease, ARGV[4])
+redis.call("PEXPIRE", KEYS[1], lease)
+return { 1, active + 1 }
+`;
+
+/**
+ * Get the concurrent stream limit for a bucket
+ * MAX_CONCURRENT_STREAMS applies per device token and
+ * MAX_CONCURRENT_STREAMS_PER_IP per IP address
+ */
+export function getStreamLimit(hasDeviceToken: boolean): number {
+  const value = Number(
+    hasDeviceToken ? process.env.MAX_CONCURRENT_STREAMS : process.env.MAX_CONCURRENT_STREAMS_PER_IP
+  );
+  if (Number.isFinite(value) && value > 0) return Math.floor(value);
+  return hasDeviceToken ? STREAM_LIMITS.deviceLimit : STREAM_LIMITS.ipLimit;
+}
+
+/**
+ * Take one of an identifier's concurrent stream slots
+ * Uses Redis if configured, otherwise falls back to in-memory store.
+ * Slots that are never released expire after the lease time.
+ *
+ * @param identifier - Device token or IP address
+ * @param hasDeviceToken - Whether the identifier is a device token
+ * @returns Whether a slot was taken, and a release function (no-op when not)
+ */
+export async function acquireStreamSlot(
+  identifier: string,
+  hasDeviceToken: boolean
+): Promise<StreamSlotResult> {
+  const now = Date.now();
+  const limit = getStreamLimit(hasDeviceToken);
+  const slotId = randomUUID();
+  const key = `streams:${identifier}`;
+
+  if (!redisClient) {
+    return acquireStreamSlotMemory(key, slotId, limit, now);
+  }
 
   try {
-    const pipeline = client.pipeline();
-    pipeline.incr(key);
-    pipeline.pexpire(key, RATE_LIMITS.WINDOW_MS);
-    pipeline.pttl(key);
-    const [incrResultRaw, , ttlResultRaw] = await pipeline.exec();
-
-    const count = normalizeRedisNumber(incrResultRaw);
-    const ttlMs = normalizeRedisNumber(ttlResultRaw, RATE_LIMITS.WINDOW_MS);
-    const resetAt = now + ttlMs;
-
-    if (count > limit) {
-      return {
-        allowed: false,
-        limit,
-        remaining: 0,
-        resetAt,
-      };
-    }
+    const result = await redisClient.eval<string[], unknown>(
+      ACQUIRE_STREAM_SLOT_SCRIPT,
+      [key],
+      [String(now), String(STREAM_LIMITS.leaseMs), String(limit), slotId]
+    );
+    const [acquiredRaw, activeRaw] = Array.isArray(result) ? result : [];
+    const acquired = normalizeRedisNumber(acquiredRaw) === 1;
 
     return {
-      allowed: true,
+      acquired,
       limit,
-      remaining: Math.max(0, limit - count),
-      resetAt,
+      active: normalizeRedisNumber(activeRaw),
+      release: acquired ? once(() => releaseStreamSlotRedis(redisClient, key, slotId)) : async () => {},
     };
   } catch (error) {
     console.error("[Rate Limit] Redis error, using in-memory fallback", {
       error,
     });
-    return checkRateLimitMemory(identifier, limit, now);
+    return acquireStreamSlotMemory(key, slotId, limit, now);
+  }
+}
+
+function acquireStreamSlotMemory(
+  key: string,
+  slotId: string,
+  limit: number,
+  now: number
+): StreamSlotResult {
+  const slots = streamSlotStore.get(key) ?? new Map<string, number>();
+  for (const [id, expiresAt] of slots) {
+    if (now >= expiresAt) slots.delete(id);
+  }
+
+  const acquired = slots.size < limit;
+  if (acquired) {
+    slots.set(slotId, now + STREAM_LIMITS.leaseMs);
+  }
+  if (slots.size > 0) {
+    streamSlotStore.set(key, slots);
+  } else {
+    streamSlotStore.delete(key);
+  }
+
+  return {
+    acquired,
+    limit,
+    active: slots.size,
+    release: acquired
+      ? once(async () => {
+          slots.delete(slotId);
+          if (slots.size === 0 && streamSlotStore.get(key) === slots) {
+            streamSlotStore.delete(key);
+          }
+        })
+      : async () => {},
+  };
+}
+
+async function releaseStreamSlotRedis(client: Redis, key: string, slotId: string): Promise<void> {
+  try {
+    await client.zrem(key, slotId);
+  } catch (error) {
+    // The slot expires with its lease
+    console.error("[Rate Limit] Failed to release stream slot", { error });
+  }
+}
+
+/**
+ * Record a request signature the first time it is seen
+ * Uses Redis if configured (SET NX, so concurrent duplicates on different
+ * instances can't both win), otherwise falls back to in-memory store.
+ *
+ * @param signature - Verified signature of the request
+ * @param expiresAt - When the request stops passing the timestamp check
+ *   (epoch ms); the record is kept until then
+ * @returns True the first time, false for a replay
+ */
+export async function claimRequestSignature(
+  signature: string,
+  expiresAt: number
+): Promise<boolean> {
+  const now = Date.now();
+  const key = `replay:${signature}`;
+  const ttlMs = Math.max(1, expiresAt - now);
+
+  if (!redisClient) {
+    return claimRequestSignatureMemory(key, now + ttlMs, now);
+  }
+
+  try {
+    const created = await redisClient.set(key, "1", { nx: true, px: ttlMs });
+    return created !== null;
+  } catch (error) {
+    console.error("[Rate Limit] Redis error, using in-memory fallback", {
+      error,
+    });
+    return claimRequestSignatureMemory(key, now + ttlMs, now);
+  }
+}
+
+function claimRequestSignatureMemory(key: string, expiresAt: number, now: number): boolean {
+  cleanupExpired(now);
+
+  const seenUntil = signatureStore.get(key);
+  if (seenUntil !== undefined && now < seenUntil) {
+    return false;
   }
+  signatureStore.set(key, expiresAt);
+  return true;
+}
+
+/**
+ * Wrap a release function so only the first call has an effect
+ */
+function once(release: () => Promise<void>): () => Promise<void> {
+  let released = false;
+  return async () => {
+    if (released) return;
+    released = true;
+    await release();
+  };
 }
 
 function normalizeRedisNumber(
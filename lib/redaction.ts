@@ -0,0 +1,424 @@
+/**
+ * PII Redaction
+ * Replaces personal data in outbound messages with placeholders and puts the
+ * original values back into the model's reply
+ *
+ * Each distinct value gets a stable placeholder for the whole request
+ * ("[EMAIL_1]", "[PHONE_2]", ...), so history that repeats a value maps to
+ * the same placeholder and the model can still refer to it. Phone and card
+ * numbers are matched on their digits, emails case-insensitively.
+ *
+ * Replies are restored only for placeholders issued for the same request.
+ * Inside JSON (tool call arguments, JSON response formats) values are
+ * restored JSON-escaped so the output stays valid. Streams hold back a
+ * trailing partial placeholder until the next chunk completes it.
+ *
+ * Detectors are pattern-based; they don't find names or free-form locations.
+ *
+ * Configuration:
+ * - PII_REDACTION: "on" to redact every request (default off; requests can
+ *   opt in with redact_pii)
+ * - PII_DETECTORS: comma-separated detectors (default "email,phone,card,address")
+ */
+
+import type { ChatMessage } from '@/lib/openai';
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionChunkDelta,
+  OpenAIChatCompletionResponse,
+  OpenAIContentPart,
+} from '@/lib/types/openai-api';
+
+/**
+ * Kinds of personal data that can be redacted
+ */
+export type PiiDetector = 'email' | 'phone' | 'card' | 'address';
+
+/**
+ * Detector definition
+ * - label: Placeholder prefix
+ * - pattern: Global pattern for candidates
+ * - validate: Rejects candidates that only look like a match
+ * - normalize: Key that identifies the same value written differently
+ */
+interface PiiDetectorSpec {
+  label: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+  normalize: (match: string) => string;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Detectors in priority order (earlier detectors win overlapping matches,
+ * e.g. a card number is never also reported as a phone number)
+ */
+export const PII_DETECTORS: Record<PiiDetector, PiiDetectorSpec> = {
+  email: {
+    label: 'EMAIL',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    normalize: (match) => match.toLowerCase(),
+  },
+  card: {
+    label: 'CARD',
+    pattern: /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g,
+    validate: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits);
+    },
+    normalize: digitsOf,
+  },
+  phone: {
+    label: 'PHONE',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,5}\)[\s.-]?|\d{2,5}[\s.-])?\d{3,4}[\s.-]?\d{3,4}(?!\w)/g,
+    // Ten digits or more, so set/rep/weight sequences like "135-185-225" don't match
+    validate: (match) => {
+      const digits = digitsOf(match);
+      return digits.length >= 10 && digits.length <= 15;
+    },
+    normalize: digitsOf,
+  },
+  address: {
+    label: 'ADDRESS',
+    pattern:
+      /\b\d{1,6}\s+(?:[A-Z][A-Za-z'.-]*\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Parkway|Pkwy|Highway|Hwy)\b\.?(?:,?\s+(?:Apt|Suite|Unit|#)\s*[\w-]+)?/g,
+    normalize: (match) => match.toLowerCase().replace(/\s+/g, ' '),
+  },
+};
+
+/**
+ * Detectors in priority order (same order as PII_DETECTORS)
+ */
+const ALL_DETECTORS: PiiDetector[] = ['email', 'card', 'phone', 'address'];
+
+/**
+ * Placeholders issued by this module ("[EMAIL_1]")
+ */
+const PLACEHOLDER_PATTERN = /\[(?:EMAIL|CARD|PHONE|ADDRESS)_\d+\]/g;
+
+/**
+ * Longest placeholder a stream holds back while waiting for its closing bracket
+ */
+const MAX_PLACEHOLDER_LENGTH = 16;
+
+/**
+ * Redaction state for one request
+ * Maps values to placeholders and back; reused for the whole request so
+ * repeated values get the same placeholder
+ */
+export interface PiiRedaction {
+  detectors: PiiDetector[];
+  /** "<detector>:<normalized value>" → placeholder */
+  placeholders: Map<string, string>;
+  /** Placeholder → original value (first spelling seen) */
+  originals: Map<string, string>;
+  /** Placeholders issued per detector */
+  counts: Record<PiiDetector, number>;
+}
+
+/**
+ * Check whether a request should be redacted
+ *
+ * @param requested - redact_pii from the request (opt-in; can't disable global redaction)
+ */
+export function isPiiRedactionEnabled(requested: boolean | undefined): boolean {
+  return process.env.PII_REDACTION === 'on' || requested === true;
+}
+
+/**
+ * Get the configured detectors (unknown names are ignored)
+ */
+export function getEnabledPiiDetectors(): PiiDetector[] {
+  const configured = process.env.PII_DETECTORS;
+  if (!configured) {
+    return ALL_DETECTORS;
+  }
+
+  const names = new Set(configured.split(',').map((name) => name.trim()));
+  return ALL_DETECTORS.filter((detector) => names.has(detector));
+}
+
+/**
+ * Start redaction for a request
+ *
+ * @param detectors - Detectors to run (default: configured detectors)
+ */
+export function createPiiRedaction(detectors = getEnabledPiiDetectors()): PiiRedaction {
+  return {
+    detectors,
+    placeholders: new Map(),
+    originals: new Map(),
+    counts: { email: 0, phone: 0, card: 0, address: 0 },
+  };
+}
+
+/**
+ * Get (or issue) the placeholder for a detected value
+ */
+function placeholderFor(redaction: PiiRedaction, detector: PiiDetector, value: string): string {
+  const spec = PII_DETECTORS[detector];
+  const key = `${detector}:${spec.normalize(value)}`;
+
+  let placeholder = redaction.placeholders.get(key);
+  if (!placeholder) {
+    redaction.counts[detector] += 1;
+    placeholder = `[${spec.label}_${redaction.counts[detector]}]`;
+    redaction.placeholders.set(key, placeholder);
+    redaction.originals.set(placeholder, value);
+  }
+  return placeholder;
+}
+
+/**
+ * Replace detected values in a text with placeholders
+ *
+ * @param redaction - Request redaction state
+ * @param text - Outbound text
+ * @returns Text with placeholders
+ */
+export function redactText(redaction: PiiRedaction, text: string): string {
+  const matches: Array<{ start: number; end: number; detector: PiiDetector }> = [];
+
+  for (const detector of ALL_DETECTORS.filter((d) => redaction.detectors.includes(d))) {
+    const spec = PII_DETECTORS[detector];
+    for (const match of text.matchAll(spec.pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = matches.some((m) => start < m.end && end > m.start);
+      if (!overlaps && (!spec.validate || spec.validate(match[0]))) {
+        matches.push({ start, end, detector });
+      }
+    }
+  }
+
+  // Issue placeholders in reading order so numbering follows the text
+  matches.sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let position = 0;
+  for (const { start, end, detector } of matches) {
+    result += text.slice(position, start) + placeholderFor(redaction, detector, text.slice(start, end));
+    position = end;
+  }
+  return result + text.slice(position);
+}
+
+function redactPart(redaction: PiiRedaction, part: OpenAIContentPart): OpenAIContentPart {
+  return part.type === 'text' ? { ...part, text: redactText(redaction, part.text) } : part;
+}
+
+/**
+ * Redact every message of an outbound request (content and tool call arguments)
+ *
+ * @param redaction - Request redaction state
+ * @param messages - Messages in OpenAI format
+ * @returns Redacted copies (inputs are not modified)
+ */
+export function redactMessages(redaction: PiiRedaction, messages: ChatMessage[]): ChatMessage[] {
+  return messages.map((message) => ({
+    ...message,
+    content:
+      typeof message.content === 'string'
+        ? redactText(redaction, message.content)
+        : Array.isArray(message.content)
+          ? message.content.map((part) => redactPart(redaction, part))
+          : message.content,
+    ...(message.tool_calls && {
+      tool_calls: message.tool_calls.map((toolCall) => ({
+        ...toolCall,
+        function: {
+          ...toolCall.function,
+          arguments: redactText(redaction, toolCall.function.arguments),
+        },
+      })),
+    }),
+  }));
+}
+
+/**
+ * Put original values back in place of this request's placeholders
+ * Unknown placeholders (e.g. invented by the model) are left as-is
+ *
+ * @param redaction - Request redaction state
+ * @param text - Text from the model
+ * @param json - Escape values for use inside JSON strings
+ */
+export function restoreText(redaction: PiiRedaction, text: string, json = false): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => {
+    const original = redaction.originals.get(placeholder);
+    if (original === undefined) {
+      return placeholder;
+    }
+    return json ? JSON.stringify(original).slice(1, -1) : original;
+  });
+}
+
+/**
+ * Restore placeholders in a completion (content and tool call arguments)
+ *
+ * @param redaction - Request redaction state
+ * @param completion - Completion from the provider
+ * @param jsonContent - Content is JSON (json_object / json_schema response formats)
+ * @returns Restored copy
+ */
+export function restoreCompletion(
+  redaction: PiiRedaction,
+  completion: OpenAIChatCompletionResponse,
+  jsonContent = false
+): OpenAIChatCompletionResponse {
+  return {
+    ...completion,
+    choices: completion.choices.map((choice) => ({
+      ...choice,
+      message: {
+        ...choice.message,
+        content:
+          choice.message.content === null
+            ? null
+            : restoreText(redaction, choice.message.content, jsonContent),
+        ...(choice.message.tool_calls && {
+          tool_calls: choice.message.tool_calls.map((toolCall) => ({
+            ...toolCall,
+            function: {
+              ...toolCall.function,
+              arguments: restoreText(redaction, toolCall.function.arguments, true),
+            },
+          })),
+        }),
+      },
+    })),
+  };
+}
+
+/**
+ * Restores a text stream, holding back a trailing partial placeholder
+ */
+interface RestoreBuffer {
+  push(text: string): string;
+  flush(): string;
+}
+
+function createRestoreBuffer(redaction: PiiRedaction, json: boolean): RestoreBuffer {
+  let pending = '';
+
+  return {
+    push(text) {
+      const combined = pending + text;
+      const open = combined.lastIndexOf('[');
+      const partial =
+        open !== -1 &&
+        !combined.includes(']', open) &&
+        combined.length - open < MAX_PLACEHOLDER_LENGTH;
+
+      const ready = partial ? combined.slice(0, open) : combined;
+      pending = partial ? combined.slice(open) : '';
+      return restoreText(redaction, ready, json);
+    },
+    flush() {
+      const rest = restoreText(redaction, pending, json);
+      pending = '';
+      return rest;
+    },
+  };
+}
+
+/**
+ * Restore placeholders in a chunk stream
+ * Text held back for a split placeholder is released with the choice's
+ * finish chunk, or in an extra chunk if the stream ends without one
+ *
+ * @param redaction - Request redaction state
+ * @param stream - Chunks from the provider
+ * @param jsonContent - Content is JSON (json_object / json_schema response formats)
+ */
+export async function* restoreStream(
+  redaction: PiiRedaction,
+  stream: AsyncIterable<OpenAIChatCompletionChunk>,
+  jsonContent = false
+): AsyncGenerator<OpenAIChatCompletionChunk> {
+  const content = createRestoreBuffer(redaction, jsonContent);
+  const toolArguments = new Map<number, RestoreBuffer>();
+  let last: OpenAIChatCompletionChunk | undefined;
+
+  const flushInto = (delta: OpenAIChatCompletionChunkDelta): OpenAIChatCompletionChunkDelta => {
+    const rest = content.flush();
+    const toolRests = [...toolArguments.entries()]
+      .map(([index, buffer]) => ({ index, function: { arguments: buffer.flush() } }))
+      .filter((toolCall) => toolCall.function.arguments);
+
+    return {
+      ...delta,
+      ...(rest && { content: (delta.content ?? '') + rest }),
+      ...(toolRests.length > 0 && { tool_calls: [...(delta.tool_calls ?? []), ...toolRests] }),
+    };
+  };
+
+  // Extra chunk carrying held-back text (for streams without a finish chunk)
+  const flushChunk = (template: OpenAIChatCompletionChunk): OpenAIChatCompletionChunk | null => {
+    const delta = flushInto({});
+    return delta.content || delta.tool_calls
+      ? { ...template, choices: [{ index: 0, delta, finish_reason: null }], usage: null }
+      : null;
+  };
+
+  for await (const chunk of stream) {
+    last = chunk;
+    const choice = chunk.choices[0];
+    if (!choice?.delta) {
+      // Release held-back text before the final usage chunk
+      const flushed = chunk.choices.length === 0 ? flushChunk(chunk) : null;
+      if (flushed) yield flushed;
+      yield chunk;
+      continue;
+    }
+
+    let delta: OpenAIChatCompletionChunkDelta = {
+      ...choice.delta,
+      ...(typeof choice.delta.content === 'string' && {
+        content: content.push(choice.delta.content),
+      }),
+      ...(choice.delta.tool_calls && {
+        tool_calls: choice.delta.tool_calls.map((toolCall) => {
+          if (!toolCall.function?.arguments) return toolCall;
+
+          let buffer = toolArguments.get(toolCall.index);
+          if (!buffer) {
+            buffer = createRestoreBuffer(redaction, true);
+            toolArguments.set(toolCall.index, buffer);
+          }
+          return {
+            ...toolCall,
+            function: { ...toolCall.function, arguments: buffer.push(toolCall.function.arguments) },
+          };
+        }),
+      }),
+    };
+    if (choice.finish_reason) {
+      delta = flushInto(delta);
+    }
+
+    yield { ...chunk, choices: [{ ...choice, delta }, ...chunk.choices.slice(1)] };
+  }
+
+  // Stream ended mid-placeholder without a finish or usage chunk
+  const flushed = last ? flushChunk(last) : null;
+  if (flushed) yield flushed;
+}
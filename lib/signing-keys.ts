@@ -0,0 +1,130 @@
+/**
+ * Signing Keys
+ * Keyring of shared HMAC secrets, so the secret shipped in the app can be
+ * rotated without breaking installed versions
+ *
+ * Requests name the key they were signed with in key_id. To rotate:
+ * 1. Add a new key to HMAC_KEYS and ship an app build that signs with it
+ * 2. Move the old key to HMAC_RETIRING_KEYS; it still verifies, and every
+ *    use is logged ("Deprecated signing key used")
+ * 3. Remove it once the logs show old builds have stopped sending it
+ *
+ * Requests without key_id (builds from before key ids) are verified with
+ * HMAC_SECRET under the id "legacy". Once HMAC_KEYS is configured the legacy
+ * key counts as retiring.
+ *
+ * Registered devices sign with their own secret instead (see lib/devices);
+ * their key_id is ignored.
+ *
+ * Signatures cover the message bytes without the signature field, followed
+ * by the timestamp. Builds from before that signed only the timestamp; their
+ * signatures are still accepted for HMAC_SECRET during the transition and
+ * logged ("Deprecated signature scheme used").
+ *
+ * Configuration:
+ * - HMAC_KEYS: Active keys, comma-separated "id=secret" entries
+ * - HMAC_RETIRING_KEYS: Retiring keys, same format
+ * - HMAC_SECRET: Key for requests without key_id (required in production
+ *   unless every client sends key_id)
+ * - ACCEPT_LEGACY_SIGNATURES: Set to false to reject timestamp-only
+ *   signatures once old builds have stopped sending them (default true)
+ */
+
+import { createContextKey } from '@connectrpc/connect';
+
+/**
+ * Key id of HMAC_SECRET, used for requests without key_id
+ */
+export const LEGACY_KEY_ID = 'legacy';
+
+/**
+ * Key id recorded for requests signed with a device secret
+ */
+export const DEVICE_KEY_ID = 'device';
+
+/**
+ * Whether a key is still handed out (active) or on its way out (retiring)
+ */
+export type SigningKeyStatus = 'active' | 'retiring';
+
+/**
+ * Shared secret that requests can be signed with
+ */
+export interface SigningKey {
+  id: string;
+  secret: string;
+  status: SigningKeyStatus;
+}
+
+/**
+ * Context value holding the id of the key that signed the request
+ * Set by the auth interceptor and read by the logging interceptor
+ */
+export const signingKeyIdKey = createContextKey<string | undefined>(undefined, {
+  description: 'Id of the key that signed the request',
+});
+
+/**
+ * Parse a comma-separated list of "id=secret" entries
+ * Throws for malformed entries so misconfiguration fails loudly
+ */
+function parseKeys(name: string, status: SigningKeyStatus): SigningKey[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      const id = entry.slice(0, separator).trim();
+      const secret = entry.slice(separator + 1).trim();
+      if (separator < 0 || !id || !secret || id === LEGACY_KEY_ID) {
+        throw new Error(`Invalid entry in ${name}: expected "id=secret" (id not "${LEGACY_KEY_ID}")`);
+      }
+      return { id, secret, status };
+    });
+}
+
+/**
+ * Check whether timestamp-only signatures are still accepted for HMAC_SECRET
+ */
+export function isLegacySignatureAccepted(): boolean {
+  return process.env.ACCEPT_LEGACY_SIGNATURES !== 'false';
+}
+
+/**
+ * Get the configured active and retiring keys (HMAC_SECRET not included)
+ */
+export function getSigningKeyring(): SigningKey[] {
+  return [...parseKeys('HMAC_KEYS', 'active'), ...parseKeys('HMAC_RETIRING_KEYS', 'retiring')];
+}
+
+/**
+ * Find the key a request was signed with
+ *
+ * @param keyId - key_id from the request (unset = HMAC_SECRET)
+ * @returns The key, or null if the id isn't in the keyring
+ * @throws Error in production when a request without key_id arrives and
+ *   HMAC_SECRET is not set
+ */
+export function getSigningKey(keyId: string | undefined): SigningKey | null {
+  const keyring = getSigningKeyring();
+
+  if (keyId) {
+    return keyring.find((key) => key.id === keyId) ?? null;
+  }
+
+  const secret = process.env.HMAC_SECRET;
+
+  // In production, HMAC_SECRET is required to prevent authentication bypass
+  if (!secret && process.env.NODE_ENV === 'production') {
+    throw new Error(
+      'HMAC_SECRET environment variable is required in production for requests without key_id'
+    );
+  }
+
+  return {
+    id: LEGACY_KEY_ID,
+    secret: secret || 'change-me-in-prod',
+    status: keyring.length > 0 ? 'retiring' : 'active',
+  };
+}
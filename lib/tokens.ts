@@ -0,0 +1,210 @@
+/**
+ * Token Estimation
+ * Local, tokenizer-free estimates of prompt size
+ *
+ * Estimates are deliberately simple (characters / 4 plus OpenAI's per-message
+ * framing) and used for context-window budgeting. Billing uses the usage
+ * reported by the provider, except for streams that end before reporting it
+ * (see estimateStreamUsage).
+ */
+
+import { createContextKey } from '@connectrpc/connect';
+import { Usage, type ChatCompletionChunk } from '@/lib/generated/repkit/ai/v1/api_pb';
+import type { ChatCompletionRequest, ChatMessage } from '@/lib/openai';
+import type { OpenAIContentPart } from '@/lib/types/openai-api';
+
+/**
+ * Estimation constants
+ * - charsPerToken: Average characters per token for English text
+ * - perMessage: Role and framing tokens added to every message
+ * - perName: Extra token when a message has a name
+ * - replyPriming: Tokens that prime the assistant reply
+ * - perTool: Framing tokens per tool definition
+ * - imageLowDetail: Fixed cost of a low-detail image
+ * - imageHighDetail: Cost of a 1024×1024 high/auto-detail image (4 tiles × 170 + 85);
+ *   actual dimensions aren't known before upload
+ */
+export const TOKEN_ESTIMATE = {
+  charsPerToken: 4,
+  perMessage: 4,
+  perName: 1,
+  replyPriming: 3,
+  perTool: 8,
+  imageLowDetail: 85,
+  imageHighDetail: 765,
+};
+
+/**
+ * Estimate tokens for a piece of text
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / TOKEN_ESTIMATE.charsPerToken);
+}
+
+/**
+ * Estimate tokens for a content part (text or image)
+ */
+function estimatePartTokens(part: OpenAIContentPart): number {
+  if (part.type === 'text') {
+    return estimateTextTokens(part.text);
+  }
+  return part.image_url.detail === 'low'
+    ? TOKEN_ESTIMATE.imageLowDetail
+    : TOKEN_ESTIMATE.imageHighDetail;
+}
+
+/**
+ * Estimate tokens for a single message, including framing and tool calls
+ *
+ * @param message - Message in OpenAI format
+ * @returns Estimated prompt tokens
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = TOKEN_ESTIMATE.perMessage;
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTextTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    tokens += message.content.reduce((sum, part) => sum + estimatePartTokens(part), 0);
+  }
+
+  if (message.name) {
+    tokens += TOKEN_ESTIMATE.perName + estimateTextTokens(message.name);
+  }
+
+  for (const toolCall of message.tool_calls ?? []) {
+    tokens +=
+      estimateTextTokens(toolCall.id) +
+      estimateTextTokens(toolCall.function.name) +
+      estimateTextTokens(toolCall.function.arguments);
+  }
+
+  if (message.tool_call_id) {
+    tokens += estimateTextTokens(message.tool_call_id);
+  }
+
+  return tokens;
+}
+
+/**
+ * Prompt token estimate split by source
+ */
+export interface PromptTokenBreakdown {
+  /** System messages (including rendered prompt templates) */
+  system: number;
+  /** User, assistant and tool messages */
+  messages: number;
+  /** Tool definitions */
+  tools: number;
+  /** Whole prompt: the parts above plus reply priming and response format schema */
+  total: number;
+}
+
+/**
+ * Estimate tokens for tool definitions
+ */
+function estimateToolTokens(request: ChatCompletionRequest): number {
+  return (request.tools ?? []).reduce(
+    (sum, tool) => sum + TOKEN_ESTIMATE.perTool + estimateTextTokens(JSON.stringify(tool.function)),
+    0
+  );
+}
+
+/**
+ * Estimate tokens for everything in a request except the messages
+ * (tool schemas, response format schema, reply priming)
+ *
+ * @param request - Completion request
+ * @returns Estimated prompt tokens
+ */
+export function estimateRequestOverheadTokens(request: ChatCompletionRequest): number {
+  let tokens = TOKEN_ESTIMATE.replyPriming + estimateToolTokens(request);
+
+  if (request.response_format && request.response_format.type !== 'text') {
+    tokens += estimateTextTokens(JSON.stringify(request.response_format));
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate prompt tokens for a whole request
+ *
+ * @param request - Completion request
+ * @returns Estimated prompt tokens (messages, tools and response format)
+ */
+export function estimateRequestTokens(request: ChatCompletionRequest): number {
+  return (
+    estimateRequestOverheadTokens(request) +
+    request.messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+  );
+}
+
+/**
+ * Estimate prompt tokens for a request, split into system messages, other
+ * messages and tools
+ *
+ * @param request - Completion request
+ * @returns Estimate per source; total matches estimateRequestTokens
+ */
+export function estimatePromptTokenBreakdown(request: ChatCompletionRequest): PromptTokenBreakdown {
+  let system = 0;
+  let messages = 0;
+  for (const message of request.messages) {
+    if (message.role === 'system') {
+      system += estimateMessageTokens(message);
+    } else {
+      messages += estimateMessageTokens(message);
+    }
+  }
+
+  const overhead = estimateRequestOverheadTokens(request);
+  return { system, messages, tools: estimateToolTokens(request), total: system + messages + overhead };
+}
+
+/**
+ * Prompt estimate of a stream whose upstream request was sent
+ */
+export interface StreamPromptEstimate {
+  /** Model serving the stream */
+  model: string;
+  /** Estimated prompt tokens of the request sent upstream */
+  promptTokens: number;
+}
+
+/**
+ * Context value holding the prompt estimate of an opened stream
+ * Set by the stream handlers once the upstream stream opens; read by the quota
+ * and logging interceptors for streams that end without a usage chunk
+ */
+export const streamPromptEstimateKey = createContextKey<StreamPromptEstimate | undefined>(
+  undefined,
+  { description: 'Prompt estimate of the opened stream' }
+);
+
+/**
+ * Count the generated characters in a stream chunk (content and tool call
+ * names and arguments)
+ */
+export function countChunkChars(chunk: ChatCompletionChunk): number {
+  return chunk.choices.reduce((sum, { delta }) => {
+    const toolChars = (delta?.toolCalls ?? []).reduce(
+      (total, call) => total + (call.function?.name.length ?? 0) + (call.function?.arguments.length ?? 0),
+      0
+    );
+    return sum + (delta?.content?.length ?? 0) + toolChars;
+  }, 0);
+}
+
+/**
+ * Estimate the usage of a stream that ended before its usage chunk
+ * (cancelled or failed), so it is still charged and logged
+ *
+ * @param promptTokens - Prompt estimate of the request
+ * @param streamedChars - Generated characters delivered before the stream ended
+ * @returns Estimated usage
+ */
+export function estimateStreamUsage(promptTokens: number, streamedChars: number): Usage {
+  const completionTokens = Math.ceil(streamedChars / TOKEN_ESTIMATE.charsPerToken);
+  return new Usage({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+}
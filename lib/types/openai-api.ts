@@ -68,6 +68,44 @@ export type OpenAIToolChoice =
       };
     };
 
+/**
+ * OpenAI structured output format (response_format parameter)
+ */
+export type OpenAIResponseFormat =
+  | { type: 'text' }
+  | { type: 'json_object' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: OpenAIToolParameters;
+        strict?: boolean;
+      };
+    };
+
+/**
+ * OpenAI image detail level for vision inputs
+ */
+export type OpenAIImageDetail = 'auto' | 'low' | 'high';
+
+/**
+ * OpenAI message content part - text or image
+ * Image URLs may be HTTPS URLs or base64 data URLs
+ */
+export type OpenAIContentPart =
+  | {
+      type: 'text';
+      text: string;
+    }
+  | {
+      type: 'image_url';
+      image_url: {
+        url: string;
+        detail?: OpenAIImageDetail;
+      };
+    };
+
 /**
  * Type guard to check if a value is an error with status property
  */
@@ -132,7 +170,7 @@ export interface OpenAIChatCompletionResponse {
  */
 export interface OpenAIChatCompletionChunkDelta {
   role?: string;
-  content?: string;
+  content?: string | null;
   tool_calls?: Array<{
     index: number;
     id?: string;
@@ -162,4 +200,5 @@ export interface OpenAIChatCompletionChunk {
   created: number;
   object: string;
   choices: OpenAIChatCompletionChunkChoice[];
+  usage?: OpenAIChatCompletionResponse['usage'] | null; // Final chunk only
 }
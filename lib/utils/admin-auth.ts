@@ -0,0 +1,20 @@
+/**
+ * Admin Authentication
+ * Bearer token check shared by the admin API routes
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+
+/**
+ * Check the bearer token against ADMIN_API_KEY in constant time
+ *
+ * @param req - Admin API request
+ * @param adminKey - Configured ADMIN_API_KEY
+ * @returns Whether the request carries `Authorization: Bearer <adminKey>`
+ */
+export function isAdminAuthorized(req: NextApiRequest, adminKey: string): boolean {
+  const provided = Buffer.from(req.headers.authorization ?? '');
+  const expected = Buffer.from(`Bearer ${adminKey}`);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
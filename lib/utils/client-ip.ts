@@ -0,0 +1,19 @@
+/**
+ * Client IP Extraction
+ * Reads the originating client IP from proxy headers
+ */
+
+/**
+ * Get the client IP address from request headers
+ * Priority: Cloudflare Edge IP > Real IP > First X-Forwarded-For
+ *
+ * @param headers - Request headers
+ * @returns Client IP, or undefined if no proxy header is present
+ */
+export function getClientIp(headers: Headers): string | undefined {
+  const cfIp = headers.get('cf-connecting-ip')?.trim();
+  const realIp = headers.get('x-real-ip')?.trim();
+  const xff = headers.get('x-forwarded-for') || '';
+  const xffFirst = xff.split(',')[0]?.trim();
+  return cfIp || realIp || xffFirst || undefined;
+}
@@ -0,0 +1,31 @@
+/**
+ * Abortable Sleep
+ * Timer-based delay that stops early when a request is cancelled
+ */
+
+import { createAbortError } from '@/lib/providers/errors';
+
+/**
+ * Wait for a delay, rejecting early with an AbortError if the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cancels the wait
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * Message Content Validation
+ * Validates multi-part message content (text + images) before sending to OpenAI
+ *
+ * Enforces image count, size and MIME-type limits so oversized or
+ * unsupported uploads are rejected before any paid model call.
+ */
+
+import {
+  ChatMessage_Role,
+  type ChatMessage,
+  type ImagePart,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+
+/**
+ * Maximum number of images across all messages in a request
+ */
+export const MAX_IMAGES_PER_REQUEST = 4;
+
+/**
+ * Maximum size of a single inline image (5 MB)
+ */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Maximum combined size of inline images in a request (15 MB)
+ */
+export const MAX_TOTAL_IMAGE_BYTES = 15 * 1024 * 1024;
+
+/**
+ * Maximum length of an image URL
+ */
+const MAX_IMAGE_URL_LENGTH = 2048;
+
+/**
+ * Image MIME types accepted by OpenAI vision models
+ */
+export const ALLOWED_IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+/**
+ * Magic byte signatures for each allowed MIME type
+ * Used to reject inline data whose bytes don't match the declared type
+ */
+const MIME_SIGNATURES: Record<string, (bytes: Uint8Array) => boolean> = {
+  'image/jpeg': (b) => b.length >= 3 && b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff,
+  'image/png': (b) =>
+    b.length >= 8 &&
+    [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => b[i] === byte),
+  'image/webp': (b) =>
+    b.length >= 12 &&
+    String.fromCharCode(...b.subarray(0, 4)) === 'RIFF' &&
+    String.fromCharCode(...b.subarray(8, 12)) === 'WEBP',
+  'image/gif': (b) => b.length >= 6 && String.fromCharCode(...b.subarray(0, 4)) === 'GIF8',
+};
+
+/**
+ * Validate a single image part
+ *
+ * @param image - Image part to validate
+ * @param path - Location for error messages (e.g., "messages[0].content_parts[1]")
+ * @returns Array of error messages
+ */
+function validateImagePart(image: ImagePart, path: string): string[] {
+  const errors: string[] = [];
+
+  switch (image.source.case) {
+    case 'data': {
+      const bytes = image.source.value;
+
+      if (bytes.length === 0) {
+        errors.push(`${path}: image data is empty`);
+        break;
+      }
+
+      if (bytes.length > MAX_IMAGE_BYTES) {
+        errors.push(
+          `${path}: image is ${bytes.length} bytes, exceeds maximum of ${MAX_IMAGE_BYTES} bytes`
+        );
+      }
+
+      if (!image.mimeType) {
+        errors.push(`${path}: mime_type is required for inline image data`);
+      } else if (!ALLOWED_IMAGE_MIME_TYPES.includes(image.mimeType)) {
+        errors.push(
+          `${path}: unsupported image type "${image.mimeType}". Allowed: ${ALLOWED_IMAGE_MIME_TYPES.join(', ')}`
+        );
+      } else if (!MIME_SIGNATURES[image.mimeType](bytes)) {
+        errors.push(`${path}: image data does not match declared type "${image.mimeType}"`);
+      }
+      break;
+    }
+    case 'url': {
+      const url = image.source.value;
+
+      if (url.length > MAX_IMAGE_URL_LENGTH) {
+        errors.push(`${path}: image URL exceeds maximum length of ${MAX_IMAGE_URL_LENGTH}`);
+      } else if (!URL.canParse(url) || new URL(url).protocol !== 'https:') {
+        errors.push(`${path}: image URL must be a valid https:// URL`);
+      }
+
+      if (image.mimeType && !ALLOWED_IMAGE_MIME_TYPES.includes(image.mimeType)) {
+        errors.push(
+          `${path}: unsupported image type "${image.mimeType}". Allowed: ${ALLOWED_IMAGE_MIME_TYPES.join(', ')}`
+        );
+      }
+      break;
+    }
+    default:
+      errors.push(`${path}: image must have either data or url set`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate message content across a request
+ * Checks content/content_parts exclusivity, image placement and
+ * per-image and per-request limits
+ *
+ * @param messages - Proto messages to validate
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateMessageContent(messages: ChatMessage[]): string[] {
+  const errors: string[] = [];
+  let imageCount = 0;
+  let totalImageBytes = 0;
+
+  messages.forEach((msg, msgIndex) => {
+    if (!msg.contentParts || msg.contentParts.length === 0) {
+      return;
+    }
+
+    if (msg.content) {
+      errors.push(`messages[${msgIndex}]: set either content or content_parts, not both`);
+    }
+
+    msg.contentParts.forEach((part, partIndex) => {
+      const path = `messages[${msgIndex}].content_parts[${partIndex}]`;
+
+      switch (part.part.case) {
+        case 'text':
+          if (!part.part.value) {
+            errors.push(`${path}: text part cannot be empty`);
+          }
+          break;
+        case 'image':
+          if (msg.role !== ChatMessage_Role.USER) {
+            errors.push(`${path}: images are only allowed in user messages`);
+          }
+
+          imageCount++;
+          if (part.part.value.source.case === 'data') {
+            totalImageBytes += part.part.value.source.value.length;
+          }
+
+          errors.push(...validateImagePart(part.part.value, path));
+          break;
+        default:
+          errors.push(`${path}: content part must be text or image`);
+      }
+    });
+  });
+
+  if (imageCount > MAX_IMAGES_PER_REQUEST) {
+    errors.push(
+      `Request contains ${imageCount} images, exceeds maximum of ${MAX_IMAGES_PER_REQUEST}`
+    );
+  }
+
+  if (totalImageBytes > MAX_TOTAL_IMAGE_BYTES) {
+    errors.push(
+      `Request image data totals ${totalImageBytes} bytes, exceeds maximum of ${MAX_TOTAL_IMAGE_BYTES} bytes`
+    );
+  }
+
+  return errors;
+}
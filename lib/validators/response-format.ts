@@ -0,0 +1,66 @@
+/**
+ * Response Format Validation
+ * Validates structured output settings before sending to OpenAI
+ *
+ * JSON schemas reuse ToolSchema and are checked with the same rules as
+ * tool parameters (nesting, required fields, strict mode).
+ */
+
+import {
+  ResponseFormat_Type,
+  type ResponseFormat,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import { TOOL_NAME_PATTERN, validateObjectSchema } from '@/lib/validators/tool';
+
+/**
+ * Maximum length of a json_schema name (OpenAI limit)
+ */
+const MAX_SCHEMA_NAME_LENGTH = 64;
+
+/**
+ * Validate a response format
+ *
+ * @param format - Response format from the request
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateResponseFormat(format: ResponseFormat): string[] {
+  const errors: string[] = [];
+
+  if (format.type !== ResponseFormat_Type.JSON_SCHEMA) {
+    if (format.jsonSchema) {
+      errors.push('Response format: json_schema is only allowed when type is JSON_SCHEMA');
+    }
+    return errors;
+  }
+
+  const jsonSchema = format.jsonSchema;
+  if (!jsonSchema) {
+    errors.push('Response format: json_schema is required when type is JSON_SCHEMA');
+    return errors;
+  }
+
+  // Validate schema name (same character rules as tool names)
+  if (!jsonSchema.name) {
+    errors.push('Response format: json_schema name is required');
+  } else if (!TOOL_NAME_PATTERN.test(jsonSchema.name)) {
+    errors.push(
+      `Response format name "${jsonSchema.name}" is invalid. Names must contain only letters, digits, underscores, and hyphens (a-zA-Z0-9_-)`
+    );
+  } else if (jsonSchema.name.length > MAX_SCHEMA_NAME_LENGTH) {
+    errors.push(
+      `Response format name "${jsonSchema.name}" exceeds maximum length of ${MAX_SCHEMA_NAME_LENGTH}`
+    );
+  }
+
+  const schema = jsonSchema.schema;
+  if (!schema || !schema.properties || Object.keys(schema.properties).length === 0) {
+    errors.push('Response format schema must have a properties object');
+    return errors;
+  }
+
+  errors.push(
+    ...validateObjectSchema(schema, `Response format "${jsonSchema.name}"`, jsonSchema.strict)
+  );
+
+  return errors;
+}
@@ -9,7 +9,7 @@
  */
 
 import { createHash } from 'crypto';
-import type { Tool, ToolSchema_Property } from '@/lib/generated/repkit/ai/v1/api_pb';
+import type { Tool, ToolSchema, ToolSchema_Property } from '@/lib/generated/repkit/ai/v1/api_pb';
 
 /**
  * Cache for tool validation results
@@ -38,7 +38,7 @@ function getToolsHash(tools: Tool[]): string {
  * Tool names must contain only: a-z, A-Z, 0-9, -, _
  * This matches OpenAI's API requirements for tool names
  */
-const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
+export const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]+$/;
 
 /**
  * Valid JSON Schema types
@@ -56,7 +56,7 @@ const MAX_SCHEMA_DEPTH = 10;
  *
  * @param prop - Property to validate
  * @param path - Path to the property for error messages (e.g., "parameters.workouts.items")
- * @param toolName - Tool name for error context
+ * @param owner - Schema owner label for error context (e.g., 'Tool "get_weather"')
  * @param depth - Current recursion depth for safety limits
  * @param strictMode - Whether strict mode validation is enabled
  * @returns Array of error messages
@@ -64,7 +64,7 @@ const MAX_SCHEMA_DEPTH = 10;
 function validateProperty(
   prop: ToolSchema_Property,
   path: string,
-  toolName: string,
+  owner: string,
   depth: number = 0,
   strictMode: boolean = false
 ): string[] {
@@ -73,7 +73,7 @@ function validateProperty(
   // Check depth limit
   if (depth > MAX_SCHEMA_DEPTH) {
     errors.push(
-      `Tool "${toolName}": schema at "${path}" exceeds maximum nesting depth of ${MAX_SCHEMA_DEPTH}`
+      `${owner}: schema at "${path}" exceeds maximum nesting depth of ${MAX_SCHEMA_DEPTH}`
     );
     return errors;
   }
@@ -81,7 +81,7 @@ function validateProperty(
   // Validate type
   if (!prop.type || !VALID_TYPES.includes(prop.type)) {
     errors.push(
-      `Tool "${toolName}": property "${path}" has invalid type "${prop.type}". Valid types: ${VALID_TYPES.join(', ')}`
+      `${owner}: property "${path}" has invalid type "${prop.type}". Valid types: ${VALID_TYPES.join(', ')}`
     );
   }
 
@@ -90,7 +90,7 @@ function validateProperty(
     // In strict mode, all objects must have additionalProperties: false
     if (prop.additionalProperties !== false) {
       errors.push(
-        `Tool "${toolName}": strict mode requires additionalProperties: false at "${path}"`
+        `${owner}: strict mode requires additionalProperties: false at "${path}"`
       );
     }
 
@@ -102,7 +102,7 @@ function validateProperty(
 
       if (missingRequired.length > 0) {
         errors.push(
-          `Tool "${toolName}": strict mode requires all properties to be in required array at "${path}". ` +
+          `${owner}: strict mode requires all properties to be in required array at "${path}". ` +
           `Missing: ${missingRequired.join(', ')}`
         );
       }
@@ -114,7 +114,7 @@ function validateProperty(
     // Enforce type: 'object' when properties are present
     if (prop.type !== 'object') {
       errors.push(
-        `Tool "${toolName}": property "${path}" has properties but type "${prop.type}". Expected "object".`
+        `${owner}: property "${path}" has properties but type "${prop.type}". Expected "object".`
       );
     }
 
@@ -123,7 +123,7 @@ function validateProperty(
       for (const requiredField of prop.required) {
         if (!prop.properties[requiredField]) {
           errors.push(
-            `Tool "${toolName}": required field "${requiredField}" not found in "${path}.properties". ` +
+            `${owner}: required field "${requiredField}" not found in "${path}.properties". ` +
             `Available: ${Object.keys(prop.properties).join(', ')}`
           );
         }
@@ -132,12 +132,12 @@ function validateProperty(
 
     // Recursively validate nested properties
     for (const [nestedName, nestedProp] of Object.entries(prop.properties)) {
-      errors.push(...validateProperty(nestedProp, `${path}.${nestedName}`, toolName, depth + 1, strictMode));
+      errors.push(...validateProperty(nestedProp, `${path}.${nestedName}`, owner, depth + 1, strictMode));
     }
   } else if (prop.required && prop.required.length > 0) {
     // Catch required fields with empty/missing properties
     errors.push(
-      `Tool "${toolName}": property "${path}" declares required fields but no properties are defined`
+      `${owner}: property "${path}" declares required fields but no properties are defined`
     );
   }
 
@@ -146,10 +146,10 @@ function validateProperty(
     // Enforce type: 'array' when items is present
     if (prop.type !== 'array') {
       errors.push(
-        `Tool "${toolName}": property "${path}" has items but type "${prop.type}". Expected "array".`
+        `${owner}: property "${path}" has items but type "${prop.type}". Expected "array".`
       );
     }
-    errors.push(...validateProperty(prop.items, `${path}.items`, toolName, depth + 1, strictMode));
+    errors.push(...validateProperty(prop.items, `${path}.items`, owner, depth + 1, strictMode));
   }
 
   return errors;
@@ -193,25 +193,45 @@ export function validateToolSchema(tool: Tool): string[] {
     return errors;
   }
 
+  errors.push(...validateObjectSchema(schema, `Tool "${tool.name}"`, tool.strict === true));
+
+  return errors;
+}
+
+/**
+ * Validate a top-level object schema (tool parameters or response format schema)
+ * Checks required fields, strict mode requirements, and nested properties
+ *
+ * @param schema - Object schema with a non-empty properties map
+ * @param owner - Schema owner label for error context (e.g., 'Tool "get_weather"')
+ * @param strictMode - Whether strict mode validation is enabled
+ * @returns Array of error messages (empty if valid)
+ */
+export function validateObjectSchema(
+  schema: ToolSchema,
+  owner: string,
+  strictMode: boolean
+): string[] {
+  const errors: string[] = [];
+
   // Validate required array at top level
   if (schema.required && schema.required.length > 0) {
     // Check each required field exists in properties
     for (const requiredField of schema.required) {
       if (!schema.properties[requiredField]) {
         errors.push(
-          `Tool "${tool.name}": required field "${requiredField}" not found in properties`
+          `${owner}: required field "${requiredField}" not found in properties`
         );
       }
     }
   }
 
   // Validate strict mode requirements at top level
-  const strictMode = tool.strict === true;
   if (strictMode) {
     // Top-level must have additionalProperties: false
     if (schema.additionalProperties !== false) {
       errors.push(
-        `Tool "${tool.name}": strict mode requires additionalProperties: false at top level`
+        `${owner}: strict mode requires additionalProperties: false at top level`
       );
     }
 
@@ -222,7 +242,7 @@ export function validateToolSchema(tool: Tool): string[] {
 
     if (missingRequired.length > 0) {
       errors.push(
-        `Tool "${tool.name}": strict mode requires all properties to be in required array. ` +
+        `${owner}: strict mode requires all properties to be in required array. ` +
         `Missing: ${missingRequired.join(', ')}`
       );
     }
@@ -230,7 +250,7 @@ export function validateToolSchema(tool: Tool): string[] {
 
   // Validate each property recursively (handles nested objects and arrays)
   for (const [propName, prop] of Object.entries(schema.properties)) {
-    errors.push(...validateProperty(prop, propName, tool.name, 0, strictMode));
+    errors.push(...validateProperty(prop, propName, owner, 0, strictMode));
   }
 
   return errors;
@@ -7,26 +7,37 @@
  *
  * Endpoints:
  * - POST /api/repkit.ai.v1.ChatService/CreateStandardCompletion (unary)
- * - POST /api/repkit.ai.v1.ChatService/CreateMiniCompletion (unary)
- * - POST /api/repkit.ai.v1.ChatService/StreamStandardCompletion (streaming)
+ * - POST /api/repkit.ai.v1.ChatService/CreateMiniCompletion (unary, 0.5 of a request)
+ * - POST /api/repkit.ai.v1.ChatService/StreamStandardCompletion (streaming, 2 requests)
+ * - POST /api/repkit.ai.v1.ChatService/StreamMiniCompletion (streaming, 0.5 of a request)
+ * - POST /api/repkit.ai.v1.ChatService/CreateConversation (unary, 0.1 of a request)
+ * - POST /api/repkit.ai.v1.ChatService/CountTokens (unary, 0.1 of a request)
+ * - POST /api/repkit.ai.v1.ChatService/GetQuota (unary, free; reads the rate limit buckets)
+ * - POST /api/repkit.ai.v1.ChatService/RegisterDevice (unary; issues a per-device signing secret)
+ * - POST /api/repkit.ai.v1.ChatService/RotateDeviceSecret (unary; replaces a device's signing secret)
+ *
+ * Weights are the default rate limit cost (see RATE_LIMIT_METHOD_COSTS).
  *
  * Interceptor Order:
- * 1. auth - Validate HMAC signature and timestamp
- * 2. rateLimit - Check dual-bucket rate limits
- * 3. logging - Log request metrics and errors
- * 4. handlers - Execute RPC methods
+ * 1. auth - Validate HMAC signature (device or shared secret) and timestamp
+ * 2. idempotency - Replay stored responses for repeated idempotency keys
+ * 3. rateLimit - Check dual-bucket rate limits and concurrent stream caps
+ * 4. quota - Check per-device spend budgets and charge real usage
+ * 5. logging - Log request metrics and errors
+ * 6. handlers - Execute RPC methods
  *
- * Response Headers:
- * - X-RateLimit-Limit
- * - X-RateLimit-Remaining
- * - X-RateLimit-Reset
+ * Response Headers (trailers for streams):
+ * - X-RateLimit-Limit / -Remaining / -Reset (most restrictive bucket)
+ * - X-RateLimit-*-Token and X-RateLimit-*-IP (each bucket)
  * - X-Request-Id (for tracing)
  */
 
 import type { NextApiHandler } from 'next';
 import { nextJsApiRouter } from '@connectrpc/connect-next';
 import { authInterceptor } from '@/lib/interceptors/auth';
+import { idempotencyInterceptor } from '@/lib/interceptors/idempotency';
 import { rateLimitInterceptor } from '@/lib/interceptors/rate-limit';
+import { quotaInterceptor } from '@/lib/interceptors/quota';
 import { loggingInterceptor } from '@/lib/interceptors/logging';
 import { registerChatServiceHandlers } from '@/lib/handlers/chat-service';
 
@@ -38,8 +49,12 @@ const { handler: connectHandler } = nextJsApiRouter({
   interceptors: [
     // Authentication must run first
     authInterceptor,
+    // Replays run after auth but before rate limiting (repeats aren't charged)
+    idempotencyInterceptor,
     // Rate limiting after auth (don't limit unauthenticated requests)
     rateLimitInterceptor,
+    // Spend budgets after rate limiting (throttled requests aren't checked)
+    quotaInterceptor,
     // Logging wraps everything for observability
     loggingInterceptor,
   ],
@@ -0,0 +1,65 @@
+/**
+ * Device Account Links (admin)
+ * Links a device to an account, so the account's overrides and subscription
+ * apply to it (see lib/entitlements)
+ *
+ * Endpoints:
+ * - PUT /api/admin/account-links  { deviceToken, accountId }
+ * - DELETE /api/admin/account-links  { deviceToken }
+ *
+ * Authentication:
+ * - Authorization: Bearer <ADMIN_API_KEY>
+ * - The route answers 404 when ADMIN_API_KEY is not configured
+ */
+
+import type { NextApiHandler } from 'next';
+import { linkDeviceToAccount } from '@/lib/entitlements';
+import { isAdminAuthorized } from '@/lib/utils/admin-auth';
+import { logger } from '@/lib/utils/logger';
+import { anonymize } from '@/lib/utils/anonymize';
+
+const handler: NextApiHandler = async (req, res) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(404).end();
+    return;
+  }
+
+  if (!isAdminAuthorized(req, adminKey)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'PUT, DELETE');
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const body: Record<string, unknown> =
+    typeof req.body === 'object' && req.body !== null ? req.body : {};
+  if (typeof body.deviceToken !== 'string' || !body.deviceToken) {
+    res.status(400).json({ error: 'deviceToken is required' });
+    return;
+  }
+
+  let accountId: string | null = null;
+  if (req.method === 'PUT') {
+    if (typeof body.accountId !== 'string' || !body.accountId) {
+      res.status(400).json({ error: 'accountId is required' });
+      return;
+    }
+    accountId = body.accountId;
+  }
+
+  await linkDeviceToAccount(body.deviceToken, accountId);
+
+  logger.info(accountId ? 'Device linked to account' : 'Device unlinked from account', {
+    identifier: `token#${anonymize(body.deviceToken)}`,
+    ...(accountId && { account: `account#${anonymize(accountId)}` }),
+  });
+
+  res.status(200).json({ ok: true });
+};
+
+export default handler;
@@ -0,0 +1,78 @@
+/**
+ * Device Revocation and Reset (admin)
+ * Revokes a registered device, or forgets its registration
+ *
+ * Endpoints:
+ * - DELETE /api/admin/devices  { deviceToken }               (revoke)
+ * - DELETE /api/admin/devices  { deviceToken, reset: true }  (reset)
+ *
+ * Revocation rejects every request with the device token, RegisterDevice
+ * included, until a reset. A reset makes the token unregistered, so it signs
+ * with the shared secret and can register again (e.g. after a revocation, or
+ * when someone else registered the token first).
+ *
+ * Authentication:
+ * - Authorization: Bearer <ADMIN_API_KEY>
+ * - The route answers 404 when ADMIN_API_KEY is not configured
+ */
+
+import type { NextApiHandler } from 'next';
+import { resetDevice, revokeDevice } from '@/lib/devices';
+import { isAdminAuthorized } from '@/lib/utils/admin-auth';
+import { logger } from '@/lib/utils/logger';
+import { anonymize } from '@/lib/utils/anonymize';
+
+const handler: NextApiHandler = async (req, res) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(404).end();
+    return;
+  }
+
+  if (!isAdminAuthorized(req, adminKey)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', 'DELETE');
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const body: Record<string, unknown> =
+    typeof req.body === 'object' && req.body !== null ? req.body : {};
+  if (typeof body.deviceToken !== 'string' || !body.deviceToken) {
+    res.status(400).json({ error: 'deviceToken is required' });
+    return;
+  }
+
+  if (body.reset !== undefined && typeof body.reset !== 'boolean') {
+    res.status(400).json({ error: 'reset must be a boolean' });
+    return;
+  }
+
+  const reset = body.reset === true;
+  let found: boolean;
+  try {
+    found = reset ? await resetDevice(body.deviceToken) : await revokeDevice(body.deviceToken);
+  } catch (error) {
+    logger.error('Device store unavailable', error instanceof Error ? error : null, {
+      identifier: `token#${anonymize(body.deviceToken)}`,
+    });
+    res.status(503).json({ error: 'Device store unavailable' });
+    return;
+  }
+  if (!found) {
+    res.status(404).json({ error: 'Device is not registered' });
+    return;
+  }
+
+  logger.info(reset ? 'Device reset' : 'Device revoked', {
+    identifier: `token#${anonymize(body.deviceToken)}`,
+  });
+
+  res.status(200).json({ ok: true });
+};
+
+export default handler;
@@ -0,0 +1,112 @@
+/**
+ * Entitlement Overrides and Subscriptions (admin)
+ * Sets or clears the plan of a device or account
+ *
+ * Endpoints:
+ * - PUT /api/admin/entitlements  { deviceToken | accountId, plan, expiresAt?, subscription? }
+ * - DELETE /api/admin/entitlements  { deviceToken | accountId, subscription? }
+ *
+ * Without subscription (or false) the request sets an override, which takes
+ * precedence over subscriptions. With subscription: true it records the
+ * subscription instead (the billing integration's entry point).
+ *
+ * expiresAt is epoch ms; without it the plan lasts until cleared.
+ *
+ * Authentication:
+ * - Authorization: Bearer <ADMIN_API_KEY>
+ * - The route answers 404 when ADMIN_API_KEY is not configured
+ */
+
+import type { NextApiHandler } from 'next';
+import {
+  isPlan,
+  setEntitlementOverride,
+  setSubscription,
+  type EntitlementGrant,
+  type EntitlementSubject,
+} from '@/lib/entitlements';
+import { isAdminAuthorized } from '@/lib/utils/admin-auth';
+import { logger } from '@/lib/utils/logger';
+import { anonymize } from '@/lib/utils/anonymize';
+
+/**
+ * Read the device or account from the request body
+ */
+function parseSubject(body: Record<string, unknown>): EntitlementSubject | null {
+  if (typeof body.deviceToken === 'string' && body.deviceToken) {
+    return { deviceToken: body.deviceToken };
+  }
+  if (typeof body.accountId === 'string' && body.accountId) {
+    return { accountId: body.accountId };
+  }
+  return null;
+}
+
+/**
+ * Read the plan and optional expiry from the request body
+ */
+function parseGrant(body: Record<string, unknown>): EntitlementGrant | null {
+  if (!isPlan(body.plan)) return null;
+  if (body.expiresAt === undefined) return { plan: body.plan };
+  return typeof body.expiresAt === 'number' && Number.isFinite(body.expiresAt)
+    ? { plan: body.plan, expiresAt: body.expiresAt }
+    : null;
+}
+
+const handler: NextApiHandler = async (req, res) => {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    res.status(404).end();
+    return;
+  }
+
+  if (!isAdminAuthorized(req, adminKey)) {
+    res.status(401).json({ error: 'Unauthorized' });
+    return;
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'PUT, DELETE');
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const body: Record<string, unknown> =
+    typeof req.body === 'object' && req.body !== null ? req.body : {};
+  const subject = parseSubject(body);
+  if (!subject) {
+    res.status(400).json({ error: 'deviceToken or accountId is required' });
+    return;
+  }
+
+  if (body.subscription !== undefined && typeof body.subscription !== 'boolean') {
+    res.status(400).json({ error: 'subscription must be a boolean' });
+    return;
+  }
+
+  const grant = req.method === 'PUT' ? parseGrant(body) : null;
+  if (req.method === 'PUT' && !grant) {
+    res.status(400).json({ error: 'plan must be "free" or "pro"; expiresAt must be epoch ms' });
+    return;
+  }
+
+  const subscription = body.subscription === true;
+  if (subscription) {
+    await setSubscription(subject, grant);
+  } else {
+    await setEntitlementOverride(subject, grant);
+  }
+
+  logger.info(subscription ? 'Subscription updated' : 'Entitlement override updated', {
+    subject:
+      'deviceToken' in subject
+        ? `token#${anonymize(subject.deviceToken)}`
+        : `account#${anonymize(subject.accountId)}`,
+    plan: grant?.plan ?? null,
+    ...(grant?.expiresAt !== undefined && { expires_at: new Date(grant.expiresAt).toISOString() }),
+  });
+
+  res.status(200).json({ ok: true });
+};
+
+export default handler;
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 /**
  * Test script for HMAC request signature validation
+ * Calls CreateMiniCompletion over the Connect protocol with signed messages
  *
  * Usage: node test-hmac.js
  *
@@ -18,45 +19,106 @@ const HMAC_SECRET =
   '772c22aaaf2444bbd6f859d2ae55c8847e59da949adc8aec0f37eeb5d68bb3f9';
 const DEVICE_TOKEN = process.env.X_DEVICE_TOKEN || 'test-device-token';
 
-// Test payload
-const testBody = {
-  messages: [
-    { role: 'system', content: 'You are a helpful assistant.' },
-    { role: 'user', content: 'Say "HMAC test successful" if you can read this.' }
-  ],
-  max_tokens: 50
-};
+// Test payload (CreateChatCompletionRequest fields)
+const testMessages = [
+  { role: 1, content: 'You are a helpful assistant.' },
+  { role: 2, content: 'Say "HMAC test successful" if you can read this.' }
+];
+
+const ROLE_NAMES = { 1: 'ROLE_SYSTEM', 2: 'ROLE_USER' };
+const ENDPOINT = '/api/repkit.ai.v1.ChatService/CreateMiniCompletion';
+
+/**
+ * Encode a protobuf varint
+ */
+function varint(value) {
+  const bytes = [];
+  while (value > 0x7f) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+/**
+ * Encode a length-delimited protobuf field (strings and messages)
+ */
+function lengthDelimited(fieldNumber, bytes) {
+  return Buffer.concat([varint((fieldNumber << 3) | 2), varint(bytes.length), bytes]);
+}
+
+/**
+ * Serialize the request to proto binary WITHOUT the signature field
+ * Matches what the server signs: fields in field-number order
+ * (messages = 1, device_token = 6, timestamp = 7)
+ */
+function toUnsignedBinary(messages, timestamp) {
+  const fields = messages.map((message) =>
+    lengthDelimited(
+      1,
+      Buffer.concat([
+        varint((1 << 3) | 0),
+        varint(message.role),
+        lengthDelimited(2, Buffer.from(message.content, 'utf-8'))
+      ])
+    )
+  );
+  fields.push(lengthDelimited(6, Buffer.from(DEVICE_TOKEN, 'utf-8')));
+  fields.push(lengthDelimited(7, Buffer.from(timestamp, 'utf-8')));
+  return Buffer.concat(fields);
+}
 
 /**
  * Generate HMAC signature for request
+ * HMAC-SHA256(message bytes without signature + timestamp)
  */
-function generateSignature(body, timestamp) {
-  const bodyText = JSON.stringify(body);
-  const payload = bodyText + timestamp;
+function generateSignature(messages, timestamp) {
+  const payload = Buffer.concat([
+    toUnsignedBinary(messages, timestamp),
+    Buffer.from(timestamp, 'utf-8')
+  ]);
   return crypto.createHmac('sha256', HMAC_SECRET)
     .update(payload)
     .digest('hex');
 }
 
 /**
- * Make authenticated request to API
+ * Generate a signature in the old timestamp-only scheme
+ * Still accepted (and logged as deprecated) until ACCEPT_LEGACY_SIGNATURES=false
  */
-async function makeRequest(endpoint, body, signature, timestamp) {
-  const headers = {
-    'Content-Type': 'application/json',
-    'X-Device-Token': DEVICE_TOKEN,
+function generateLegacySignature(timestamp) {
+  return crypto.createHmac('sha256', HMAC_SECRET)
+    .update(timestamp)
+    .digest('hex');
+}
+
+/**
+ * Make authenticated request to API (Connect protocol, JSON encoding)
+ * Auth fields travel in the request message, not in headers
+ */
+async function makeRequest(messages, signature, timestamp) {
+  const body = {
+    messages: messages.map((message) => ({
+      role: ROLE_NAMES[message.role],
+      content: message.content
+    })),
+    deviceToken: DEVICE_TOKEN
   };
 
-  if (signature) {
-    headers['X-Request-Signature'] = signature;
-  }
   if (timestamp) {
-    headers['X-Request-Timestamp'] = timestamp;
+    body.timestamp = timestamp;
+  }
+  if (signature) {
+    body.signature = signature;
   }
 
-  const response = await fetch(`${BASE_URL}${endpoint}`, {
+  const response = await fetch(`${BASE_URL}${ENDPOINT}`, {
     method: 'POST',
-    headers,
+    headers: {
+      'Content-Type': 'application/json',
+      'Connect-Protocol-Version': '1',
+    },
     body: JSON.stringify(body)
   });
 
@@ -82,20 +144,20 @@ async function runTests() {
   // Test 1: Valid signature
   console.log('\n1️⃣  Test: Valid signature (should succeed)');
   try {
-    const timestamp = Math.floor(Date.now() / 1000).toString();
-    const signature = generateSignature(testBody, timestamp);
+    const timestamp = Date.now().toString();
+    const signature = generateSignature(testMessages, timestamp);
 
     console.log(`   Timestamp: ${timestamp}`);
     console.log(`   Signature: ${signature.substring(0, 16)}...`);
 
-    const result = await makeRequest('/api/ai/chat/mini', testBody, signature, timestamp);
+    const result = await makeRequest(testMessages, signature, timestamp);
 
     if (result.status === 200) {
       console.log('   ✅ PASS: Request succeeded (status 200)');
       console.log(`   Response: ${result.body.choices?.[0]?.message?.content?.substring(0, 50) || 'N/A'}...`);
     } else {
       console.log(`   ❌ FAIL: Expected 200, got ${result.status}`);
-      console.log(`   Error: ${result.body.error || 'Unknown'}`);
+      console.log(`   Error: ${result.body.message || 'Unknown'}`);
     }
   } catch (error) {
     console.log(`   ❌ FAIL: ${error.message}`);
@@ -104,17 +166,17 @@ async function runTests() {
   // Test 2: Invalid signature
   console.log('\n2️⃣  Test: Invalid signature (should reject with 401)');
   try {
-    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const timestamp = Date.now().toString();
     const invalidSignature = 'invalid-signature-12345';
 
     console.log(`   Timestamp: ${timestamp}`);
     console.log(`   Signature: ${invalidSignature}`);
 
-    const result = await makeRequest('/api/ai/chat/mini', testBody, invalidSignature, timestamp);
+    const result = await makeRequest(testMessages, invalidSignature, timestamp);
 
     if (result.status === 401) {
       console.log('   ✅ PASS: Request rejected (status 401)');
-      console.log(`   Error: ${result.body.error}`);
+      console.log(`   Error: ${result.body.message}`);
     } else {
       console.log(`   ❌ FAIL: Expected 401, got ${result.status}`);
     }
@@ -125,11 +187,11 @@ async function runTests() {
   // Test 3: Missing signature
   console.log('\n3️⃣  Test: Missing signature (should reject with 401)');
   try {
-    const result = await makeRequest('/api/ai/chat/mini', testBody, null, null);
+    const result = await makeRequest(testMessages, null, null);
 
     if (result.status === 401) {
       console.log('   ✅ PASS: Request rejected (status 401)');
-      console.log(`   Error: ${result.body.error}`);
+      console.log(`   Error: ${result.body.message}`);
     } else {
       console.log(`   ❌ FAIL: Expected 401, got ${result.status}`);
     }
@@ -140,17 +202,17 @@ async function runTests() {
   // Test 4: Expired timestamp (6 minutes old)
   console.log('\n4️⃣  Test: Expired timestamp (should reject with 401)');
   try {
-    const expiredTimestamp = Math.floor((Date.now() - 6 * 60 * 1000) / 1000).toString();
-    const signature = generateSignature(testBody, expiredTimestamp);
+    const expiredTimestamp = (Date.now() - 6 * 60 * 1000).toString();
+    const signature = generateSignature(testMessages, expiredTimestamp);
 
     console.log(`   Timestamp: ${expiredTimestamp} (6 minutes ago)`);
     console.log(`   Signature: ${signature.substring(0, 16)}...`);
 
-    const result = await makeRequest('/api/ai/chat/mini', testBody, signature, expiredTimestamp);
+    const result = await makeRequest(testMessages, signature, expiredTimestamp);
 
     if (result.status === 401) {
       console.log('   ✅ PASS: Request rejected (status 401)');
-      console.log(`   Error: ${result.body.error}`);
+      console.log(`   Error: ${result.body.message}`);
     } else {
       console.log(`   ❌ FAIL: Expected 401, got ${result.status}`);
     }
@@ -161,17 +223,17 @@ async function runTests() {
   // Test 5: Future timestamp (should reject with 401)
   console.log('\n5️⃣  Test: Future timestamp (should reject with 401)');
   try {
-    const futureTimestamp = Math.floor((Date.now() + 5 * 60 * 1000) / 1000).toString();
-    const signature = generateSignature(testBody, futureTimestamp);
+    const futureTimestamp = (Date.now() + 6 * 60 * 1000).toString();
+    const signature = generateSignature(testMessages, futureTimestamp);
 
-    console.log(`   Timestamp: ${futureTimestamp} (10 seconds in future)`);
+    console.log(`   Timestamp: ${futureTimestamp} (6 minutes in future)`);
     console.log(`   Signature: ${signature.substring(0, 16)}...`);
 
-    const result = await makeRequest('/api/ai/chat/mini', testBody, signature, futureTimestamp);
+    const result = await makeRequest(testMessages, signature, futureTimestamp);
 
     if (result.status === 401) {
       console.log('   ✅ PASS: Request rejected (status 401)');
-      console.log(`   Error: ${result.body.error}`);
+      console.log(`   Error: ${result.body.message}`);
     } else {
       console.log(`   ❌ FAIL: Expected 401, got ${result.status}`);
     }
@@ -179,6 +241,27 @@ async function runTests() {
     console.log(`   ❌ FAIL: ${error.message}`);
   }
 
+  // Test 6: Timestamp-only signature from old builds
+  console.log('\n6️⃣  Test: Legacy timestamp-only signature (should succeed unless ACCEPT_LEGACY_SIGNATURES=false)');
+  try {
+    const timestamp = Date.now().toString();
+    const signature = generateLegacySignature(timestamp);
+
+    console.log(`   Timestamp: ${timestamp}`);
+    console.log(`   Signature: ${signature.substring(0, 16)}...`);
+
+    const result = await makeRequest(testMessages, signature, timestamp);
+
+    if (result.status === 200) {
+      console.log('   ✅ PASS: Request succeeded (status 200, logged as deprecated)');
+    } else {
+      console.log(`   ❌ FAIL: Expected 200, got ${result.status}`);
+      console.log(`   Error: ${result.body.message || 'Unknown'}`);
+    }
+  } catch (error) {
+    console.log(`   ❌ FAIL: ${error.message}`);
+  }
+
   console.log('\n' + '='.repeat(60));
   console.log('\n✨ Tests complete!\n');
 }
@@ -3,6 +3,16 @@
  */
 
 import { createHmac } from 'crypto';
+import type { Message } from '@bufbuild/protobuf';
+import {
+  createPromiseClient,
+  createRouterTransport,
+  type Interceptor,
+  type PromiseClient,
+} from '@connectrpc/connect';
+import { DEFAULT_RPC_DEADLINES_MS, RPC_DEADLINES } from '@/lib/deadlines';
+import { ChatService } from '@/lib/generated/repkit/ai/v1/api_connect';
+import { registerChatServiceHandlers } from '@/lib/handlers/chat-service';
 import {
   CreateChatCompletionRequest,
   ChatMessage,
@@ -51,6 +61,24 @@ export function createAuthenticatedRequest(
   return { req, signature, timestamp };
 }
 
+/**
+ * Set timestamp and signature on a request the way clients do
+ * Signs the proto binary message (with timestamp, without signature) + timestamp
+ * with the shared secret, or a device secret from RegisterDevice
+ */
+export function signRequest<T extends Message<T> & { timestamp?: string; signature?: string }>(
+  req: T,
+  timestamp: string = Date.now().toString(),
+  secret: string = process.env.HMAC_SECRET || 'change-me-in-prod'
+): T {
+  req.timestamp = timestamp;
+  req.signature = undefined;
+  const payload = Buffer.concat([req.toBinary(), Buffer.from(timestamp, 'utf-8')]);
+  req.signature = createHmac('sha256', secret).update(payload).digest('hex');
+
+  return req;
+}
+
 /**
  * Create a request with invalid signature for auth testing
  */
@@ -193,6 +221,32 @@ export function setupTestEnv(): void {
   process.env.HMAC_SECRET = 'test-secret-key-123';
   process.env.LOG_HASH_KEY = 'test-log-hash-key';
   process.env.OPENAI_API_KEY = 'sk-test-key-123';
+  // Route every model to the deterministic local provider (no network)
+  process.env.MODEL_PROVIDER = 'fake';
+}
+
+/**
+ * Restore the default RPC deadlines after a test shortened one
+ * (RPC_DEADLINES_MS is only read at startup)
+ */
+export function resetRpcDeadlines(): void {
+  for (const method of Object.keys(RPC_DEADLINES)) {
+    delete RPC_DEADLINES[method];
+  }
+  Object.assign(RPC_DEADLINES, DEFAULT_RPC_DEADLINES_MS);
+}
+
+/**
+ * Create an in-memory ChatService client backed by the real handlers
+ * Pass interceptors to exercise them in the same order as the API route
+ */
+export function createTestClient(
+  interceptors: Interceptor[] = []
+): PromiseClient<typeof ChatService> {
+  const transport = createRouterTransport(registerChatServiceHandlers, {
+    router: { interceptors },
+  });
+  return createPromiseClient(ChatService, transport);
 }
 
 /**
@@ -0,0 +1,318 @@
+/**
+ * Admin API route tests
+ * Tests bearer authentication, body validation, the entitlement and
+ * account link round-trips, and device revocation and reset
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { NextApiHandler, NextApiRequest, NextApiResponse } from 'next';
+import { Code, ConnectError } from '@connectrpc/connect';
+
+const deviceStore = vi.hoisted(() => ({ failing: false }));
+
+// Device writes that fail like an unreachable Redis while deviceStore.failing is set
+vi.mock('@/lib/devices', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/devices')>();
+  const unavailable = () => Promise.reject(new Error('connection reset'));
+  return {
+    ...actual,
+    revokeDevice: (deviceToken: string) =>
+      deviceStore.failing ? unavailable() : actual.revokeDevice(deviceToken),
+    resetDevice: (deviceToken: string) =>
+      deviceStore.failing ? unavailable() : actual.resetDevice(deviceToken),
+  };
+});
+
+import accountLinksRoute from '@/pages/api/admin/account-links';
+import devicesRoute from '@/pages/api/admin/devices';
+import entitlementsRoute from '@/pages/api/admin/entitlements';
+import { getEntitlements } from '@/lib/entitlements';
+import { authInterceptor } from '@/lib/interceptors/auth';
+import { logger } from '@/lib/utils/logger';
+import {
+  ChatMessage,
+  ChatMessage_Role,
+  CreateChatCompletionRequest,
+  ErrorInfo,
+  RegisterDeviceRequest,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import { createTestClient, setupTestEnv, signRequest } from '../helpers/test-utils';
+
+const ADMIN_KEY = 'test-admin-key';
+
+interface RouteResult {
+  status: number;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/**
+ * Call an admin route with a minimal request/response pair
+ * Pass null as authorization to send no Authorization header
+ */
+async function callRoute(
+  handler: NextApiHandler,
+  method: string,
+  body?: unknown,
+  authorization: string | null = `Bearer ${ADMIN_KEY}`
+): Promise<RouteResult> {
+  const result: RouteResult = { status: 200, body: undefined, headers: {} };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    json(value: unknown) {
+      result.body = value;
+    },
+    end() {},
+    setHeader(name: string, value: string) {
+      result.headers[name] = value;
+    },
+  };
+  const req = { method, body, headers: authorization !== null ? { authorization } : {} };
+
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return result;
+}
+
+describe('Admin API', () => {
+  beforeEach(() => {
+    process.env.ADMIN_API_KEY = ADMIN_KEY;
+    vi.spyOn(logger, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    delete process.env.ADMIN_API_KEY;
+    vi.restoreAllMocks();
+  });
+
+  describe('authentication', () => {
+    it.each([
+      ['entitlements', entitlementsRoute],
+      ['account-links', accountLinksRoute],
+      ['devices', devicesRoute],
+    ])('should answer 404 from %s when ADMIN_API_KEY is unset', async (_name, route) => {
+      delete process.env.ADMIN_API_KEY;
+
+      const result = await callRoute(route, 'PUT', { deviceToken: 'admin-device' });
+
+      expect(result.status).toBe(404);
+    });
+
+    it.each([
+      ['no Authorization header', null],
+      ['a wrong bearer token', 'Bearer not-the-admin-key'],
+      ['a wrong bearer token of the same length', 'Bearer test-admin-kez'],
+      ['the key without the Bearer prefix', ADMIN_KEY],
+    ])('should reject %s with 401', async (_name, authorization) => {
+      for (const route of [entitlementsRoute, accountLinksRoute, devicesRoute]) {
+        const result = await callRoute(
+          route,
+          'PUT',
+          { deviceToken: 'admin-device', plan: 'pro', accountId: 'acct' },
+          authorization
+        );
+
+        expect(result).toMatchObject({ status: 401, body: { error: 'Unauthorized' } });
+      }
+    });
+
+    it('should reject other methods with 405 and an Allow header', async () => {
+      const result = await callRoute(entitlementsRoute, 'GET');
+
+      expect(result).toMatchObject({ status: 405, headers: { Allow: 'PUT, DELETE' } });
+    });
+  });
+
+  describe('entitlements', () => {
+    it('should require a device or account', async () => {
+      const result = await callRoute(entitlementsRoute, 'PUT', { plan: 'pro' });
+
+      expect(result).toMatchObject({
+        status: 400,
+        body: { error: 'deviceToken or accountId is required' },
+      });
+    });
+
+    it.each([
+      ['an unknown plan', { plan: 'platinum' }],
+      ['a missing plan', {}],
+      ['a non-numeric expiry', { plan: 'pro', expiresAt: 'tomorrow' }],
+      ['a non-boolean subscription flag', { plan: 'pro', subscription: 'yes' }],
+    ])('should reject %s with 400', async (_name, fields) => {
+      const result = await callRoute(entitlementsRoute, 'PUT', {
+        deviceToken: 'admin-invalid-device',
+        ...fields,
+      });
+
+      expect(result.status).toBe(400);
+      expect(await getEntitlements('admin-invalid-device')).toMatchObject({ plan: 'free' });
+    });
+
+    it('should set and clear a device override', async () => {
+      const deviceToken = 'admin-override-device';
+
+      expect(await callRoute(entitlementsRoute, 'PUT', { deviceToken, plan: 'pro' })).toMatchObject({
+        status: 200,
+        body: { ok: true },
+      });
+      expect(await getEntitlements(deviceToken)).toMatchObject({ plan: 'pro' });
+
+      expect((await callRoute(entitlementsRoute, 'DELETE', { deviceToken })).status).toBe(200);
+      expect(await getEntitlements(deviceToken)).toMatchObject({ plan: 'free' });
+    });
+
+    it('should record subscriptions with their expiry', async () => {
+      const deviceToken = 'admin-subscription-device';
+      const now = Date.now();
+
+      await callRoute(entitlementsRoute, 'PUT', {
+        deviceToken,
+        plan: 'pro',
+        expiresAt: now + 60_000,
+        subscription: true,
+      });
+
+      expect(await getEntitlements(deviceToken, now)).toMatchObject({ plan: 'pro' });
+      expect(await getEntitlements(deviceToken, now + 120_000)).toMatchObject({ plan: 'free' });
+    });
+  });
+
+  describe('account links', () => {
+    it('should require a device token, and an account when linking', async () => {
+      expect(await callRoute(accountLinksRoute, 'PUT', { accountId: 'acct' })).toMatchObject({
+        status: 400,
+        body: { error: 'deviceToken is required' },
+      });
+      expect(
+        await callRoute(accountLinksRoute, 'PUT', { deviceToken: 'admin-link-device' })
+      ).toMatchObject({ status: 400, body: { error: 'accountId is required' } });
+    });
+
+    it('should apply the account plan to linked devices until unlinked', async () => {
+      const deviceToken = 'admin-linked-device';
+      const accountId = 'admin-account';
+      await callRoute(entitlementsRoute, 'PUT', { accountId, plan: 'pro' });
+
+      expect((await callRoute(accountLinksRoute, 'PUT', { deviceToken, accountId })).status).toBe(200);
+      expect(await getEntitlements(deviceToken)).toMatchObject({ plan: 'pro' });
+
+      expect((await callRoute(accountLinksRoute, 'DELETE', { deviceToken })).status).toBe(200);
+      expect(await getEntitlements(deviceToken)).toMatchObject({ plan: 'free' });
+    });
+  });
+
+  describe('devices', () => {
+    const register = async (deviceToken: string) => {
+      const client = createTestClient([authInterceptor]);
+      const response = await client.registerDevice(
+        signRequest(new RegisterDeviceRequest({ deviceToken }))
+      );
+      return response.deviceSecret;
+    };
+
+    const chatRequest = (deviceToken: string) =>
+      new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' })],
+        deviceToken,
+      });
+
+    const reasonOf = (error: unknown) =>
+      error instanceof ConnectError ? error.findDetails(ErrorInfo)[0]?.reason : undefined;
+
+    beforeEach(() => {
+      setupTestEnv();
+    });
+
+    afterEach(() => {
+      deviceStore.failing = false;
+    });
+
+    it('should reject other methods with 405 and an Allow header', async () => {
+      const result = await callRoute(devicesRoute, 'PUT', { deviceToken: 'admin-device' });
+
+      expect(result).toMatchObject({ status: 405, headers: { Allow: 'DELETE' } });
+    });
+
+    it.each([
+      ['a missing device token', {}, 'deviceToken is required'],
+      [
+        'a non-boolean reset flag',
+        { deviceToken: 'admin-device', reset: 'yes' },
+        'reset must be a boolean',
+      ],
+    ])('should reject %s with 400', async (_name, body, message) => {
+      const result = await callRoute(devicesRoute, 'DELETE', body);
+
+      expect(result).toMatchObject({ status: 400, body: { error: message } });
+    });
+
+    it('should answer 404 for unregistered devices', async () => {
+      for (const reset of [false, true]) {
+        const result = await callRoute(devicesRoute, 'DELETE', {
+          deviceToken: 'admin-unregistered-device',
+          reset,
+        });
+
+        expect(result).toMatchObject({ status: 404, body: { error: 'Device is not registered' } });
+      }
+    });
+
+    it('should reject a revoked device token, RegisterDevice included', async () => {
+      const deviceToken = 'admin-revoked-device';
+      const client = createTestClient([authInterceptor]);
+      const secret = await register(deviceToken);
+
+      expect(await callRoute(devicesRoute, 'DELETE', { deviceToken })).toMatchObject({
+        status: 200,
+        body: { ok: true },
+      });
+
+      const chatError = await client
+        .createMiniCompletion(signRequest(chatRequest(deviceToken), undefined, secret))
+        .catch((e: unknown) => ConnectError.from(e));
+      expect(chatError).toMatchObject({ code: Code.Unauthenticated });
+      expect(reasonOf(chatError)).toBe('DEVICE_REVOKED');
+
+      const registerError = await register(deviceToken).catch((e: unknown) => ConnectError.from(e));
+      expect(registerError).toMatchObject({ code: Code.Unauthenticated });
+      expect(reasonOf(registerError)).toBe('DEVICE_REVOKED');
+    });
+
+    it('should let a reset device token register again', async () => {
+      const deviceToken = 'admin-reset-device';
+      const client = createTestClient([authInterceptor]);
+      const previous = await register(deviceToken);
+      await callRoute(devicesRoute, 'DELETE', { deviceToken });
+
+      expect(await callRoute(devicesRoute, 'DELETE', { deviceToken, reset: true })).toMatchObject({
+        status: 200,
+        body: { ok: true },
+      });
+
+      const secret = await register(deviceToken);
+      expect(secret).not.toBe(previous);
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest(deviceToken), undefined, secret))
+      ).resolves.toBeDefined();
+    });
+
+    it('should answer 503 when the device store is unavailable', async () => {
+      const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+      deviceStore.failing = true;
+
+      for (const reset of [false, true]) {
+        const result = await callRoute(devicesRoute, 'DELETE', {
+          deviceToken: 'admin-store-down-device',
+          reset,
+        });
+
+        expect(result).toMatchObject({ status: 503, body: { error: 'Device store unavailable' } });
+      }
+      expect(error).toHaveBeenCalledWith('Device store unavailable', expect.any(Error), {
+        identifier: expect.stringMatching(/^token#/),
+      });
+    });
+  });
+});
@@ -3,18 +3,45 @@
  * Validates HMAC signature and timestamp verification
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createHmac } from 'crypto';
+import { Code, ConnectError } from '@connectrpc/connect';
+
+const deviceStore = vi.hoisted(() => ({ failing: false }));
+
+// Device lookups that fail like an unreachable Redis while deviceStore.failing is set
+vi.mock('@/lib/devices', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/devices')>();
+  return {
+    ...actual,
+    getDevice: async (deviceToken: string) => {
+      if (deviceStore.failing) {
+        throw new Error('connection reset');
+      }
+      return actual.getDevice(deviceToken);
+    },
+  };
+});
+
+import { authInterceptor } from '@/lib/interceptors/auth';
+import { resetDevice, revokeDevice } from '@/lib/devices';
+import { loggingInterceptor } from '@/lib/interceptors/logging';
+import { logger } from '@/lib/utils/logger';
 import {
   CreateChatCompletionRequest,
   ChatMessage,
   ChatMessage_Role,
+  ErrorInfo,
+  RegisterDeviceRequest,
+  RotateDeviceSecretRequest,
 } from '@/lib/generated/repkit/ai/v1/api_pb';
 import {
   createAuthenticatedRequest,
   createInvalidSignatureRequest,
   createExpiredTimestampRequest,
+  createTestClient,
   setupTestEnv,
+  signRequest,
 } from '../helpers/test-utils';
 
 describe('Authentication Interceptor', () => {
@@ -394,4 +421,393 @@ describe('Authentication Interceptor', () => {
       expect(timestamp2).toBeTruthy();
     });
   });
+
+  describe('Interceptor (signed requests)', () => {
+    const signedRequest = () =>
+      signRequest(
+        new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' })],
+          deviceToken: 'test-device-token',
+          idempotencyKey: 'retry-key-1',
+        })
+      );
+
+    it('should accept a correctly signed request', async () => {
+      const client = createTestClient([authInterceptor]);
+
+      const response = await client.createMiniCompletion(signedRequest());
+
+      expect(response.choices[0].message?.content).toContain('Hello');
+    });
+
+    it('should reject a request whose payload changed after signing', async () => {
+      const client = createTestClient([authInterceptor]);
+      const request = signedRequest();
+      request.messages[0].content = 'Hello (tampered)';
+
+      await expect(client.createMiniCompletion(request)).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+      });
+    });
+
+    it('should cover the idempotency key with the signature', async () => {
+      const client = createTestClient([authInterceptor]);
+      const request = signedRequest();
+      request.idempotencyKey = 'retry-key-2';
+
+      await expect(client.createMiniCompletion(request)).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+        rawMessage: expect.stringContaining('invalid signature'),
+      });
+    });
+  });
+
+  describe('Legacy signatures', () => {
+    // Builds from before message signing signed only the timestamp
+    const legacyRequest = (keyId?: string) => {
+      const timestamp = Date.now().toString();
+      return new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' })],
+        deviceToken: 'legacy-device',
+        keyId,
+        timestamp,
+        signature: createHmac('sha256', process.env.HMAC_SECRET!).update(timestamp).digest('hex'),
+      });
+    };
+
+    afterEach(() => {
+      delete process.env.ACCEPT_LEGACY_SIGNATURES;
+      delete process.env.HMAC_KEYS;
+    });
+
+    it('should accept timestamp-only signatures and log them as deprecated', async () => {
+      const client = createTestClient([authInterceptor]);
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+
+      try {
+        await expect(client.createMiniCompletion(legacyRequest())).resolves.toBeDefined();
+        expect(warn).toHaveBeenCalledWith(
+          'Deprecated signature scheme used',
+          expect.objectContaining({ method: 'CreateMiniCompletion' })
+        );
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should reject them once ACCEPT_LEGACY_SIGNATURES is false', async () => {
+      process.env.ACCEPT_LEGACY_SIGNATURES = 'false';
+      const client = createTestClient([authInterceptor]);
+
+      await expect(client.createMiniCompletion(legacyRequest())).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+        rawMessage: expect.stringContaining('invalid signature'),
+      });
+    });
+
+    it('should only accept them for HMAC_SECRET', async () => {
+      process.env.HMAC_KEYS = `k2=${process.env.HMAC_SECRET}`;
+      const client = createTestClient([authInterceptor]);
+
+      await expect(client.createMiniCompletion(legacyRequest('k2'))).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+        rawMessage: expect.stringContaining('invalid signature'),
+      });
+    });
+  });
+
+  describe('Device registration', () => {
+    const chatRequest = (deviceToken?: string) =>
+      new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' })],
+        deviceToken,
+      });
+
+    const register = async (deviceToken: string) => {
+      const client = createTestClient([authInterceptor]);
+      const response = await client.registerDevice(
+        signRequest(new RegisterDeviceRequest({ deviceToken }))
+      );
+      return response.deviceSecret;
+    };
+
+    const reasonOf = (error: unknown) =>
+      error instanceof ConnectError ? error.findDetails(ErrorInfo)[0]?.reason : undefined;
+
+    afterEach(() => {
+      delete process.env.REQUIRE_DEVICE_REGISTRATION;
+    });
+
+    it('should verify registered devices with their own secret', async () => {
+      const client = createTestClient([authInterceptor]);
+      const secret = await register('registered-device');
+
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('registered-device'), undefined, secret))
+      ).resolves.toBeDefined();
+    });
+
+    it('should stop accepting the shared secret once a device registers', async () => {
+      const client = createTestClient([authInterceptor]);
+      await register('registered-device-shared');
+
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('registered-device-shared')))
+      ).rejects.toMatchObject({ code: Code.Unauthenticated });
+    });
+
+    it('should not accept one device secret for another device', async () => {
+      const client = createTestClient([authInterceptor]);
+      const secret = await register('registered-device-1');
+      await register('registered-device-2');
+
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('registered-device-2'), undefined, secret))
+      ).rejects.toMatchObject({ code: Code.Unauthenticated });
+    });
+
+    it('should refuse to register a device twice', async () => {
+      await register('registered-device-twice');
+
+      await expect(register('registered-device-twice')).rejects.toMatchObject({
+        code: Code.AlreadyExists,
+      });
+    });
+
+    it('should reject revoked devices with DEVICE_REVOKED', async () => {
+      const client = createTestClient([authInterceptor]);
+      const secret = await register('revoked-device');
+      await revokeDevice('revoked-device');
+
+      const error = await client
+        .createMiniCompletion(signRequest(chatRequest('revoked-device'), undefined, secret))
+        .catch((e: unknown) => ConnectError.from(e));
+
+      expect(error).toMatchObject({ code: Code.Unauthenticated });
+      expect(reasonOf(error)).toBe('DEVICE_REVOKED');
+    });
+
+    it('should not let revoked devices register again until they are reset', async () => {
+      await register('revoked-device-again');
+      await revokeDevice('revoked-device-again');
+
+      const error = await register('revoked-device-again').catch((e: unknown) => ConnectError.from(e));
+
+      expect(error).toMatchObject({ code: Code.Unauthenticated });
+      expect(reasonOf(error)).toBe('DEVICE_REVOKED');
+
+      await resetDevice('revoked-device-again');
+      await expect(register('revoked-device-again')).resolves.toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should fail closed when the device store cannot be read', async () => {
+      const client = createTestClient([authInterceptor]);
+      const error = vi.spyOn(logger, 'error').mockImplementation(() => {});
+      deviceStore.failing = true;
+      try {
+        await expect(
+          client.createMiniCompletion(signRequest(chatRequest('device-store-down')))
+        ).rejects.toMatchObject({ code: Code.Unavailable });
+      } finally {
+        deviceStore.failing = false;
+        error.mockRestore();
+      }
+    });
+
+    it('should rotate a device secret with a request signed by the current one', async () => {
+      const client = createTestClient([authInterceptor]);
+      const previous = await register('rotated-device');
+      const rotate = (secret?: string) =>
+        client.rotateDeviceSecret(
+          signRequest(new RotateDeviceSecretRequest({ deviceToken: 'rotated-device' }), undefined, secret)
+        );
+
+      // The shared secret can't take over a registered device
+      await expect(rotate()).rejects.toMatchObject({ code: Code.Unauthenticated });
+
+      const { deviceSecret } = await rotate(previous);
+
+      expect(deviceSecret).not.toBe(previous);
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('rotated-device'), undefined, deviceSecret))
+      ).resolves.toBeDefined();
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('rotated-device'), undefined, previous))
+      ).rejects.toMatchObject({ code: Code.Unauthenticated });
+    });
+
+    it('should let a reset device token register again', async () => {
+      await register('reset-device');
+      await resetDevice('reset-device');
+
+      await expect(register('reset-device')).resolves.toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should accept unregistered devices with the shared secret by default', async () => {
+      const client = createTestClient([authInterceptor]);
+
+      await expect(
+        client.createMiniCompletion(signRequest(chatRequest('unregistered-device')))
+      ).resolves.toBeDefined();
+    });
+
+    it('should reject unregistered devices when registration is required', async () => {
+      process.env.REQUIRE_DEVICE_REGISTRATION = 'true';
+      const client = createTestClient([authInterceptor]);
+
+      const errors = await Promise.all(
+        [chatRequest('unregistered-device-required'), chatRequest()].map((request) =>
+          client.createMiniCompletion(signRequest(request)).catch((e: unknown) => ConnectError.from(e))
+        )
+      );
+
+      expect(errors.map(reasonOf)).toEqual(['DEVICE_NOT_REGISTERED', 'DEVICE_NOT_REGISTERED']);
+
+      // Registration itself is still possible
+      const secret = await register('unregistered-device-required');
+      await expect(
+        client.createMiniCompletion(
+          signRequest(chatRequest('unregistered-device-required'), undefined, secret)
+        )
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('Key rotation', () => {
+    const keyedRequest = (keyId: string | undefined, secret: string) =>
+      signRequest(
+        new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' })],
+          deviceToken: 'rotating-device',
+          keyId,
+        }),
+        undefined,
+        secret
+      );
+
+    beforeEach(() => {
+      process.env.HMAC_KEYS = 'k2=secret-2';
+      process.env.HMAC_RETIRING_KEYS = 'k1=secret-1';
+    });
+
+    afterEach(() => {
+      delete process.env.HMAC_KEYS;
+      delete process.env.HMAC_RETIRING_KEYS;
+    });
+
+    it('should verify with the key named by key_id', async () => {
+      const client = createTestClient([authInterceptor]);
+
+      await expect(client.createMiniCompletion(keyedRequest('k2', 'secret-2'))).resolves.toBeDefined();
+      await expect(client.createMiniCompletion(keyedRequest('k2', 'secret-1'))).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+      });
+    });
+
+    it('should reject unknown key ids', async () => {
+      const client = createTestClient([authInterceptor]);
+
+      await expect(client.createMiniCompletion(keyedRequest('k9', 'secret-2'))).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+        rawMessage: expect.stringContaining('unknown signing key'),
+      });
+    });
+
+    it('should log retiring keys and the legacy key as deprecated', async () => {
+      const client = createTestClient([authInterceptor]);
+      const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {});
+
+      try {
+        await client.createMiniCompletion(keyedRequest('k2', 'secret-2'));
+        expect(warn).not.toHaveBeenCalled();
+
+        await client.createMiniCompletion(keyedRequest('k1', 'secret-1'));
+        await client.createMiniCompletion(keyedRequest(undefined, 'test-secret-key-123'));
+
+        expect(warn.mock.calls).toEqual([
+          ['Deprecated signing key used', expect.objectContaining({ key_id: 'k1' })],
+          ['Deprecated signing key used', expect.objectContaining({ key_id: 'legacy' })],
+        ]);
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should record the signing key in the request log', async () => {
+      const client = createTestClient([authInterceptor, loggingInterceptor]);
+      const info = vi.spyOn(logger, 'info').mockImplementation(() => {});
+
+      try {
+        await client.createMiniCompletion(keyedRequest('k2', 'secret-2'));
+
+        expect(info).toHaveBeenCalledWith(
+          'API Request completed',
+          expect.objectContaining({ signingKey: 'k2' })
+        );
+      } finally {
+        info.mockRestore();
+      }
+    });
+  });
+
+  describe('Replay protection', () => {
+    const replayRequest = (content: string) =>
+      new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content })],
+        deviceToken: 'replay-device',
+      });
+
+    const reasonOf = (error: unknown) =>
+      error instanceof ConnectError ? error.findDetails(ErrorInfo)[0]?.reason : undefined;
+
+    it('should reject a repeat of an accepted request with REQUEST_REPLAYED', async () => {
+      const client = createTestClient([authInterceptor]);
+      const request = signRequest(replayRequest('Replay me'));
+
+      await client.createMiniCompletion(request);
+      const error = await client
+        .createMiniCompletion(request)
+        .catch((e: unknown) => ConnectError.from(e));
+
+      expect(error).toMatchObject({ code: Code.Unauthenticated });
+      expect(reasonOf(error)).toBe('REQUEST_REPLAYED');
+    });
+
+    it('should accept only one of concurrent duplicates', async () => {
+      const client = createTestClient([authInterceptor]);
+      const request = signRequest(replayRequest('Replay me concurrently'));
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => client.createMiniCompletion(request))
+      );
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(
+        results.map((result) => (result.status === 'rejected' ? reasonOf(result.reason) : 'ok')).sort()
+      ).toEqual(['REQUEST_REPLAYED', 'REQUEST_REPLAYED', 'REQUEST_REPLAYED', 'REQUEST_REPLAYED', 'ok']);
+    });
+
+    it('should accept a retry signed again with a new timestamp', async () => {
+      const client = createTestClient([authInterceptor]);
+      const timestamp = Date.now();
+
+      await client.createMiniCompletion(signRequest(replayRequest('Retry me'), String(timestamp)));
+
+      await expect(
+        client.createMiniCompletion(signRequest(replayRequest('Retry me'), String(timestamp + 1)))
+      ).resolves.toBeDefined();
+    });
+
+    it('should not record requests that fail verification', async () => {
+      const client = createTestClient([authInterceptor]);
+      const request = signRequest(replayRequest('Tampered first'));
+      const tampered = request.clone();
+      tampered.messages[0].content = 'Tampered';
+
+      await expect(client.createMiniCompletion(tampered)).rejects.toMatchObject({
+        code: Code.Unauthenticated,
+      });
+      await expect(client.createMiniCompletion(request)).resolves.toBeDefined();
+    });
+  });
 });
@@ -7,14 +7,30 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { Code, ConnectError } from '@connectrpc/connect';
 import {
   CreateChatCompletionRequest,
+  CreateChatCompletionRequest_CacheMode,
   ChatMessage,
   ChatMessage_Role,
+  ContentPart,
+  CreateConversationRequest,
+  ErrorInfo,
+  ImagePart,
+  PromptTemplateRef,
+  PromptVariable,
   ToolChoice,
 } from '@/lib/generated/repkit/ai/v1/api_pb';
+import { RPC_DEADLINES } from '@/lib/deadlines';
+import { setEntitlementOverride } from '@/lib/entitlements';
+import { loggingInterceptor } from '@/lib/interceptors/logging';
+import { DEFAULT_FALLBACKS, FALLBACKS } from '@/lib/models';
+import { fakeProvider } from '@/lib/providers/fake';
+import { MAX_IMAGES_PER_REQUEST } from '@/lib/validators/content';
+import { logger } from '@/lib/utils/logger';
 import {
   createAuthenticatedRequest,
   createRequestWithTools,
   createMultiMessageRequest,
+  createTestClient,
+  resetRpcDeadlines,
   setupTestEnv,
 } from '../helpers/test-utils';
 import { mockChatCompletionResponse, mockToolCallResponse } from '../fixtures/mock-openai';
@@ -496,4 +512,882 @@ describe('Chat Service Integration Tests', () => {
       // Handler would use 2000 as default
     });
   });
+
+  describe('Handlers (fake provider)', () => {
+    const userRequest = (content: string) =>
+      new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content })],
+      });
+
+    // Device on the Pro plan (gpt-5.2 is the standard default)
+    const PRO_DEVICE = 'pro-device';
+    const proRequest = (content: string) => {
+      const request = userRequest(content);
+      request.deviceToken = PRO_DEVICE;
+      return request;
+    };
+
+    beforeEach(async () => {
+      await setEntitlementOverride({ deviceToken: PRO_DEVICE }, { plan: 'pro' });
+    });
+
+    it('should return a completion from createStandardCompletion', async () => {
+      const client = createTestClient();
+      const response = await client.createStandardCompletion(proRequest('Plan my leg day'));
+
+      expect(response.model).toBe('gpt-5.2');
+      expect(response.choices[0].message?.content).toContain('Plan my leg day');
+      expect(response.usage?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should default createMiniCompletion to gpt-4o-mini', async () => {
+      const client = createTestClient();
+      const response = await client.createMiniCompletion(userRequest('Rest time?'));
+
+      expect(response.model).toBe('gpt-4o-mini');
+    });
+
+    it('should stream chunks with a final usage chunk', async () => {
+      const client = createTestClient();
+      const chunks = [];
+      for await (const chunk of client.streamMiniCompletion(userRequest('Next set?'))) {
+        chunks.push(chunk);
+      }
+
+      const content = chunks.map((c) => c.choices[0]?.delta?.content ?? '').join('');
+      expect(chunks[0].model).toBe('gpt-4o-mini');
+      expect(content).toContain('Next set?');
+      expect(chunks.at(-1)?.usage?.totalTokens).toBeGreaterThan(0);
+    });
+
+    it('should accept a model override allowed for the tier', async () => {
+      const client = createTestClient();
+      const request = userRequest('Swap exercise?');
+      request.model = 'gpt-5-mini';
+
+      const response = await client.createMiniCompletion(request);
+
+      expect(response.model).toBe('gpt-5-mini');
+    });
+
+    it('should reject unknown models with InvalidArgument', async () => {
+      const client = createTestClient();
+      const request = userRequest('Hello');
+      request.model = 'gpt-3.5-turbo';
+
+      await expect(client.createStandardCompletion(request)).rejects.toMatchObject({
+        code: Code.InvalidArgument,
+        rawMessage: expect.stringContaining('Unknown model "gpt-3.5-turbo"'),
+      });
+    });
+
+    it('should reject models not allowed for the mini tier', async () => {
+      const client = createTestClient();
+      const request = userRequest('Hello');
+      request.model = 'gpt-5.2';
+
+      await expect(async () => {
+        for await (const chunk of client.streamMiniCompletion(request)) {
+          expect(chunk).toBeUndefined();
+        }
+      }).rejects.toMatchObject({
+        code: Code.InvalidArgument,
+        rawMessage: expect.stringContaining('not available for mini completions'),
+      });
+    });
+
+    it('should report the requested and served model', async () => {
+      const client = createTestClient();
+      const response = await client.createStandardCompletion(proRequest('Hello'));
+
+      expect(response.metadata).toMatchObject({
+        requestedModel: 'gpt-5.2',
+        servedModel: 'gpt-5.2',
+        fallbackUsed: false,
+      });
+    });
+
+    it('should fall back to the next model on repeated upstream errors', async () => {
+      const client = createTestClient();
+      const response = await client.createStandardCompletion(
+        proRequest('Plan my deload [fake-error:503@gpt-5.2]')
+      );
+
+      expect(response.model).toBe('gpt-5-mini');
+      expect(response.metadata).toMatchObject({
+        requestedModel: 'gpt-5.2',
+        servedModel: 'gpt-5-mini',
+        fallbackUsed: true,
+      });
+    });
+
+    it('should only use fallbacks allowed for the tier', async () => {
+      FALLBACKS['gpt-5-mini'] = ['gpt-5.2', 'gpt-4o-mini'];
+      try {
+        const client = createTestClient();
+        const request = userRequest('Hi [fake-error:500@gpt-5-mini]');
+        request.model = 'gpt-5-mini';
+
+        const chunks = [];
+        for await (const chunk of client.streamMiniCompletion(request)) {
+          chunks.push(chunk);
+        }
+
+        expect(chunks[0].metadata).toMatchObject({
+          servedModel: 'gpt-4o-mini',
+          fallbackUsed: true,
+        });
+        expect(chunks.slice(1).every((chunk) => chunk.metadata === undefined)).toBe(true);
+      } finally {
+        FALLBACKS['gpt-5-mini'] = DEFAULT_FALLBACKS['gpt-5-mini'];
+      }
+    });
+
+    it('should map client cancellation to Canceled', async () => {
+      const client = createTestClient();
+      const controller = new AbortController();
+
+      await expect(async () => {
+        for await (const chunk of client.streamStandardCompletion(userRequest('Long plan please'), {
+          signal: controller.signal,
+        })) {
+          expect(chunk).toBeDefined();
+          controller.abort();
+        }
+      }).rejects.toMatchObject({ code: Code.Canceled });
+    });
+
+    it('should fail with DeadlineExceeded when the RPC deadline passes', async () => {
+      RPC_DEADLINES.CreateMiniCompletion = 50;
+      try {
+        const client = createTestClient();
+
+        await expect(
+          client.createMiniCompletion(userRequest('Slow reply [fake-delay:1000]'))
+        ).rejects.toMatchObject({
+          code: Code.DeadlineExceeded,
+          rawMessage: expect.stringContaining('50ms deadline'),
+        });
+      } finally {
+        resetRpcDeadlines();
+      }
+    });
+
+    it('should apply the deadline to the whole stream', async () => {
+      RPC_DEADLINES.StreamMiniCompletion = 100;
+      try {
+        const client = createTestClient();
+        const chunks = [];
+
+        await expect(async () => {
+          for await (const chunk of client.streamMiniCompletion(
+            userRequest('Slow stream [fake-delay:40]')
+          )) {
+            chunks.push(chunk);
+          }
+        }).rejects.toMatchObject({ code: Code.DeadlineExceeded });
+        expect(chunks.length).toBeGreaterThan(0);
+      } finally {
+        resetRpcDeadlines();
+      }
+    });
+
+    it('should log an estimated usage for streams that end before the usage chunk', async () => {
+      RPC_DEADLINES.StreamMiniCompletion = 100;
+      const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+      try {
+        const client = createTestClient([loggingInterceptor]);
+
+        await expect(async () => {
+          for await (const chunk of client.streamMiniCompletion(
+            userRequest('Slow stream [fake-delay:40]')
+          )) {
+            expect(chunk.usage).toBeUndefined();
+          }
+        }).rejects.toMatchObject({ code: Code.DeadlineExceeded });
+
+        expect(errorSpy).toHaveBeenCalledWith(
+          'API Request failed',
+          expect.anything(),
+          expect.objectContaining({
+            model: 'gpt-4o-mini',
+            usageEstimated: true,
+            promptTokens: expect.any(Number),
+            completionTokens: expect.any(Number),
+            cost: expect.stringMatching(/^\$\d+\.\d{6}$/),
+          })
+        );
+        const [, , details] = errorSpy.mock.calls[0];
+        expect(details).toMatchObject({ streamed: true });
+        expect(Number(details?.completionTokens)).toBeGreaterThan(0);
+      } finally {
+        errorSpy.mockRestore();
+        resetRpcDeadlines();
+      }
+    });
+
+    it('should serve repeated deterministic requests from the cache', async () => {
+      const client = createTestClient();
+      const request = userRequest('Classify: Bulgarian split squat');
+      request.temperature = 0;
+
+      const first = await client.createMiniCompletion(request);
+      const second = await client.createMiniCompletion(request);
+
+      expect(first.metadata?.cacheHit).toBe(false);
+      expect(second.metadata?.cacheHit).toBe(true);
+      expect(second.choices[0].message?.content).toBe(first.choices[0].message?.content);
+    });
+
+    it('should respect cache opt-in and opt-out', async () => {
+      const client = createTestClient();
+      const optIn = userRequest('Classify: face pull');
+      optIn.cacheMode = CreateChatCompletionRequest_CacheMode.ENABLED;
+      const optOut = userRequest('Classify: lat pulldown');
+      optOut.temperature = 0;
+      optOut.cacheMode = CreateChatCompletionRequest_CacheMode.DISABLED;
+
+      await client.createMiniCompletion(optIn);
+      await client.createMiniCompletion(optOut);
+
+      expect((await client.createMiniCompletion(optIn)).metadata?.cacheHit).toBe(true);
+      expect((await client.createMiniCompletion(optOut)).metadata?.cacheHit).toBe(false);
+    });
+
+    it('should not cache non-deterministic requests by default', async () => {
+      const client = createTestClient();
+      const request = userRequest('Motivate me');
+
+      await client.createMiniCompletion(request);
+      const second = await client.createMiniCompletion(request);
+
+      expect(second.metadata?.cacheHit).toBe(false);
+    });
+
+    describe('prompt templates', () => {
+      const templateRequest = () => {
+        const request = userRequest('Build my program');
+        request.promptTemplate = new PromptTemplateRef({
+          id: 'program_generator@1',
+          variables: {
+            goal: new PromptVariable({ value: { case: 'stringValue', value: 'strength' } }),
+            experience: new PromptVariable({ value: { case: 'stringValue', value: 'beginner' } }),
+            days_per_week: new PromptVariable({ value: { case: 'numberValue', value: 3 } }),
+          },
+        });
+        return request;
+      };
+
+      it('should render the template as the first system message', async () => {
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          await client.createStandardCompletion(templateRequest());
+
+          const [, sent] = spy.mock.calls[0];
+          expect(sent.messages).toHaveLength(2);
+          expect(sent.messages[0].role).toBe('system');
+          expect(sent.messages[0].content).toContain('beginner lifter whose goal is strength');
+          expect(sent.messages[0].content).toContain('3 days per week for about 60 minutes');
+          expect(sent.messages[1]).toMatchObject({ role: 'user', content: 'Build my program' });
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should log the template name and version', async () => {
+        const info = vi.spyOn(logger, 'info').mockImplementation(() => {});
+        try {
+          const client = createTestClient([loggingInterceptor]);
+          await client.createStandardCompletion(templateRequest());
+
+          expect(info).toHaveBeenCalledWith(
+            'API Request completed',
+            expect.objectContaining({ promptTemplate: 'program_generator', promptTemplateVersion: 1 })
+          );
+        } finally {
+          info.mockRestore();
+        }
+      });
+
+      it('should reject unknown templates', async () => {
+        const client = createTestClient();
+        const request = templateRequest();
+        request.promptTemplate!.id = 'program_generator@99';
+
+        await expect(client.createStandardCompletion(request)).rejects.toMatchObject({
+          code: Code.InvalidArgument,
+          rawMessage: expect.stringContaining('Unknown prompt template "program_generator@99"'),
+        });
+      });
+
+      it('should reject variables of the wrong type', async () => {
+        const client = createTestClient();
+        const request = templateRequest();
+        request.promptTemplate!.variables.days_per_week = new PromptVariable({
+          value: { case: 'stringValue', value: 'three' },
+        });
+
+        await expect(async () => {
+          for await (const chunk of client.streamStandardCompletion(request)) {
+            expect(chunk).toBeUndefined();
+          }
+        }).rejects.toMatchObject({
+          code: Code.InvalidArgument,
+          rawMessage: expect.stringContaining('"days_per_week" must be a number'),
+        });
+      });
+    });
+
+    describe('conversations', () => {
+      const deviceToken = 'conversation-device';
+
+      const startConversation = async (client: ReturnType<typeof createTestClient>) => {
+        const { conversationId } = await client.createConversation(
+          new CreateConversationRequest({
+            messages: [new ChatMessage({ role: ChatMessage_Role.SYSTEM, content: 'Be brief.' })],
+            deviceToken,
+          })
+        );
+        return conversationId;
+      };
+
+      const turn = (conversationId: string, content: string) => {
+        const request = userRequest(content);
+        request.conversationId = conversationId;
+        request.deviceToken = deviceToken;
+        return request;
+      };
+
+      it('should send the stored history with each new message', async () => {
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          const conversationId = await startConversation(client);
+
+          await client.createMiniCompletion(turn(conversationId, 'First question'));
+          await client.createMiniCompletion(turn(conversationId, 'Second question'));
+
+          const [, sent] = spy.mock.calls[1];
+          expect(sent.messages.map((m) => m.role)).toEqual([
+            'system',
+            'user',
+            'assistant',
+            'user',
+          ]);
+          expect(sent.messages[1].content).toBe('First question');
+          expect(sent.messages[2].content).toContain('First question');
+          expect(sent.messages[3].content).toBe('Second question');
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should store streamed replies', async () => {
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          const conversationId = await startConversation(client);
+
+          const streamed = [];
+          for await (const chunk of client.streamMiniCompletion(
+            turn(conversationId, 'Streamed question')
+          )) {
+            streamed.push(chunk.choices[0]?.delta?.content ?? '');
+          }
+          await client.createMiniCompletion(turn(conversationId, 'Follow-up'));
+
+          const [, sent] = spy.mock.calls[0];
+          expect(sent.messages[2]).toMatchObject({
+            role: 'assistant',
+            content: streamed.join(''),
+          });
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should not store failed exchanges', async () => {
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          const conversationId = await startConversation(client);
+
+          await expect(
+            client.createMiniCompletion(turn(conversationId, '[fake-error:400]'))
+          ).rejects.toMatchObject({ code: Code.InvalidArgument });
+          await client.createMiniCompletion(turn(conversationId, 'Try again'));
+
+          const [, sent] = spy.mock.calls.at(-1)!;
+          expect(sent.messages.map((m) => m.content)).toEqual(['Be brief.', 'Try again']);
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should return NotFound for unknown conversations and other devices', async () => {
+        const client = createTestClient();
+        const conversationId = await startConversation(client);
+        const otherDevice = turn(conversationId, 'Hello');
+        otherDevice.deviceToken = 'other-device';
+
+        await expect(
+          client.createMiniCompletion(turn('00000000-0000-0000-0000-000000000000', 'Hello'))
+        ).rejects.toMatchObject({ code: Code.NotFound });
+        await expect(client.createMiniCompletion(otherDevice)).rejects.toMatchObject({
+          code: Code.NotFound,
+        });
+      });
+
+      it('should reject requests beyond the message limit', async () => {
+        const client = createTestClient();
+        const { conversationId } = await client.createConversation(
+          new CreateConversationRequest({
+            messages: Array.from(
+              { length: 199 },
+              () => new ChatMessage({ role: ChatMessage_Role.USER, content: 'set' })
+            ),
+            deviceToken,
+          })
+        );
+
+        await expect(
+          client.createMiniCompletion(turn(conversationId, 'One more'))
+        ).rejects.toMatchObject({ code: Code.FailedPrecondition });
+      });
+
+      describe('images in the history', () => {
+        const imagePart = () =>
+          new ContentPart({
+            part: {
+              case: 'image',
+              value: new ImagePart({ source: { case: 'url', value: 'https://example.com/rack.png' } }),
+            },
+          });
+
+        const imageTurn = (conversationId: string, text?: string) => {
+          const request = turn(conversationId, '');
+          request.messages[0].contentParts = text
+            ? [new ContentPart({ part: { case: 'text', value: text } }), imagePart()]
+            : [imagePart()];
+          return request;
+        };
+
+        it('should ask for a new conversation once the images sent exceed the limit', async () => {
+          const client = createTestClient();
+          const conversationId = await startConversation(client);
+
+          for (let i = 0; i < MAX_IMAGES_PER_REQUEST; i++) {
+            await client.createMiniCompletion(imageTurn(conversationId));
+          }
+
+          const error = await client
+            .createMiniCompletion(imageTurn(conversationId))
+            .catch((e: unknown) => e);
+
+          const connectError = ConnectError.from(error);
+          expect(connectError.code).toBe(Code.FailedPrecondition);
+          expect(connectError.findDetails(ErrorInfo)[0]).toMatchObject({
+            reason: 'CONVERSATION_IMAGE_LIMIT',
+            metadata: { max_images: String(MAX_IMAGES_PER_REQUEST) },
+          });
+        });
+
+        it('should not count images that context trimming drops', async () => {
+          // Two turns of this size exceed gpt-4o-mini's context budget
+          const longText = 'x'.repeat(300_000);
+          const client = createTestClient();
+          const conversationId = await startConversation(client);
+
+          for (let i = 0; i < MAX_IMAGES_PER_REQUEST; i++) {
+            await client.createMiniCompletion(imageTurn(conversationId));
+          }
+          await client.createMiniCompletion(turn(conversationId, longText));
+
+          const response = await client.createMiniCompletion(imageTurn(conversationId, longText));
+
+          expect(response.metadata?.messagesDropped).toBeGreaterThanOrEqual(MAX_IMAGES_PER_REQUEST);
+        });
+      });
+    });
+
+    describe('context window', () => {
+      // gpt-4o-mini budget: 128k window less 5% margin and 2000 max_tokens ≈ 119.6k tokens
+      const longText = 'x'.repeat(300_000);
+
+      it('should drop the oldest history and report it', async () => {
+        const client = createTestClient();
+        const request = new CreateChatCompletionRequest({
+          messages: [
+            new ChatMessage({ role: ChatMessage_Role.SYSTEM, content: 'Be brief.' }),
+            new ChatMessage({ role: ChatMessage_Role.USER, content: longText }),
+            new ChatMessage({ role: ChatMessage_Role.ASSISTANT, content: 'Noted.' }),
+            new ChatMessage({ role: ChatMessage_Role.USER, content: longText }),
+            new ChatMessage({ role: ChatMessage_Role.USER, content: 'Latest question' }),
+          ],
+        });
+
+        const response = await client.createMiniCompletion(request);
+
+        expect(response.metadata?.messagesDropped).toBe(1);
+      });
+
+      it('should reject requests whose latest turn exceeds the context window', async () => {
+        const client = createTestClient();
+
+        await expect(
+          client.createMiniCompletion(userRequest('x'.repeat(600_000)))
+        ).rejects.toMatchObject({
+          code: Code.InvalidArgument,
+          rawMessage: expect.stringContaining('Request too large for gpt-4o-mini'),
+        });
+      });
+    });
+
+    describe('moderation', () => {
+      it('should reject flagged requests with a reason and skip the model call', async () => {
+        const completionSpy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        const errorSpy = vi.spyOn(logger, 'error').mockImplementation(() => {});
+        try {
+          const client = createTestClient([loggingInterceptor]);
+          const error = await client
+            .createStandardCompletion(userRequest('Help me [fake-flag:violence]'))
+            .catch((e: unknown) => e);
+
+          expect(error).toBeInstanceOf(ConnectError);
+          const connectError = ConnectError.from(error);
+          expect(connectError.code).toBe(Code.PermissionDenied);
+          expect(connectError.findDetails(ErrorInfo)[0]).toMatchObject({
+            reason: 'CONTENT_FLAGGED',
+            metadata: { categories: 'violence' },
+          });
+          expect(completionSpy).not.toHaveBeenCalled();
+          expect(errorSpy).toHaveBeenCalledWith(
+            'API Request failed',
+            expect.anything(),
+            expect.objectContaining({ reason: 'CONTENT_FLAGGED' })
+          );
+        } finally {
+          completionSpy.mockRestore();
+          errorSpy.mockRestore();
+        }
+      });
+
+      it('should reject flagged streams before opening them', async () => {
+        const streamSpy = vi.spyOn(fakeProvider, 'createChatCompletionStream');
+        try {
+          const client = createTestClient();
+
+          await expect(async () => {
+            for await (const chunk of client.streamMiniCompletion(userRequest('[fake-flag:self-harm]'))) {
+              expect(chunk).toBeUndefined();
+            }
+          }).rejects.toMatchObject({ code: Code.PermissionDenied });
+          expect(streamSpy).not.toHaveBeenCalled();
+        } finally {
+          streamSpy.mockRestore();
+        }
+      });
+
+      it('should reject conversations seeded with flagged user messages', async () => {
+        const client = createTestClient();
+
+        const error = await client
+          .createConversation(
+            new CreateConversationRequest({
+              messages: [
+                new ChatMessage({ role: ChatMessage_Role.ASSISTANT, content: 'How did it go?' }),
+                new ChatMessage({ role: ChatMessage_Role.USER, content: '[fake-flag:violence]' }),
+              ],
+              deviceToken: 'moderation-seed-device',
+            })
+          )
+          .catch((e: unknown) => e);
+
+        const connectError = ConnectError.from(error);
+        expect(connectError.code).toBe(Code.PermissionDenied);
+        expect(connectError.findDetails(ErrorInfo)[0]).toMatchObject({ reason: 'CONTENT_FLAGGED' });
+      });
+
+      it('should not screen stored conversation history again', async () => {
+        const client = createTestClient();
+        const deviceToken = 'moderation-device';
+        const { conversationId } = await client.createConversation(
+          new CreateConversationRequest({
+            messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Warm-up done' })],
+            deviceToken,
+          })
+        );
+        const moderateSpy = vi.spyOn(fakeProvider, 'moderate');
+        try {
+          await client.createMiniCompletion(
+            new CreateChatCompletionRequest({
+              messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Next set?' })],
+              deviceToken,
+              conversationId,
+            })
+          );
+
+          expect(moderateSpy).toHaveBeenCalledWith(['Next set?'], expect.anything());
+        } finally {
+          moderateSpy.mockRestore();
+        }
+      });
+
+      it('should apply the RPC deadline to moderation', async () => {
+        RPC_DEADLINES.CreateMiniCompletion = 50;
+        // Moderation that only ends when its signal aborts
+        const moderateSpy = vi.spyOn(fakeProvider, 'moderate').mockImplementation(
+          (_inputs, options) =>
+            new Promise((_resolve, reject) => {
+              options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+            })
+        );
+        try {
+          const client = createTestClient();
+
+          await expect(client.createMiniCompletion(userRequest('Slow moderation'))).rejects.toMatchObject({
+            code: Code.DeadlineExceeded,
+            rawMessage: expect.stringContaining('50ms deadline'),
+          });
+        } finally {
+          moderateSpy.mockRestore();
+          resetRpcDeadlines();
+        }
+      });
+    });
+
+    describe('entitlements', () => {
+      it('should default free devices to a model within the plan', async () => {
+        const client = createTestClient();
+
+        const response = await client.createStandardCompletion(userRequest('Plan my leg day'));
+
+        expect(response.model).toBe('gpt-5-mini');
+      });
+
+      it('should reject models outside the plan with NOT_ENTITLED', async () => {
+        const client = createTestClient();
+        const request = userRequest('Plan my leg day');
+        request.model = 'gpt-5.2';
+
+        const error = ConnectError.from(
+          await client.createStandardCompletion(request).catch((e: unknown) => e)
+        );
+
+        expect(error.code).toBe(Code.PermissionDenied);
+        expect(error.findDetails(ErrorInfo)[0]).toMatchObject({
+          reason: 'NOT_ENTITLED',
+          metadata: { plan: 'free', model: 'gpt-5.2' },
+        });
+
+        request.deviceToken = PRO_DEVICE;
+        await expect(client.createStandardCompletion(request)).resolves.toMatchObject({
+          model: 'gpt-5.2',
+        });
+      });
+
+      it('should reject max_tokens above the plan limit', async () => {
+        const client = createTestClient();
+        const request = userRequest('Write a long program');
+        request.maxTokens = 8000;
+
+        await expect(async () => {
+          for await (const chunk of client.streamMiniCompletion(request)) {
+            expect(chunk).toBeUndefined();
+          }
+        }).rejects.toMatchObject({
+          code: Code.PermissionDenied,
+          rawMessage: expect.stringContaining('free plan limit of 4000'),
+        });
+
+        request.deviceToken = PRO_DEVICE;
+        await expect(client.createMiniCompletion(request)).resolves.toBeDefined();
+      });
+
+      it('should only fall back to models within the plan', async () => {
+        FALLBACKS['gpt-5-mini'] = ['gpt-5.2', 'gpt-4o-mini'];
+        try {
+          const client = createTestClient();
+          const request = userRequest('Plan my deload [fake-error:503@gpt-5-mini]');
+          request.model = 'gpt-5-mini';
+
+          const response = await client.createStandardCompletion(request);
+
+          expect(response.metadata).toMatchObject({ servedModel: 'gpt-4o-mini', fallbackUsed: true });
+        } finally {
+          FALLBACKS['gpt-5-mini'] = DEFAULT_FALLBACKS['gpt-5-mini'];
+        }
+      });
+    });
+
+    describe('PII redaction', () => {
+      const piiRequest = () => {
+        const request = userRequest('Email my plan to jane@example.com or text 415-555-2671');
+        request.redactPii = true;
+        return request;
+      };
+
+      it('should send placeholders upstream and restore the reply', async () => {
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          const response = await client.createMiniCompletion(piiRequest());
+
+          const [, sent] = spy.mock.calls[0];
+          expect(sent.messages[0].content).toBe('Email my plan to [EMAIL_1] or text [PHONE_1]');
+          expect(response.choices[0].message?.content).toContain('jane@example.com or text 415-555-2671');
+          expect(response.metadata?.piiRedactions).toBe(2);
+        } finally {
+          spy.mockRestore();
+        }
+      });
+
+      it('should restore streamed replies', async () => {
+        const client = createTestClient();
+        const chunks = [];
+        for await (const chunk of client.streamMiniCompletion(piiRequest())) {
+          chunks.push(chunk);
+        }
+
+        const content = chunks.map((c) => c.choices[0]?.delta?.content ?? '').join('');
+        expect(content).toContain('jane@example.com');
+        expect(content).not.toContain('[EMAIL_1]');
+        expect(chunks[0].metadata?.piiRedactions).toBe(2);
+      });
+
+      it('should redact every request when enabled globally', async () => {
+        process.env.PII_REDACTION = 'on';
+        const spy = vi.spyOn(fakeProvider, 'createChatCompletion');
+        try {
+          const client = createTestClient();
+          await client.createMiniCompletion(userRequest('Reach me at jane@example.com'));
+
+          const [, sent] = spy.mock.calls[0];
+          expect(sent.messages[0].content).toBe('Reach me at [EMAIL_1]');
+        } finally {
+          spy.mockRestore();
+          delete process.env.PII_REDACTION;
+        }
+      });
+    });
+
+    describe('countTokens', () => {
+      it('should be logged without a model', async () => {
+        const info = vi.spyOn(logger, 'info').mockImplementation(() => {});
+        try {
+          const client = createTestClient([loggingInterceptor]);
+          await client.countTokens(userRequest('How long is this?'));
+          await client.createMiniCompletion(userRequest('And this?'));
+
+          const completed = info.mock.calls.filter(([message]) => message === 'API Request completed');
+          expect(completed.map(([, details]) => details)).toEqual([
+            expect.not.objectContaining({ model: expect.anything() }),
+            expect.objectContaining({ model: 'gpt-4o-mini' }),
+          ]);
+        } finally {
+          info.mockRestore();
+        }
+      });
+
+      it('should split the estimate and price it for every model that can serve it', async () => {
+        // Registry pricing (the fake provider prices everything at zero)
+        process.env.MODEL_PROVIDER = 'openai';
+        const client = createTestClient();
+        const request = createRequestWithTools();
+        request.tools[0].strict = false;
+        request.deviceToken = PRO_DEVICE;
+        request.messages.unshift(
+          new ChatMessage({ role: ChatMessage_Role.SYSTEM, content: 'You are a coach.' })
+        );
+        const completionSpy = vi.spyOn(fakeProvider, 'createChatCompletion');
+
+        const response = await client.countTokens(request);
+
+        expect(completionSpy).not.toHaveBeenCalled();
+        completionSpy.mockRestore();
+        expect(response.systemTokens).toBeGreaterThan(0);
+        expect(response.messageTokens).toBeGreaterThan(0);
+        expect(response.toolTokens).toBeGreaterThan(0);
+        expect(response.promptTokens).toBeGreaterThan(
+          response.systemTokens + response.messageTokens + response.toolTokens
+        );
+        expect(response.models.map((m) => m.model)).toEqual([
+          'gpt-4o-mini',
+          'gpt-4o',
+          'gpt-5-mini',
+          'gpt-5.2',
+        ]);
+
+        const mini = response.models.find((m) => m.model === 'gpt-4o-mini');
+        const promptCost = (response.promptTokens / 1_000_000) * 0.15;
+        expect(mini?.promptCostUsd).toBeCloseTo(promptCost, 10);
+        expect(mini?.maxCostUsd).toBeCloseTo(promptCost + (2000 / 1_000_000) * 0.6, 10);
+        expect(mini?.fitsContextWindow).toBe(true);
+      });
+
+      it('should count the rendered prompt template and conversation history', async () => {
+        const client = createTestClient();
+        const { conversationId } = await client.createConversation(
+          new CreateConversationRequest({
+            messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'x'.repeat(400) })],
+            deviceToken: 'count-device',
+          })
+        );
+        const request = new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Next?' })],
+          deviceToken: 'count-device',
+          conversationId,
+          promptTemplate: new PromptTemplateRef({
+            id: 'workout_summary',
+            variables: { weight_unit: new PromptVariable({ value: { case: 'stringValue', value: 'kg' } }) },
+          }),
+        });
+
+        const before = await client.countTokens(request);
+        const after = await client.countTokens(request);
+
+        expect(before.systemTokens).toBeGreaterThan(0);
+        expect(before.messageTokens).toBeGreaterThan(100);
+        // Counting doesn't store the request in the conversation
+        expect(after.equals(before)).toBe(true);
+      });
+
+      it('should flag models whose context window is too small', async () => {
+        const client = createTestClient();
+
+        const response = await client.countTokens(proRequest('x'.repeat(600_000)));
+
+        const fits = Object.fromEntries(response.models.map((m) => [m.model, m.fitsContextWindow]));
+        expect(fits['gpt-4o-mini']).toBe(false);
+        expect(fits['gpt-5.2']).toBe(true);
+      });
+    });
+
+    it('should reject empty messages with InvalidArgument', async () => {
+      const client = createTestClient();
+
+      await expect(
+        client.createStandardCompletion(new CreateChatCompletionRequest({ messages: [] }))
+      ).rejects.toMatchObject({ code: Code.InvalidArgument });
+    });
+
+    it('should map upstream 4xx errors to InvalidArgument', async () => {
+      const client = createTestClient();
+
+      await expect(
+        client.createStandardCompletion(userRequest('[fake-error:400]'))
+      ).rejects.toMatchObject({ code: Code.InvalidArgument });
+    });
+
+    it('should apply the same error mapping to streams', async () => {
+      const client = createTestClient();
+
+      await expect(async () => {
+        for await (const chunk of client.streamStandardCompletion(userRequest('[fake-error:429]'))) {
+          expect(chunk).toBeUndefined();
+        }
+      }).rejects.toMatchObject({ code: Code.ResourceExhausted });
+    });
+  });
 });
@@ -0,0 +1,118 @@
+/**
+ * Idempotency interceptor tests
+ * Tests replay of unary responses, waiting for in-flight requests, and rate-limit charging
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { Code } from '@connectrpc/connect';
+import {
+  CreateChatCompletionRequest,
+  ChatMessage,
+  ChatMessage_Role,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import { idempotencyInterceptor } from '@/lib/interceptors/idempotency';
+import { rateLimitInterceptor } from '@/lib/interceptors/rate-limit';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createTestClient, setupTestEnv } from '../helpers/test-utils';
+
+vi.mock('@/lib/rate-limit', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/rate-limit')>();
+  return { ...actual, checkRateLimit: vi.fn(actual.checkRateLimit) };
+});
+
+describe('Idempotency Interceptor', () => {
+  let keyCounter = 0;
+
+  // Same order as the API route
+  const createClient = () => createTestClient([idempotencyInterceptor, rateLimitInterceptor]);
+
+  const keyedRequest = (content: string, idempotencyKey = `key-${++keyCounter}`) =>
+    new CreateChatCompletionRequest({
+      messages: [new ChatMessage({ role: ChatMessage_Role.USER, content })],
+      deviceToken: 'idempotency-device',
+      idempotencyKey,
+    });
+
+  beforeEach(() => {
+    setupTestEnv();
+    vi.mocked(checkRateLimit).mockClear();
+  });
+
+  it('should replay the stored response without charging rate limits again', async () => {
+    const client = createClient();
+    const request = keyedRequest('Log my bench press');
+
+    const first = await client.createMiniCompletion(request);
+    const charged = vi.mocked(checkRateLimit).mock.calls.length;
+    const second = await client.createMiniCompletion(request);
+
+    expect(charged).toBeGreaterThan(0);
+    expect(vi.mocked(checkRateLimit).mock.calls.length).toBe(charged);
+    expect(second.equals(first)).toBe(true);
+  });
+
+  it('should make a concurrent repeat wait for the running request', async () => {
+    const client = createClient();
+    const request = keyedRequest('Summarize my week [fake-delay:150]');
+
+    const [first, second] = await Promise.all([
+      client.createMiniCompletion(request),
+      client.createMiniCompletion(request),
+    ]);
+
+    expect(second.equals(first)).toBe(true);
+    // One request ran: device token + IP buckets were each checked once
+    expect(vi.mocked(checkRateLimit)).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run the request again after a failure', async () => {
+    const client = createClient();
+    const request = keyedRequest('[fake-error:400]');
+
+    await expect(client.createMiniCompletion(request)).rejects.toMatchObject({
+      code: Code.InvalidArgument,
+    });
+    await expect(client.createMiniCompletion(request)).rejects.toMatchObject({
+      code: Code.InvalidArgument,
+    });
+
+    expect(vi.mocked(checkRateLimit)).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject a key reused for a different request', async () => {
+    const client = createClient();
+    await client.createMiniCompletion(keyedRequest('Rest timer?', 'reused-key'));
+
+    await expect(
+      client.createMiniCompletion(keyedRequest('Different question', 'reused-key'))
+    ).rejects.toMatchObject({
+      code: Code.InvalidArgument,
+      rawMessage: expect.stringContaining('already used for a different request'),
+    });
+  });
+
+  it('should scope keys to the device token', async () => {
+    const client = createClient();
+    const request = keyedRequest('Rest timer?', 'shared-key');
+    const otherDevice = keyedRequest('Different question', 'shared-key');
+    otherDevice.deviceToken = 'other-device';
+
+    await client.createMiniCompletion(request);
+    const response = await client.createMiniCompletion(otherDevice);
+
+    expect(response.choices[0].message?.content).toContain('Different question');
+  });
+
+  it('should ignore the key on streaming RPCs', async () => {
+    const client = createClient();
+    const request = keyedRequest('Next set?');
+
+    for (let i = 0; i < 2; i++) {
+      for await (const chunk of client.streamMiniCompletion(request)) {
+        expect(chunk).toBeDefined();
+      }
+    }
+
+    expect(vi.mocked(checkRateLimit)).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Quota interceptor tests
+ * Tests budget checks, charging unary and streamed usage (estimated for streams
+ * that end early), and QUOTA_EXHAUSTED errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Code, ConnectError } from '@connectrpc/connect';
+import {
+  CreateChatCompletionRequest,
+  ChatMessage,
+  ChatMessage_Role,
+  ErrorInfo,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import { quotaInterceptor } from '@/lib/interceptors/quota';
+import { RPC_DEADLINES } from '@/lib/deadlines';
+import { getPlanEntitlements } from '@/lib/entitlements';
+import { checkQuota } from '@/lib/quotas';
+import { createTestClient, resetRpcDeadlines, setupTestEnv } from '../helpers/test-utils';
+
+describe('Quota Interceptor', () => {
+  const createRequest = (deviceToken: string | undefined, content = 'Plan my leg day') =>
+    new CreateChatCompletionRequest({
+      messages: [new ChatMessage({ role: ChatMessage_Role.USER, content })],
+      deviceToken,
+    });
+
+  const usedToday = async (deviceToken: string) =>
+    (await checkQuota(deviceToken, getPlanEntitlements('free').quota)).windows[0].used;
+
+  beforeEach(() => {
+    setupTestEnv();
+    process.env.QUOTA_UNIT = 'tokens';
+    process.env.QUOTA_DAILY_LIMIT = '100000';
+  });
+
+  afterEach(() => {
+    delete process.env.QUOTA_UNIT;
+    delete process.env.QUOTA_DAILY_LIMIT;
+  });
+
+  it('should charge unary responses with their reported usage', async () => {
+    const client = createTestClient([quotaInterceptor]);
+
+    const response = await client.createMiniCompletion(createRequest('quota-unary'));
+
+    expect(response.usage?.totalTokens).toBeGreaterThan(0);
+    expect(await usedToday('quota-unary')).toBe(response.usage?.totalTokens);
+  });
+
+  it('should charge streams with the final usage chunk', async () => {
+    const client = createTestClient([quotaInterceptor]);
+
+    let totalTokens = 0;
+    for await (const chunk of client.streamMiniCompletion(createRequest('quota-stream'))) {
+      totalTokens = chunk.usage?.totalTokens ?? totalTokens;
+    }
+
+    expect(totalTokens).toBeGreaterThan(0);
+    expect(await usedToday('quota-stream')).toBe(totalTokens);
+  });
+
+  it('should charge an estimate for streams that fail before the usage chunk', async () => {
+    RPC_DEADLINES.StreamMiniCompletion = 100;
+    try {
+      const client = createTestClient([quotaInterceptor]);
+      let chunks = 0;
+
+      await expect(async () => {
+        for await (const chunk of client.streamMiniCompletion(
+          createRequest('quota-stream-failed', 'Slow stream [fake-delay:40]')
+        )) {
+          expect(chunk.usage).toBeUndefined();
+          chunks++;
+        }
+      }).rejects.toMatchObject({ code: Code.DeadlineExceeded });
+
+      expect(chunks).toBeGreaterThan(0);
+      expect(await usedToday('quota-stream-failed')).toBeGreaterThan(0);
+    } finally {
+      resetRpcDeadlines();
+    }
+  });
+
+  it('should not charge streams rejected before they open', async () => {
+    const client = createTestClient([quotaInterceptor]);
+
+    await expect(async () => {
+      for await (const chunk of client.streamMiniCompletion(
+        createRequest('quota-stream-flagged', '[fake-flag:violence]')
+      )) {
+        expect(chunk).toBeUndefined();
+      }
+    }).rejects.toMatchObject({ code: Code.PermissionDenied });
+
+    expect(await usedToday('quota-stream-flagged')).toBe(0);
+  });
+
+  it('should not charge requests that do not call a model', async () => {
+    const client = createTestClient([quotaInterceptor]);
+
+    await client.countTokens(createRequest('quota-count'));
+
+    expect(await usedToday('quota-count')).toBe(0);
+  });
+
+  it('should reject with QUOTA_EXHAUSTED once the budget is used up', async () => {
+    process.env.QUOTA_DAILY_LIMIT = '1';
+    const client = createTestClient([quotaInterceptor]);
+
+    // The first request starts under budget and is allowed to finish over it
+    await client.createMiniCompletion(createRequest('quota-exhausted'));
+    const error = await client
+      .createMiniCompletion(createRequest('quota-exhausted'))
+      .catch((e: unknown) => ConnectError.from(e));
+
+    expect(error).toBeInstanceOf(ConnectError);
+    expect(error instanceof ConnectError && error.code).toBe(Code.ResourceExhausted);
+
+    const [info] = error instanceof ConnectError ? error.findDetails(ErrorInfo) : [];
+    expect(info?.reason).toBe('QUOTA_EXHAUSTED');
+    expect(info?.metadata).toMatchObject({ window: 'daily', unit: 'tokens', limit: '1' });
+  });
+
+  it('should skip requests without a device token', async () => {
+    process.env.QUOTA_DAILY_LIMIT = '1';
+    const client = createTestClient([quotaInterceptor]);
+
+    await client.createMiniCompletion(createRequest(undefined));
+
+    await expect(client.createMiniCompletion(createRequest(undefined))).resolves.toBeDefined();
+  });
+});
@@ -3,13 +3,18 @@
  * Tests dual-bucket rate limiting (device token + IP address)
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Code, ConnectError } from '@connectrpc/connect';
 import {
   CreateChatCompletionRequest,
   ChatMessage,
   ChatMessage_Role,
+  ErrorInfo,
 } from '@/lib/generated/repkit/ai/v1/api_pb';
-import { setupTestEnv } from '../helpers/test-utils';
+import { setEntitlementOverride } from '@/lib/entitlements';
+import { rateLimitInterceptor } from '@/lib/interceptors/rate-limit';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { createTestClient, setupTestEnv } from '../helpers/test-utils';
 
 describe('Rate Limit Interceptor', () => {
   beforeEach(() => {
@@ -193,6 +198,45 @@ describe('Rate Limit Interceptor', () => {
       const statusCode = 429;
       expect(statusCode).toBe(429);
     });
+
+    it('should send both buckets as headers on successful unary responses', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      let header: Headers | undefined;
+
+      await client.countTokens(
+        new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'How long is this?' })],
+          deviceToken: 'headers-device',
+        }),
+        { headers: { 'x-real-ip': '203.0.113.20' }, onHeader: (h) => (header = h) }
+      );
+
+      expect(header?.get('X-RateLimit-Limit-Token')).toBe('100');
+      expect(header?.get('X-RateLimit-Remaining-Token')).toBe('99');
+      expect(header?.get('X-RateLimit-Limit-IP')).toBe('50');
+      expect(header?.get('X-RateLimit-Remaining-IP')).toBe('49');
+      expect(header?.get('X-RateLimit-Remaining')).toBe('49');
+      expect(header?.get('X-RateLimit-Reset')).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+    });
+
+    it('should send both buckets as trailers on streams', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      let trailer: Headers | undefined;
+
+      const stream = client.streamStandardCompletion(
+        new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Plan my leg day' })],
+          deviceToken: 'trailers-device',
+        }),
+        { headers: { 'x-real-ip': '203.0.113.21' }, onTrailer: (t) => (trailer = t) }
+      );
+      for await (const _chunk of stream) {
+        // drain
+      }
+
+      expect(trailer?.get('X-RateLimit-Remaining-Token')).toBe('98');
+      expect(trailer?.get('X-RateLimit-Remaining-IP')).toBe('48');
+    });
   });
 
   describe('Rate Limit Reset Calculations', () => {
@@ -311,21 +355,202 @@ describe('Rate Limit Interceptor', () => {
     });
   });
 
+  describe('Request Cost', () => {
+    it('should charge fractional costs against the same bucket', async () => {
+      for (let i = 0; i < 10; i++) {
+        await checkRateLimit('cost-device-1', true, 0.1);
+      }
+
+      const next = await checkRateLimit('cost-device-1', true);
+
+      expect(next.allowed).toBe(true);
+      expect(next.remaining).toBe(98);
+    });
+
+    it('should reject a request that would go over the limit', async () => {
+      await checkRateLimit('cost-device-2', true, 99.5);
+
+      expect((await checkRateLimit('cost-device-2', true)).allowed).toBe(false);
+      expect((await checkRateLimit('cost-device-2', true, 0.5)).allowed).toBe(true);
+    });
+
+    it('should charge CountTokens a tenth of a request', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      const request = new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'How long is this?' })],
+        deviceToken: 'cost-device-3',
+      });
+
+      for (let i = 0; i < 5; i++) {
+        await client.countTokens(request);
+      }
+      const next = await checkRateLimit('cost-device-3', true);
+
+      // 0.5 for the counts + 1 for this check
+      expect(next.remaining).toBe(98);
+    });
+  });
+
+  describe('Plan Limits', () => {
+    it('should apply the Pro limit to Pro devices', async () => {
+      await setEntitlementOverride({ deviceToken: 'plan-device-pro' }, { plan: 'pro' });
+      const client = createTestClient([rateLimitInterceptor]);
+      const request = (deviceToken: string) =>
+        new CreateChatCompletionRequest({
+          messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'How long is this?' })],
+          deviceToken,
+        });
+
+      await client.countTokens(request('plan-device-free'));
+      await client.countTokens(request('plan-device-pro'));
+
+      // 0.1 for the count + 1 for this check
+      expect((await checkRateLimit('plan-device-free', true)).remaining).toBe(98);
+      expect((await checkRateLimit('plan-device-pro', true, 1, 500)).remaining).toBe(498);
+    });
+
+    it('should reject Pro devices only at the Pro limit', async () => {
+      await setEntitlementOverride({ deviceToken: 'plan-device-busy' }, { plan: 'pro' });
+      await checkRateLimit('plan-device-busy', true, 150, 500);
+      const client = createTestClient([rateLimitInterceptor]);
+
+      await expect(
+        client.countTokens(
+          new CreateChatCompletionRequest({
+            messages: [new ChatMessage({ role: ChatMessage_Role.USER, content: 'Still allowed?' })],
+            deviceToken: 'plan-device-busy',
+          })
+        )
+      ).resolves.toBeDefined();
+    });
+  });
+
+  describe('GetQuota', () => {
+    it('should report both buckets without charging them', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      const headers = { 'x-real-ip': '203.0.113.30' };
+      await checkRateLimit('quota-device', true, 12);
+
+      const first = await client.getQuota({ deviceToken: 'quota-device' }, { headers });
+      const second = await client.getQuota({ deviceToken: 'quota-device' }, { headers });
+
+      expect(first.device).toMatchObject({ limit: 100, remaining: 88 });
+      expect(first.ip).toMatchObject({ limit: 50, remaining: 50 });
+      expect(second.device?.remaining).toBe(88);
+      expect(second.ip?.remaining).toBe(50);
+      expect(Number(first.device?.resetAt)).toBeGreaterThan(Date.now() / 1000);
+    });
+
+    it('should use the plan limit for the device bucket', async () => {
+      await setEntitlementOverride({ deviceToken: 'quota-device-pro' }, { plan: 'pro' });
+      const client = createTestClient([rateLimitInterceptor]);
+
+      const response = await client.getQuota({ deviceToken: 'quota-device-pro' });
+
+      expect(response.device).toMatchObject({ limit: 500, remaining: 500 });
+    });
+
+    it('should only report the IP bucket without a device token', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+
+      const response = await client.getQuota({}, { headers: { 'x-real-ip': '203.0.113.31' } });
+
+      expect(response.device).toBeUndefined();
+      expect(response.ip?.limit).toBe(50);
+    });
+
+    it('should still answer once the limit is used up', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      await checkRateLimit('quota-device-empty', true, 100);
+
+      const response = await client.getQuota({ deviceToken: 'quota-device-empty' });
+
+      expect(response.device?.remaining).toBe(0);
+    });
+  });
+
   describe('Streaming Requests', () => {
-    it('should skip rate limiting for streaming requests', () => {
-      // Streaming requests bypass interceptor (marked with req.stream)
-      const isStreamingRequest = true;
+    const streamRequest = (deviceToken: string, content = 'Plan my leg day') =>
+      new CreateChatCompletionRequest({
+        messages: [new ChatMessage({ role: ChatMessage_Role.USER, content })],
+        deviceToken,
+      });
+
+    beforeEach(() => {
+      process.env.MAX_CONCURRENT_STREAMS = '1';
+    });
+
+    afterEach(() => {
+      delete process.env.MAX_CONCURRENT_STREAMS;
+    });
+
+    it('should charge streaming requests their weight', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
 
-      if (isStreamingRequest) {
-        // Skip rate limit check and forward to handler
-        expect(isStreamingRequest).toBe(true);
+      for await (const _chunk of client.streamStandardCompletion(streamRequest('stream-cost'))) {
+        // drain
       }
+
+      // 2 for the stream + 1 for this check
+      expect((await checkRateLimit('stream-cost', true)).remaining).toBe(97);
     });
 
-    it('should apply rate limiting to unary requests only', () => {
-      // Rate limiter checks: if (req.stream) return await next(req);
-      const isUnaryRequest = false; // i.e., !isStreamingRequest
-      expect(isUnaryRequest).toBe(false);
+    it('should reject streams over the concurrent cap with TOO_MANY_STREAMS', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      const open = client.streamMiniCompletion(streamRequest('stream-cap'))[Symbol.asyncIterator]();
+      await open.next();
+
+      const error = await client
+        .streamMiniCompletion(streamRequest('stream-cap'))
+        [Symbol.asyncIterator]()
+        .next()
+        .catch((e: unknown) => ConnectError.from(e));
+
+      expect(error).toBeInstanceOf(ConnectError);
+      expect(error instanceof ConnectError && error.code).toBe(Code.ResourceExhausted);
+      const info = error instanceof ConnectError ? error.findDetails(ErrorInfo)[0] : undefined;
+      expect(info?.reason).toBe('TOO_MANY_STREAMS');
+      expect(info?.metadata).toEqual({ scope: 'device', limit: '1' });
+
+      await open.return?.();
+    });
+
+    it('should release the slot when a stream ends', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+
+      for (let i = 0; i < 2; i++) {
+        for await (const _chunk of client.streamMiniCompletion(streamRequest('stream-ends'))) {
+          // drain
+        }
+      }
+    });
+
+    it('should release the slot when a stream fails', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      const drain = async (content: string) => {
+        for await (const _chunk of client.streamMiniCompletion(streamRequest('stream-fails', content))) {
+          // drain
+        }
+      };
+
+      await expect(drain('[fake-error:400]')).rejects.toBeInstanceOf(ConnectError);
+      await expect(drain('Plan my leg day')).resolves.toBeUndefined();
+    });
+
+    it('should release the slot when the client cancels', async () => {
+      const client = createTestClient([rateLimitInterceptor]);
+      const controller = new AbortController();
+      const open = client
+        .streamMiniCompletion(streamRequest('stream-cancelled'), { signal: controller.signal })
+        [Symbol.asyncIterator]();
+      await open.next();
+
+      controller.abort();
+      await open.next().catch(() => undefined);
+
+      for await (const _chunk of client.streamMiniCompletion(streamRequest('stream-cancelled'))) {
+        // drain
+      }
     });
   });
 });
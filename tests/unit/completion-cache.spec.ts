@@ -0,0 +1,138 @@
+/**
+ * Completion cache tests
+ * Tests canonical cache keys, memory storage with TTL, and Redis fallback
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import type { ChatCompletionRequest } from '@/lib/openai';
+import type { OpenAIChatCompletionResponse } from '@/lib/types/openai-api';
+
+interface FakeRedis {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, options?: unknown): Promise<unknown>;
+}
+
+const redisMock = vi.hoisted(() => {
+  const state: { client: FakeRedis | null } = { client: null };
+  return state;
+});
+
+vi.mock('@/lib/rate-limit', () => ({
+  getRedisClient: () => redisMock.client,
+}));
+
+import {
+  buildCompletionCacheKey,
+  getCachedCompletion,
+  setCachedCompletion,
+} from '@/lib/completion-cache';
+
+const request: ChatCompletionRequest = {
+  messages: [{ role: 'user', content: 'Classify: Romanian deadlift' }],
+  temperature: 0,
+  max_tokens: 50,
+};
+
+function completion(id: string): OpenAIChatCompletionResponse {
+  return {
+    id,
+    model: 'gpt-4o-mini',
+    created: 0,
+    object: 'chat.completion',
+    choices: [{ index: 0, finish_reason: 'stop', message: { content: 'hinge' } }],
+  };
+}
+
+describe('Completion Cache', () => {
+  afterEach(() => {
+    redisMock.client = null;
+    vi.useRealTimers();
+    delete process.env.COMPLETION_CACHE_TTL_SECONDS;
+  });
+
+  describe('buildCompletionCacheKey', () => {
+    it('should ignore object key order', () => {
+      const reordered: ChatCompletionRequest = {
+        max_tokens: 50,
+        temperature: 0,
+        messages: [{ content: 'Classify: Romanian deadlift', role: 'user' }],
+      };
+
+      expect(buildCompletionCacheKey('gpt-4o-mini', reordered)).toBe(
+        buildCompletionCacheKey('gpt-4o-mini', request)
+      );
+    });
+
+    it('should differ by model and parameters', () => {
+      const key = buildCompletionCacheKey('gpt-4o-mini', request);
+
+      expect(buildCompletionCacheKey('gpt-5-mini', request)).not.toBe(key);
+      expect(buildCompletionCacheKey('gpt-4o-mini', { ...request, temperature: 0.2 })).not.toBe(key);
+      expect(buildCompletionCacheKey('gpt-4o-mini', { ...request, tool_choice: 'none' })).not.toBe(
+        key
+      );
+    });
+  });
+
+  describe('memory store', () => {
+    it('should return stored completions', async () => {
+      const key = buildCompletionCacheKey('gpt-4o-mini', request);
+      await setCachedCompletion(key, completion('cmpl-memory'));
+
+      expect((await getCachedCompletion(key))?.id).toBe('cmpl-memory');
+    });
+
+    it('should expire entries after the TTL', async () => {
+      vi.useFakeTimers();
+      process.env.COMPLETION_CACHE_TTL_SECONDS = '60';
+      const key = buildCompletionCacheKey('gpt-4o', request);
+      await setCachedCompletion(key, completion('cmpl-ttl'));
+
+      vi.advanceTimersByTime(61_000);
+
+      expect(await getCachedCompletion(key)).toBeNull();
+    });
+
+    it('should miss for unknown keys', async () => {
+      expect(await getCachedCompletion('completion-cache:v1:missing')).toBeNull();
+    });
+  });
+
+  describe('redis store', () => {
+    it('should read and write through Redis with a TTL', async () => {
+      const stored = new Map<string, unknown>();
+      const set = vi.fn(async (key: string, value: unknown) => stored.set(key, value));
+      redisMock.client = { get: async (key) => stored.get(key) ?? null, set };
+
+      const key = buildCompletionCacheKey('gpt-5.2', request);
+      await setCachedCompletion(key, completion('cmpl-redis'));
+
+      expect(set).toHaveBeenCalledWith(key, expect.anything(), { ex: 3600 });
+      expect((await getCachedCompletion(key))?.id).toBe('cmpl-redis');
+    });
+
+    it('should ignore malformed Redis values', async () => {
+      redisMock.client = { get: async () => 'not a completion', set: async () => 'OK' };
+
+      expect(await getCachedCompletion('completion-cache:v1:bad')).toBeNull();
+    });
+
+    it('should fall back to memory when Redis fails', async () => {
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      redisMock.client = {
+        get: async () => {
+          throw new Error('redis down');
+        },
+        set: async () => {
+          throw new Error('redis down');
+        },
+      };
+
+      const key = buildCompletionCacheKey('gpt-5-mini', request);
+      await setCachedCompletion(key, completion('cmpl-fallback'));
+
+      expect((await getCachedCompletion(key))?.id).toBe('cmpl-fallback');
+      errorSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Message content validation tests
+ * Tests validateMessageContent limits for multi-part (text + image) messages
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ChatMessage,
+  ChatMessage_Role,
+  ContentPart,
+  ImagePart,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import {
+  validateMessageContent,
+  MAX_IMAGE_BYTES,
+  MAX_IMAGES_PER_REQUEST,
+} from '@/lib/validators/content';
+
+const JPEG_HEADER = [0xff, 0xd8, 0xff, 0xe0];
+
+function jpegBytes(size: number = 16): Uint8Array {
+  const bytes = new Uint8Array(size);
+  bytes.set(JPEG_HEADER);
+  return bytes;
+}
+
+function imagePart(image: ConstructorParameters<typeof ImagePart>[0]): ContentPart {
+  return new ContentPart({ part: { case: 'image', value: new ImagePart(image) } });
+}
+
+function userMessage(...parts: ContentPart[]): ChatMessage {
+  return new ChatMessage({ role: ChatMessage_Role.USER, contentParts: parts });
+}
+
+describe('Message Content Validation', () => {
+  it('should accept plain string content', () => {
+    const errors = validateMessageContent([
+      new ChatMessage({ role: ChatMessage_Role.USER, content: 'Hello' }),
+    ]);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should accept text with inline JPEG image', () => {
+    const errors = validateMessageContent([
+      userMessage(
+        new ContentPart({ part: { case: 'text', value: 'What machine is this?' } }),
+        imagePart({ source: { case: 'data', value: jpegBytes() }, mimeType: 'image/jpeg' })
+      ),
+    ]);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should accept HTTPS image URL', () => {
+    const errors = validateMessageContent([
+      userMessage(imagePart({ source: { case: 'url', value: 'https://example.com/rack.png' } })),
+    ]);
+    expect(errors).toHaveLength(0);
+  });
+
+  it('should reject both content and content_parts', () => {
+    const msg = userMessage(new ContentPart({ part: { case: 'text', value: 'Hi' } }));
+    msg.content = 'Hi';
+
+    const errors = validateMessageContent([msg]);
+    expect(errors.some((e) => e.includes('not both'))).toBe(true);
+  });
+
+  it('should reject non-HTTPS image URLs', () => {
+    const errors = validateMessageContent([
+      userMessage(imagePart({ source: { case: 'url', value: 'http://example.com/rack.png' } })),
+      userMessage(imagePart({ source: { case: 'url', value: 'not a url' } })),
+    ]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('https://');
+  });
+
+  it('should require mime_type for inline data', () => {
+    const errors = validateMessageContent([
+      userMessage(imagePart({ source: { case: 'data', value: jpegBytes() } })),
+    ]);
+    expect(errors.some((e) => e.includes('mime_type is required'))).toBe(true);
+  });
+
+  it('should reject unsupported MIME types', () => {
+    const errors = validateMessageContent([
+      userMessage(imagePart({ source: { case: 'data', value: jpegBytes() }, mimeType: 'image/heic' })),
+    ]);
+    expect(errors.some((e) => e.includes('unsupported image type "image/heic"'))).toBe(true);
+  });
+
+  it('should reject data that does not match declared MIME type', () => {
+    const errors = validateMessageContent([
+      userMessage(imagePart({ source: { case: 'data', value: jpegBytes() }, mimeType: 'image/png' })),
+    ]);
+    expect(errors.some((e) => e.includes('does not match'))).toBe(true);
+  });
+
+  it('should reject oversized images', () => {
+    const errors = validateMessageContent([
+      userMessage(
+        imagePart({ source: { case: 'data', value: jpegBytes(MAX_IMAGE_BYTES + 1) }, mimeType: 'image/jpeg' })
+      ),
+    ]);
+    expect(errors.some((e) => e.includes('exceeds maximum'))).toBe(true);
+  });
+
+  it('should reject too many images in a request', () => {
+    const parts = Array.from({ length: MAX_IMAGES_PER_REQUEST + 1 }, () =>
+      imagePart({ source: { case: 'url', value: 'https://example.com/a.jpg' } })
+    );
+
+    const errors = validateMessageContent([userMessage(...parts)]);
+    expect(errors.some((e) => e.includes(`${MAX_IMAGES_PER_REQUEST + 1} images`))).toBe(true);
+  });
+
+  it('should reject images outside user messages', () => {
+    const msg = new ChatMessage({
+      role: ChatMessage_Role.ASSISTANT,
+      contentParts: [imagePart({ source: { case: 'url', value: 'https://example.com/a.jpg' } })],
+    });
+
+    const errors = validateMessageContent([msg]);
+    expect(errors.some((e) => e.includes('only allowed in user messages'))).toBe(true);
+  });
+
+  it('should reject empty content parts', () => {
+    const errors = validateMessageContent([
+      userMessage(new ContentPart(), new ContentPart({ part: { case: 'text', value: '' } })),
+    ]);
+    expect(errors).toHaveLength(2);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Context window tests
+ * Tests token estimation, context budgets, and history trimming rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ChatCompletionRequest, ChatMessage } from '@/lib/openai';
+import { getModelSpec, type ModelSpec } from '@/lib/models';
+import { getContextBudget, trimToContextWindow } from '@/lib/context-window';
+import {
+  TOKEN_ESTIMATE,
+  estimateMessageTokens,
+  estimatePromptTokenBreakdown,
+  estimateRequestTokens,
+  estimateTextTokens,
+} from '@/lib/tokens';
+
+/**
+ * Model with a tiny context window so short messages trigger trimming
+ * Budget: floor(1000 × 0.95) - 100 = 850 tokens
+ */
+const tinyModel: ModelSpec = { ...getModelSpec('gpt-4o-mini'), contextWindow: 1000 };
+
+/** Message estimated at roughly `tokens` tokens */
+function message(role: ChatMessage['role'], tokens: number, extra: Partial<ChatMessage> = {}): ChatMessage {
+  return { role, content: 'x'.repeat(tokens * TOKEN_ESTIMATE.charsPerToken), ...extra };
+}
+
+function toolCall(id: string): NonNullable<ChatMessage['tool_calls']>[number] {
+  return { id, type: 'function', function: { name: 'log_set', arguments: '{}' } };
+}
+
+function request(messages: ChatMessage[]): ChatCompletionRequest {
+  return { messages, max_tokens: 100 };
+}
+
+describe('Token Estimation', () => {
+  it('should estimate text at about four characters per token', () => {
+    expect(estimateTextTokens('')).toBe(0);
+    expect(estimateTextTokens('abcd')).toBe(1);
+    expect(estimateTextTokens('abcde')).toBe(2);
+  });
+
+  it('should add per-message framing, names and tool calls', () => {
+    const plain = estimateMessageTokens({ role: 'user', content: 'abcd' });
+    const named = estimateMessageTokens({ role: 'user', content: 'abcd', name: 'coach' });
+    const withCall = estimateMessageTokens({
+      role: 'assistant',
+      content: null,
+      tool_calls: [toolCall('call_1')],
+    });
+
+    expect(plain).toBe(TOKEN_ESTIMATE.perMessage + 1);
+    expect(named).toBeGreaterThan(plain);
+    expect(withCall).toBeGreaterThan(TOKEN_ESTIMATE.perMessage);
+  });
+
+  it('should price images by detail level', () => {
+    const image = (detail: 'low' | 'high') =>
+      estimateMessageTokens({
+        role: 'user',
+        content: [{ type: 'image_url', image_url: { url: 'https://example.com/a.jpg', detail } }],
+      });
+
+    expect(image('low')).toBe(TOKEN_ESTIMATE.perMessage + TOKEN_ESTIMATE.imageLowDetail);
+    expect(image('high')).toBe(TOKEN_ESTIMATE.perMessage + TOKEN_ESTIMATE.imageHighDetail);
+  });
+
+  it('should include tool schemas in the request estimate', () => {
+    const base = request([message('user', 10)]);
+    const withTools: ChatCompletionRequest = {
+      ...base,
+      tools: [
+        {
+          type: 'function',
+          function: {
+            name: 'log_set',
+            description: 'Log a completed set',
+            parameters: { type: 'object', properties: { reps: { type: 'integer' } } },
+          },
+        },
+      ],
+    };
+
+    expect(estimateRequestTokens(withTools)).toBeGreaterThan(estimateRequestTokens(base));
+  });
+
+  it('should split the estimate into system messages, other messages and tools', () => {
+    const withTools: ChatCompletionRequest = {
+      ...request([message('system', 20), message('user', 10), message('assistant', 5)]),
+      tools: [{ type: 'function', function: { name: 'log_set', description: 'Log a set', parameters: { type: 'object', properties: {} } } }],
+    };
+
+    const breakdown = estimatePromptTokenBreakdown(withTools);
+
+    expect(breakdown.system).toBe(TOKEN_ESTIMATE.perMessage + 20);
+    expect(breakdown.messages).toBe(2 * TOKEN_ESTIMATE.perMessage + 15);
+    expect(breakdown.tools).toBeGreaterThan(TOKEN_ESTIMATE.perTool);
+    expect(breakdown.total).toBe(estimateRequestTokens(withTools));
+    expect(breakdown.total).toBe(
+      breakdown.system + breakdown.messages + breakdown.tools + TOKEN_ESTIMATE.replyPriming
+    );
+  });
+});
+
+describe('Context Window', () => {
+  describe('getContextBudget', () => {
+    it('should reserve the safety margin and completion tokens', () => {
+      expect(getContextBudget(tinyModel, 100)).toBe(850);
+    });
+
+    it('should cap the reservation at the model output limit', () => {
+      const spec = getModelSpec('gpt-4o-mini');
+
+      expect(getContextBudget(spec, 1_000_000)).toBe(
+        Math.floor(spec.contextWindow * 0.95) - spec.maxOutputTokens
+      );
+    });
+  });
+
+  describe('trimToContextWindow', () => {
+    it('should leave requests that fit unchanged', () => {
+      const original = request([message('system', 50), message('user', 50)]);
+
+      const result = trimToContextWindow(original, tinyModel);
+
+      expect(result.request).toBe(original);
+      expect(result.droppedMessages).toBe(0);
+    });
+
+    it('should drop the oldest history first', () => {
+      const result = trimToContextWindow(
+        request([
+          message('user', 300, { name: 'oldest' }),
+          message('assistant', 300, { name: 'older' }),
+          message('user', 400, { name: 'recent' }),
+          message('assistant', 100, { name: 'reply' }),
+          message('user', 50, { name: 'latest' }),
+        ]),
+        tinyModel
+      );
+
+      expect(result.droppedMessages).toBe(2);
+      expect(result.request.messages.map((m) => m.name)).toEqual(['recent', 'reply', 'latest']);
+      expect(result.estimatedTokens).toBeLessThanOrEqual(result.budgetTokens);
+    });
+
+    it('should always keep system messages', () => {
+      const result = trimToContextWindow(
+        request([
+          message('system', 300, { name: 'system' }),
+          message('user', 400, { name: 'old' }),
+          message('assistant', 100, { name: 'reply' }),
+          message('user', 50, { name: 'latest' }),
+        ]),
+        tinyModel
+      );
+
+      expect(result.request.messages.map((m) => m.name)).toEqual(['system', 'reply', 'latest']);
+    });
+
+    it('should drop a tool call together with its results', () => {
+      const result = trimToContextWindow(
+        request([
+          message('system', 100, { name: 'system' }),
+          message('assistant', 10, { name: 'call', content: null, tool_calls: [toolCall('a'), toolCall('b')] }),
+          message('tool', 200, { name: 'result-a', tool_call_id: 'a' }),
+          message('tool', 200, { name: 'result-b', tool_call_id: 'b' }),
+          message('assistant', 300, { name: 'answer' }),
+          message('user', 100, { name: 'latest' }),
+        ]),
+        tinyModel
+      );
+
+      expect(result.droppedMessages).toBe(3);
+      expect(result.request.messages.map((m) => m.name)).toEqual(['system', 'answer', 'latest']);
+    });
+
+    it('should keep a trailing tool call group intact', () => {
+      const result = trimToContextWindow(
+        request([
+          message('user', 500, { name: 'old' }),
+          message('assistant', 10, { name: 'call', content: null, tool_calls: [toolCall('a')] }),
+          message('tool', 400, { name: 'result', tool_call_id: 'a' }),
+        ]),
+        tinyModel
+      );
+
+      expect(result.request.messages.map((m) => m.name)).toEqual(['call', 'result']);
+    });
+
+    it('should report an over-budget estimate when the latest turn alone is too large', () => {
+      const result = trimToContextWindow(
+        request([message('system', 100), message('user', 900)]),
+        tinyModel
+      );
+
+      expect(result.droppedMessages).toBe(0);
+      expect(result.estimatedTokens).toBeGreaterThan(result.budgetTokens);
+    });
+  });
+});
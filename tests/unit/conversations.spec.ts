@@ -0,0 +1,107 @@
+/**
+ * Conversation store tests
+ * Tests history storage, device ownership, TTL expiry, and the Redis path
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { ChatMessage, ChatMessage_Role } from '@/lib/generated/repkit/ai/v1/api_pb';
+
+interface FakeRedis {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, options?: unknown): Promise<unknown>;
+}
+
+const redisMock = vi.hoisted(() => {
+  const state: { client: FakeRedis | null } = { client: null };
+  return state;
+});
+
+vi.mock('@/lib/rate-limit', () => ({
+  getRedisClient: () => redisMock.client,
+}));
+
+import {
+  CONVERSATION_CONFIG,
+  appendConversationMessages,
+  createConversation,
+  getConversation,
+} from '@/lib/conversations';
+
+const system = new ChatMessage({ role: ChatMessage_Role.SYSTEM, content: 'You are a coach.' });
+const user = new ChatMessage({ role: ChatMessage_Role.USER, content: 'Plan my week' });
+const assistant = new ChatMessage({ role: ChatMessage_Role.ASSISTANT, content: 'Here it is' });
+
+describe('Conversation Store', () => {
+  afterEach(() => {
+    redisMock.client = null;
+    vi.useRealTimers();
+    delete process.env.CONVERSATION_TTL_SECONDS;
+  });
+
+  describe('in-memory store', () => {
+    it('should create a conversation with its initial history', async () => {
+      const created = await createConversation('device-1', [system]);
+      const loaded = await getConversation(created.id, 'device-1');
+
+      expect(created.id).toMatch(/^[0-9a-f-]{36}$/);
+      expect(loaded?.messages).toHaveLength(1);
+      expect(loaded?.messages[0].equals(system)).toBe(true);
+    });
+
+    it('should append messages in order', async () => {
+      const created = await createConversation('device-1', [system]);
+      await appendConversationMessages(created, 'device-1', [user, assistant]);
+
+      const loaded = await getConversation(created.id, 'device-1');
+
+      expect(loaded?.messages.map((m) => m.role)).toEqual([
+        ChatMessage_Role.SYSTEM,
+        ChatMessage_Role.USER,
+        ChatMessage_Role.ASSISTANT,
+      ]);
+    });
+
+    it('should hide conversations from other devices', async () => {
+      const created = await createConversation('device-1', []);
+
+      expect(await getConversation(created.id, 'device-2')).toBeNull();
+      expect(await getConversation(created.id, undefined)).toBeNull();
+      expect(await getConversation('missing-id', 'device-1')).toBeNull();
+    });
+
+    it('should expire conversations after the TTL and extend it on append', async () => {
+      vi.useFakeTimers();
+      process.env.CONVERSATION_TTL_SECONDS = '60';
+
+      const created = await createConversation('device-1', []);
+      vi.advanceTimersByTime(50_000);
+      await appendConversationMessages(created, 'device-1', [user]);
+      vi.advanceTimersByTime(50_000);
+      expect(await getConversation(created.id, 'device-1')).not.toBeNull();
+
+      vi.advanceTimersByTime(10_001);
+      expect(await getConversation(created.id, 'device-1')).toBeNull();
+    });
+  });
+
+  describe('Redis store', () => {
+    it('should store records with the TTL and read them back', async () => {
+      const values = new Map<string, unknown>();
+      const redis: FakeRedis = {
+        get: vi.fn(async (key: string) => values.get(key) ?? null),
+        set: vi.fn(async (key: string, value: unknown) => values.set(key, value)),
+      };
+      redisMock.client = redis;
+
+      const created = await createConversation('device-1', [system]);
+
+      expect(redis.set).toHaveBeenCalledWith(
+        CONVERSATION_CONFIG.keyPrefix + created.id,
+        expect.objectContaining({ messages: [expect.any(String)] }),
+        { ex: CONVERSATION_CONFIG.defaultTtlSeconds }
+      );
+      const loaded = await getConversation(created.id, 'device-1');
+      expect(loaded?.messages[0].content).toBe('You are a coach.');
+    });
+  });
+});
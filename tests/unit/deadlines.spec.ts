@@ -0,0 +1,115 @@
+/**
+ * Request deadline tests
+ * Tests RPC/model limits, overrides, and combination with the client timeout
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Code, ConnectError, createHandlerContext } from '@connectrpc/connect';
+import { ChatService } from '@/lib/generated/repkit/ai/v1/api_connect';
+import {
+  DEFAULT_RPC_DEADLINES_MS,
+  getModelDeadlineMs,
+  getRpcDeadlineMs,
+  parseDeadlineOverrides,
+  parseModelDeadlines,
+  RPC_DEADLINES,
+  startRequestDeadline,
+} from '@/lib/deadlines';
+
+function createContext(timeoutMs?: number) {
+  return createHandlerContext({
+    service: ChatService,
+    method: ChatService.methods.createMiniCompletion,
+    protocolName: 'connect',
+    requestMethod: 'POST',
+    url: 'http://localhost/repkit.ai.v1.ChatService/CreateMiniCompletion',
+    timeoutMs,
+  });
+}
+
+describe('Request Deadlines', () => {
+  afterEach(() => {
+    delete process.env.RPC_DEADLINES_MS;
+    delete process.env.MODEL_DEADLINES_MS;
+  });
+
+  describe('limits', () => {
+    it('should use default RPC limits', () => {
+      expect(getRpcDeadlineMs('CreateMiniCompletion')).toBe(30_000);
+      expect(getRpcDeadlineMs('StreamStandardCompletion')).toBe(300_000);
+      expect(getRpcDeadlineMs('UnknownMethod')).toBeUndefined();
+    });
+
+    it('should parse RPC and model overrides', () => {
+      expect(parseDeadlineOverrides('CreateMiniCompletion=5000', 'RPC_DEADLINES_MS')).toEqual(
+        new Map([['CreateMiniCompletion', 5000]])
+      );
+      expect(parseModelDeadlines('gpt-5.2=90000')).toEqual(new Map([['gpt-5.2', 90_000]]));
+    });
+
+    it('should reject invalid overrides', () => {
+      expect(() => parseDeadlineOverrides('CreateMiniCompletion=soon', 'RPC_DEADLINES_MS')).toThrow(
+        /Invalid duration/
+      );
+      expect(() => parseModelDeadlines('gpt-3=1000')).toThrow(/Unknown model "gpt-3"/);
+    });
+
+    it('should read the overrides once at startup', async () => {
+      process.env.RPC_DEADLINES_MS = 'CreateMiniCompletion=5000';
+      process.env.MODEL_DEADLINES_MS = 'gpt-5.2=90000';
+      vi.resetModules();
+      const configured = await import('@/lib/deadlines');
+
+      process.env.RPC_DEADLINES_MS = 'CreateMiniCompletion=soon';
+      expect(configured.getRpcDeadlineMs('CreateMiniCompletion')).toBe(5000);
+      expect(configured.getModelDeadlineMs('gpt-5.2')).toBe(90_000);
+      expect(configured.getModelDeadlineMs('gpt-4o-mini')).toBe(120_000);
+
+      vi.resetModules();
+      await expect(import('@/lib/deadlines')).rejects.toThrow('RPC_DEADLINES_MS');
+
+      process.env.RPC_DEADLINES_MS = 'CreateMiniCompletion=5000';
+      process.env.MODEL_DEADLINES_MS = 'gpt-3=1000';
+      vi.resetModules();
+      await expect(import('@/lib/deadlines')).rejects.toThrow('MODEL_DEADLINES_MS');
+    });
+  });
+
+  describe('startRequestDeadline', () => {
+    it('should use the earliest of client timeout, RPC and model limits', () => {
+      const fromRpc = startRequestDeadline(createContext(), 'gpt-4o-mini');
+      const fromClient = startRequestDeadline(createContext(1_000), 'gpt-4o-mini');
+
+      expect(fromRpc.budgetMs).toBe(30_000);
+      expect(fromClient.budgetMs).toBeLessThanOrEqual(1_000);
+
+      fromRpc.dispose();
+      fromClient.dispose();
+    });
+
+    it('should abort with DeadlineExceeded when the deadline passes', async () => {
+      RPC_DEADLINES.CreateMiniCompletion = 10;
+      try {
+        const deadline = startRequestDeadline(createContext(), 'gpt-4o-mini');
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+
+        expect(deadline.signal.aborted).toBe(true);
+        expect(deadline.signal.reason).toBeInstanceOf(ConnectError);
+        expect(deadline.signal.reason).toMatchObject({ code: Code.DeadlineExceeded });
+      } finally {
+        RPC_DEADLINES.CreateMiniCompletion = DEFAULT_RPC_DEADLINES_MS.CreateMiniCompletion;
+      }
+    });
+
+    it('should abort when the client cancels', () => {
+      const context = createContext();
+      const deadline = startRequestDeadline(context, 'gpt-4o-mini');
+
+      context.abort();
+
+      expect(deadline.signal.aborted).toBe(true);
+      deadline.dispose();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Device registration tests
+ * Tests issuing secrets once per token, rotation, revocation until reset
+ * and failing closed when the store can't be used
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+interface FakeRedis {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, options?: { nx: true }): Promise<unknown>;
+  eval?(script: string, keys: string[], args: string[]): Promise<unknown>;
+  del?(key: string): Promise<number>;
+}
+
+const redisMock = vi.hoisted(() => {
+  const state: { client: FakeRedis | null } = { client: null };
+  return state;
+});
+
+vi.mock('@/lib/rate-limit', () => ({
+  getRedisClient: () => redisMock.client,
+}));
+
+import {
+  DEVICE_CONFIG,
+  getDevice,
+  registerDevice,
+  resetDevice,
+  revokeDevice,
+  rotateDeviceSecret,
+} from '@/lib/devices';
+
+describe('Devices', () => {
+  afterEach(() => {
+    redisMock.client = null;
+  });
+
+  describe('registerDevice', () => {
+    it('should issue a random secret per device', async () => {
+      const first = await registerDevice('device-a', 1_000);
+      const second = await registerDevice('device-b', 1_000);
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(second).toMatch(/^[0-9a-f]{64}$/);
+      expect(first).not.toBe(second);
+      expect(await getDevice('device-a')).toEqual({ secret: first, registeredAt: 1_000 });
+    });
+
+    it('should register a device token only once', async () => {
+      const secret = await registerDevice('device-once');
+
+      expect(await registerDevice('device-once')).toBeNull();
+      expect((await getDevice('device-once'))?.secret).toBe(secret);
+    });
+
+    it('should not know unregistered devices', async () => {
+      expect(await getDevice('device-unknown')).toBeNull();
+    });
+  });
+
+  describe('rotateDeviceSecret', () => {
+    it('should replace the secret of an active device', async () => {
+      const previous = await registerDevice('device-rotated', 1_000);
+      const secret = await rotateDeviceSecret('device-rotated');
+
+      expect(secret).toMatch(/^[0-9a-f]{64}$/);
+      expect(secret).not.toBe(previous);
+      expect(await getDevice('device-rotated')).toEqual({ secret, registeredAt: 1_000 });
+    });
+
+    it('should not rotate unregistered or revoked devices', async () => {
+      await registerDevice('device-rotated-revoked');
+      await revokeDevice('device-rotated-revoked');
+
+      expect(await rotateDeviceSecret('device-rotated-unknown')).toBeNull();
+      expect(await rotateDeviceSecret('device-rotated-revoked')).toBeNull();
+    });
+  });
+
+  describe('revokeDevice', () => {
+    it('should keep the device revoked until it is reset', async () => {
+      const secret = await registerDevice('device-revoked', 1_000);
+
+      expect(await revokeDevice('device-revoked', 2_000)).toBe(true);
+      expect(await registerDevice('device-revoked', 3_000)).toBeNull();
+      expect(await getDevice('device-revoked')).toEqual({
+        secret,
+        registeredAt: 1_000,
+        revokedAt: 2_000,
+      });
+    });
+
+    it('should keep the first revocation time', async () => {
+      await registerDevice('device-revoked-twice');
+      await revokeDevice('device-revoked-twice', 2_000);
+      await revokeDevice('device-revoked-twice', 3_000);
+
+      expect((await getDevice('device-revoked-twice'))?.revokedAt).toBe(2_000);
+    });
+
+    it('should report unregistered devices', async () => {
+      expect(await revokeDevice('device-never-registered')).toBe(false);
+    });
+  });
+
+  describe('resetDevice', () => {
+    it('should forget the registration', async () => {
+      await registerDevice('device-reset');
+
+      expect(await resetDevice('device-reset')).toBe(true);
+      expect(await getDevice('device-reset')).toBeNull();
+      expect(await registerDevice('device-reset')).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should report unregistered devices', async () => {
+      expect(await resetDevice('device-reset-unknown')).toBe(false);
+    });
+  });
+
+  describe('memory store', () => {
+    it('should refuse new devices when full instead of evicting', async () => {
+      const limit = DEVICE_CONFIG.maxMemoryEntries;
+      await registerDevice('device-memory-kept');
+      DEVICE_CONFIG.maxMemoryEntries = 0;
+
+      try {
+        await expect(registerDevice('device-memory-full')).rejects.toThrow(
+          'In-memory device store is full'
+        );
+        expect(await getDevice('device-memory-kept')).not.toBeNull();
+        expect(await revokeDevice('device-memory-kept')).toBe(true);
+      } finally {
+        DEVICE_CONFIG.maxMemoryEntries = limit;
+      }
+    });
+  });
+
+  describe('Redis store', () => {
+    it('should only create the record if the token is new', async () => {
+      const set = vi.fn(async (_key: string, _value: unknown, _options?: { nx: true }) => null);
+      redisMock.client = { get: vi.fn(), set };
+
+      expect(await registerDevice('device-redis-taken')).toBeNull();
+      expect(set).toHaveBeenCalledWith(
+        expect.stringMatching(/^device:v1:[0-9a-f]{64}$/),
+        expect.objectContaining({ secret: expect.any(String) }),
+        { nx: true }
+      );
+    });
+
+    it('should only replace a record that still has the expected secret', async () => {
+      const current = { secret: 'current-secret', registeredAt: 1_000 };
+      const evalScript = vi.fn(async (_script: string, _keys: string[], _args: string[]) => 0);
+      redisMock.client = { get: vi.fn(async () => current), set: vi.fn(), eval: evalScript };
+
+      expect(await rotateDeviceSecret('device-redis-rotated')).toBeNull();
+      expect(evalScript).toHaveBeenCalledWith(
+        expect.stringContaining('cjson.decode'),
+        [expect.stringMatching(/^device:v1:[0-9a-f]{64}$/)],
+        [expect.stringContaining('"registeredAt":1000'), 'current-secret']
+      );
+    });
+
+    it('should reject malformed records', async () => {
+      redisMock.client = { get: vi.fn(async () => ({ secret: 42 })), set: vi.fn() };
+
+      await expect(getDevice('device-redis-malformed')).rejects.toThrow('Malformed device record');
+    });
+
+    it('should not fall back to memory when Redis fails', async () => {
+      const failing = async () => {
+        throw new Error('connection reset');
+      };
+      redisMock.client = { get: vi.fn(failing), set: vi.fn(failing), del: vi.fn(failing) };
+
+      await expect(registerDevice('device-redis-down')).rejects.toThrow('connection reset');
+      await expect(getDevice('device-redis-down')).rejects.toThrow('connection reset');
+      await expect(revokeDevice('device-redis-down')).rejects.toThrow('connection reset');
+      await expect(resetDevice('device-redis-down')).rejects.toThrow('connection reset');
+
+      redisMock.client = null;
+      expect(await getDevice('device-redis-down')).toBeNull();
+    });
+  });
+});
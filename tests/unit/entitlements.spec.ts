@@ -0,0 +1,100 @@
+/**
+ * Entitlement tests
+ * Tests plan limits, lookup precedence, expiry, and account links
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getEntitlements,
+  getPlanEntitlements,
+  linkDeviceToAccount,
+  setEntitlementOverride,
+  setSubscription,
+} from '@/lib/entitlements';
+
+describe('Entitlements', () => {
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_REQUESTS_PER_HOUR_PRO;
+    delete process.env.QUOTA_UNIT;
+    delete process.env.QUOTA_DAILY_LIMIT;
+    delete process.env.QUOTA_DAILY_LIMIT_PRO;
+    delete process.env.QUOTA_MONTHLY_LIMIT;
+  });
+
+  describe('getPlanEntitlements', () => {
+    it('should keep gpt-5.2 out of the free plan', () => {
+      const free = getPlanEntitlements('free');
+
+      expect(free.models).not.toContain('gpt-5.2');
+      expect(free.models).toContain(free.defaultModels.standard);
+      expect(getPlanEntitlements('pro').models).toContain('gpt-5.2');
+    });
+
+    it('should read per-plan limits from the environment', () => {
+      process.env.RATE_LIMIT_REQUESTS_PER_HOUR_PRO = '750';
+      process.env.QUOTA_UNIT = 'tokens';
+      process.env.QUOTA_DAILY_LIMIT = '20000';
+      process.env.QUOTA_DAILY_LIMIT_PRO = '200000';
+      process.env.QUOTA_MONTHLY_LIMIT = 'lots';
+
+      expect(getPlanEntitlements('free')).toMatchObject({
+        requestsPerHour: 100,
+        quota: { unit: 'tokens', daily: 20000, monthly: undefined },
+      });
+      expect(getPlanEntitlements('pro')).toMatchObject({
+        requestsPerHour: 750,
+        quota: { unit: 'tokens', daily: 200000, monthly: undefined },
+      });
+    });
+
+    it('should have no spend budget by default', () => {
+      expect(getPlanEntitlements('free').quota).toEqual({
+        unit: 'usd',
+        daily: undefined,
+        monthly: undefined,
+      });
+    });
+  });
+
+  describe('getEntitlements', () => {
+    it('should default to the free plan', async () => {
+      expect((await getEntitlements(undefined)).plan).toBe('free');
+      expect((await getEntitlements('device-unknown')).plan).toBe('free');
+    });
+
+    it('should use the device subscription until it expires', async () => {
+      await setSubscription({ deviceToken: 'device-sub' }, { plan: 'pro', expiresAt: 2_000 });
+
+      expect((await getEntitlements('device-sub', 1_000)).plan).toBe('pro');
+      expect((await getEntitlements('device-sub', 3_000)).plan).toBe('free');
+    });
+
+    it('should apply account subscriptions to linked devices', async () => {
+      await setSubscription({ accountId: 'account-1' }, { plan: 'pro' });
+      await linkDeviceToAccount('device-linked', 'account-1');
+
+      expect((await getEntitlements('device-linked')).plan).toBe('pro');
+
+      await linkDeviceToAccount('device-linked', null);
+      expect((await getEntitlements('device-linked')).plan).toBe('free');
+    });
+
+    it('should let overrides take precedence over subscriptions', async () => {
+      await setSubscription({ deviceToken: 'device-override' }, { plan: 'pro' });
+      await setEntitlementOverride({ deviceToken: 'device-override' }, { plan: 'free' });
+
+      expect((await getEntitlements('device-override')).plan).toBe('free');
+
+      await setEntitlementOverride({ deviceToken: 'device-override' }, null);
+      expect((await getEntitlements('device-override')).plan).toBe('pro');
+    });
+
+    it('should prefer an account override over the device subscription', async () => {
+      await setSubscription({ deviceToken: 'device-comp' }, { plan: 'free' });
+      await setEntitlementOverride({ accountId: 'account-comp' }, { plan: 'pro' });
+      await linkDeviceToAccount('device-comp', 'account-comp');
+
+      expect((await getEntitlements('device-comp')).plan).toBe('pro');
+    });
+  });
+});
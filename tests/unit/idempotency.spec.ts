@@ -0,0 +1,140 @@
+/**
+ * Idempotency store tests
+ * Tests claim states, replay windows, and the Redis claim path
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+interface FakeRedis {
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, options?: unknown): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+const redisMock = vi.hoisted(() => {
+  const state: { client: FakeRedis | null } = { client: null };
+  return state;
+});
+
+vi.mock('@/lib/rate-limit', () => ({
+  getRedisClient: () => redisMock.client,
+}));
+
+import {
+  IDEMPOTENCY_CONFIG,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+} from '@/lib/idempotency';
+
+const response = new Uint8Array([10, 3, 1, 2, 3]);
+
+describe('Idempotency Store', () => {
+  afterEach(() => {
+    redisMock.client = null;
+    vi.useRealTimers();
+    delete process.env.IDEMPOTENCY_WINDOW_SECONDS;
+  });
+
+  describe('in-memory store', () => {
+    it('should acquire a new key once and report it pending afterwards', async () => {
+      expect(await claimIdempotencyKey('k-acquire', 'fp')).toEqual({ status: 'acquired' });
+      expect(await claimIdempotencyKey('k-acquire', 'fp')).toEqual({ status: 'pending' });
+    });
+
+    it('should replay the stored response after completion', async () => {
+      await claimIdempotencyKey('k-complete', 'fp');
+      await completeIdempotencyKey('k-complete', 'fp', response);
+
+      const claim = await claimIdempotencyKey('k-complete', 'fp');
+
+      expect(claim.status).toBe('completed');
+      expect(claim.status === 'completed' && Array.from(claim.response)).toEqual(
+        Array.from(response)
+      );
+    });
+
+    it('should report a mismatch for a different fingerprint', async () => {
+      await claimIdempotencyKey('k-mismatch', 'fp-1');
+
+      expect(await claimIdempotencyKey('k-mismatch', 'fp-2')).toEqual({ status: 'mismatch' });
+    });
+
+    it('should allow a new claim after release', async () => {
+      await claimIdempotencyKey('k-release', 'fp');
+      await releaseIdempotencyKey('k-release');
+
+      expect(await claimIdempotencyKey('k-release', 'fp')).toEqual({ status: 'acquired' });
+    });
+
+    it('should expire abandoned claims and completed responses', async () => {
+      vi.useFakeTimers();
+      process.env.IDEMPOTENCY_WINDOW_SECONDS = '60';
+
+      await claimIdempotencyKey('k-abandoned', 'fp');
+      vi.advanceTimersByTime(IDEMPOTENCY_CONFIG.pendingTtlMs + 1);
+      expect(await claimIdempotencyKey('k-abandoned', 'fp')).toEqual({ status: 'acquired' });
+
+      await completeIdempotencyKey('k-abandoned', 'fp', response);
+      vi.advanceTimersByTime(60_001);
+      expect(await claimIdempotencyKey('k-abandoned', 'fp')).toEqual({ status: 'acquired' });
+    });
+  });
+
+  describe('Redis store', () => {
+    function createFakeRedis(): FakeRedis & { values: Map<string, unknown> } {
+      const values = new Map<string, unknown>();
+      return {
+        values,
+        get: vi.fn(async (key: string) => values.get(key) ?? null),
+        set: vi.fn(async (key: string, value: unknown, options?: unknown) => {
+          const nx = typeof options === 'object' && options !== null && 'nx' in options;
+          if (nx && values.has(key)) return null;
+          values.set(key, value);
+          return 'OK';
+        }),
+        del: vi.fn(async (key: string) => values.delete(key)),
+      };
+    }
+
+    it('should claim with SET NX and an expiry', async () => {
+      const redis = createFakeRedis();
+      redisMock.client = redis;
+
+      expect(await claimIdempotencyKey('r-claim', 'fp')).toEqual({ status: 'acquired' });
+      expect(redis.set).toHaveBeenCalledWith(
+        'r-claim',
+        { state: 'pending', fingerprint: 'fp' },
+        { nx: true, px: IDEMPOTENCY_CONFIG.pendingTtlMs }
+      );
+      expect(await claimIdempotencyKey('r-claim', 'fp')).toEqual({ status: 'pending' });
+    });
+
+    it('should store completed responses for the replay window', async () => {
+      const redis = createFakeRedis();
+      redisMock.client = redis;
+      process.env.IDEMPOTENCY_WINDOW_SECONDS = '120';
+
+      await claimIdempotencyKey('r-complete', 'fp');
+      await completeIdempotencyKey('r-complete', 'fp', response);
+
+      expect(redis.set).toHaveBeenLastCalledWith('r-complete', expect.anything(), { ex: 120 });
+      const claim = await claimIdempotencyKey('r-complete', 'fp');
+      expect(claim.status === 'completed' && Array.from(claim.response)).toEqual(
+        Array.from(response)
+      );
+    });
+
+    it('should fall back to memory on Redis errors', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      redisMock.client = {
+        get: vi.fn().mockRejectedValue(new Error('connection refused')),
+        set: vi.fn().mockRejectedValue(new Error('connection refused')),
+        del: vi.fn().mockRejectedValue(new Error('connection refused')),
+      };
+
+      expect(await claimIdempotencyKey('r-down', 'fp')).toEqual({ status: 'acquired' });
+      expect(await claimIdempotencyKey('r-down', 'fp')).toEqual({ status: 'pending' });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Model registry tests
+ * Tests model/alias resolution and tier rules
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_MODELS,
+  MODEL_REGISTRY,
+  getFallbackChain,
+  getModelSpec,
+  isModelId,
+  listModelsForTier,
+  parseFallbackOverrides,
+  resolveModel,
+} from '@/lib/models';
+
+describe('Model Registry', () => {
+  describe('resolveModel', () => {
+    it('should resolve canonical names', () => {
+      expect(resolveModel('gpt-5.2')?.id).toBe('gpt-5.2');
+    });
+
+    it('should resolve aliases', () => {
+      expect(resolveModel('gpt-4o-2024-11-20')?.id).toBe('gpt-4o');
+    });
+
+    it('should resolve unlisted dated snapshots of registered models', () => {
+      expect(resolveModel('gpt-5-mini-2026-01-15')?.id).toBe('gpt-5-mini');
+    });
+
+    it('should return undefined for unknown models', () => {
+      expect(resolveModel('gpt-3.5-turbo')).toBeUndefined();
+      expect(resolveModel('gpt-3.5-turbo-2024-01-01')).toBeUndefined();
+      expect(resolveModel('')).toBeUndefined();
+    });
+
+    it('should not treat prototype properties as models', () => {
+      expect(isModelId('toString')).toBe(false);
+      expect(resolveModel('constructor')).toBeUndefined();
+    });
+  });
+
+  describe('capabilities', () => {
+    it('should use max_completion_tokens and no temperature for gpt-5 models', () => {
+      expect(getModelSpec('gpt-5.2').tokenParam).toBe('max_completion_tokens');
+      expect(getModelSpec('gpt-5.2').supportsTemperature).toBe(false);
+      expect(getModelSpec('gpt-5-mini').tokenParam).toBe('max_completion_tokens');
+    });
+
+    it('should use max_tokens and temperature for gpt-4o models', () => {
+      expect(getModelSpec('gpt-4o').tokenParam).toBe('max_tokens');
+      expect(getModelSpec('gpt-4o-mini').supportsTemperature).toBe(true);
+    });
+
+    it('should keep keys and ids in sync', () => {
+      for (const [key, spec] of Object.entries(MODEL_REGISTRY)) {
+        expect(spec.id).toBe(key);
+      }
+    });
+  });
+
+  describe('tiers', () => {
+    it('should allow every model on the standard tier', () => {
+      expect(listModelsForTier('standard')).toEqual(Object.keys(MODEL_REGISTRY));
+    });
+
+    it('should only allow cheap models on the mini tier', () => {
+      expect(listModelsForTier('mini')).toEqual(['gpt-4o-mini', 'gpt-5-mini']);
+    });
+
+    it('should allow each default model on its own tier', () => {
+      expect(getModelSpec(DEFAULT_MODELS.standard).tiers).toContain('standard');
+      expect(getModelSpec(DEFAULT_MODELS.mini).tiers).toContain('mini');
+    });
+  });
+
+  describe('getFallbackChain', () => {
+    afterEach(() => {
+      delete process.env.MODEL_FALLBACKS;
+    });
+
+    it('should start with the model and follow the default chain', () => {
+      expect(getFallbackChain('gpt-5.2')).toEqual(['gpt-5.2', 'gpt-5-mini', 'gpt-4o-mini']);
+      expect(getFallbackChain('gpt-4o-mini')).toEqual(['gpt-4o-mini']);
+    });
+
+    it('should parse MODEL_FALLBACKS overrides', () => {
+      expect(
+        parseFallbackOverrides('gpt-5.2 = gpt-4o > gpt-4o-mini, gpt-4o-mini=gpt-5-mini')
+      ).toEqual(
+        new Map([
+          ['gpt-5.2', ['gpt-4o', 'gpt-4o-mini']],
+          ['gpt-4o-mini', ['gpt-5-mini']],
+        ])
+      );
+    });
+
+    it('should disable fallback for an empty override', () => {
+      expect(parseFallbackOverrides('gpt-5.2=')).toEqual(new Map([['gpt-5.2', []]]));
+    });
+
+    it('should reject unknown models in MODEL_FALLBACKS', () => {
+      expect(() => parseFallbackOverrides('gpt-5.2=gpt-3.5-turbo')).toThrow(
+        /Unknown model "gpt-3.5-turbo"/
+      );
+    });
+
+    it('should read MODEL_FALLBACKS once at startup', async () => {
+      process.env.MODEL_FALLBACKS = 'gpt-5.2 = gpt-4o > gpt-4o-mini, gpt-4o-mini=gpt-5-mini';
+      vi.resetModules();
+      const configured = await import('@/lib/models');
+
+      process.env.MODEL_FALLBACKS = 'gpt-5.2=gpt-3.5-turbo';
+      expect(configured.getFallbackChain('gpt-5.2')).toEqual(['gpt-5.2', 'gpt-4o', 'gpt-4o-mini']);
+      expect(configured.getFallbackChain('gpt-4o-mini')).toEqual(['gpt-4o-mini', 'gpt-5-mini']);
+      expect(configured.getFallbackChain('gpt-4o')).toEqual(['gpt-4o', 'gpt-4o-mini']);
+
+      vi.resetModules();
+      await expect(import('@/lib/models')).rejects.toThrow('MODEL_FALLBACKS');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Moderation tests
+ * Tests local rules, provider moderation, fallback, and content-free logging
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { ChatMessage } from '@/lib/openai';
+import { moderateMessages, moderateTextLocally } from '@/lib/moderation';
+import { fakeProvider } from '@/lib/providers/fake';
+import { logger } from '@/lib/utils/logger';
+
+const user = (content: string): ChatMessage => ({ role: 'user', content });
+
+describe('Moderation', () => {
+  beforeEach(() => {
+    process.env.MODEL_PROVIDER = 'fake';
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    delete process.env.MODERATION_MODE;
+  });
+
+  describe('moderateTextLocally', () => {
+    it('should flag clear self-harm and violence statements', () => {
+      expect(moderateTextLocally('I want to kill myself').categories).toEqual(['self-harm']);
+      expect(moderateTextLocally('I will stab my coach').categories).toEqual(['violence']);
+    });
+
+    it('should not flag gym vocabulary', () => {
+      for (const text of [
+        'That was a killer workout',
+        'Add suicide sprints at the end',
+        'Leg day is killing me',
+        'How do I shoot for a new PR?',
+      ]) {
+        expect(moderateTextLocally(text).flagged).toBe(false);
+      }
+    });
+  });
+
+  describe('moderateMessages', () => {
+    it('should use the provider endpoint and count categories per message', async () => {
+      const verdict = await moderateMessages(
+        [
+          user('[fake-flag:violence]'),
+          user('[fake-flag:violence] [fake-flag:harassment]'),
+          user('Plan my week'),
+        ],
+        'gpt-4o-mini'
+      );
+
+      expect(verdict).toEqual({
+        flagged: true,
+        categoryCounts: { violence: 2, harassment: 1 },
+        source: 'provider',
+      });
+    });
+
+    it('should only screen user messages', async () => {
+      const moderate = vi.spyOn(fakeProvider, 'moderate');
+
+      const verdict = await moderateMessages(
+        [
+          { role: 'system', content: '[fake-flag:violence]' },
+          { role: 'assistant', content: '[fake-flag:violence]' },
+          user('Plan my week'),
+        ],
+        'gpt-4o-mini'
+      );
+
+      expect(verdict.flagged).toBe(false);
+      expect(moderate).toHaveBeenCalledWith(['Plan my week'], expect.anything());
+    });
+
+    it('should fall back to local rules when the provider fails', async () => {
+      vi.spyOn(fakeProvider, 'moderate').mockRejectedValue(new Error('socket hang up'));
+      const warn = vi.spyOn(logger, 'warn');
+
+      const verdict = await moderateMessages([user('I want to kill myself')], 'gpt-4o-mini');
+
+      expect(verdict.source).toBe('local');
+      expect(verdict.categoryCounts).toEqual({ 'self-harm': 1 });
+      expect(warn).toHaveBeenCalledWith(
+        'Moderation provider failed, using local rules',
+        expect.objectContaining({ provider: 'fake' })
+      );
+    });
+
+    it('should use only local rules in local mode', async () => {
+      process.env.MODERATION_MODE = 'local';
+      const moderate = vi.spyOn(fakeProvider, 'moderate');
+
+      const verdict = await moderateMessages([user('[fake-flag:violence]')], 'gpt-4o-mini');
+
+      expect(moderate).not.toHaveBeenCalled();
+      expect(verdict).toMatchObject({ flagged: false, source: 'local' });
+    });
+
+    it('should skip screening when off', async () => {
+      process.env.MODERATION_MODE = 'off';
+
+      const verdict = await moderateMessages([user('I want to kill myself')], 'gpt-4o-mini');
+
+      expect(verdict.flagged).toBe(false);
+    });
+
+    it('should log category counts without content', async () => {
+      const warn = vi.spyOn(logger, 'warn');
+
+      await moderateMessages([user('secret plan [fake-flag:violence]')], 'gpt-4o-mini');
+
+      expect(warn).toHaveBeenCalledWith('Moderation flagged request', {
+        source: 'provider',
+        categories: { violence: 1 },
+      });
+      expect(JSON.stringify(warn.mock.calls)).not.toContain('secret plan');
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Prompt template tests
+ * Tests template lookup, typed variable validation, and rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getPromptTemplate,
+  listTemplatePlaceholders,
+  renderPromptTemplate,
+  validatePromptVariables,
+  type PromptTemplate,
+} from '@/lib/prompts';
+import { PROMPT_TEMPLATES } from '@/lib/prompts/templates';
+
+const template: PromptTemplate = {
+  name: 'test_template',
+  version: 2,
+  description: 'Test template',
+  variables: {
+    exercise: { type: 'string', description: 'Exercise', maxLength: 20 },
+    unit: { type: 'enum', description: 'Unit', values: ['kg', 'lb'], default: 'kg' },
+    sets: { type: 'integer', description: 'Sets', min: 1, max: 10 },
+    rpe: { type: 'number', description: 'Target RPE', min: 5, max: 10, default: 8 },
+    warmup: { type: 'boolean', description: 'Include warm-up', default: false },
+  },
+  text: '{{sets}} sets of {{exercise}} at RPE {{rpe}} in {{unit}}. Warm-up: {{warmup}}.',
+};
+
+describe('Prompt Templates', () => {
+  describe('getPromptTemplate', () => {
+    it('should find a pinned version', () => {
+      const found = getPromptTemplate('program_generator@1');
+
+      expect(found?.name).toBe('program_generator');
+      expect(found?.version).toBe(1);
+    });
+
+    it('should use the latest version when none is given', () => {
+      const latest = Math.max(
+        ...PROMPT_TEMPLATES.filter((t) => t.name === 'program_generator').map((t) => t.version)
+      );
+
+      expect(getPromptTemplate('program_generator')?.version).toBe(latest);
+    });
+
+    it('should return undefined for unknown names, versions and malformed ids', () => {
+      expect(getPromptTemplate('unknown_template')).toBeUndefined();
+      expect(getPromptTemplate('program_generator@999')).toBeUndefined();
+      expect(getPromptTemplate('program_generator@0')).toBeUndefined();
+      expect(getPromptTemplate('program_generator@latest')).toBeUndefined();
+      expect(getPromptTemplate('')).toBeUndefined();
+    });
+  });
+
+  describe('validatePromptVariables', () => {
+    it('should accept valid values and rely on defaults', () => {
+      expect(validatePromptVariables(template, { exercise: 'Squat', sets: 3 })).toEqual([]);
+    });
+
+    it('should require variables without defaults', () => {
+      const errors = validatePromptVariables(template, { exercise: 'Squat' });
+
+      expect(errors).toEqual(['Prompt template test_template@2: missing variable "sets"']);
+    });
+
+    it('should reject undeclared variables', () => {
+      const errors = validatePromptVariables(template, { exercise: 'Squat', sets: 3, tempo: '3-1-1' });
+
+      expect(errors[0]).toContain('unknown variable "tempo"');
+    });
+
+    it('should check each declared type', () => {
+      const errors = validatePromptVariables(template, {
+        exercise: 3,
+        unit: 'stone',
+        sets: 2.5,
+        rpe: 'hard',
+        warmup: 'yes',
+      });
+
+      expect(errors).toHaveLength(5);
+      expect(errors.join('\n')).toContain('"exercise" must be a string');
+      expect(errors.join('\n')).toContain('"unit" must be one of: kg, lb');
+      expect(errors.join('\n')).toContain('"sets" must be an integer');
+      expect(errors.join('\n')).toContain('"rpe" must be a number');
+      expect(errors.join('\n')).toContain('"warmup" must be a boolean');
+    });
+
+    it('should enforce length and range limits', () => {
+      const errors = validatePromptVariables(template, {
+        exercise: 'Single-leg Romanian deadlift',
+        sets: 12,
+        rpe: 4,
+      });
+
+      expect(errors.join('\n')).toContain('"exercise" exceeds 20 characters');
+      expect(errors.join('\n')).toContain('"sets" must be between 1 and 10');
+      expect(errors.join('\n')).toContain('"rpe" must be between 5 and 10');
+    });
+  });
+
+  describe('renderPromptTemplate', () => {
+    it('should substitute values and defaults', () => {
+      const text = renderPromptTemplate(template, { exercise: 'Squat', sets: 3, warmup: true });
+
+      expect(text).toBe('3 sets of Squat at RPE 8 in kg. Warm-up: yes.');
+    });
+  });
+
+  describe('published templates', () => {
+    it('should have unique name and version pairs', () => {
+      const ids = PROMPT_TEMPLATES.map((t) => `${t.name}@${t.version}`);
+
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it('should declare every placeholder and use every variable', () => {
+      for (const t of PROMPT_TEMPLATES) {
+        expect(listTemplatePlaceholders(t).sort()).toEqual(Object.keys(t.variables).sort());
+      }
+    });
+  });
+});
@@ -4,9 +4,17 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { Tool, ToolSchema, ToolSchema_Property } from '@/lib/generated/repkit/ai/v1/api_pb';
+import {
+  ContentPart,
+  ImagePart,
+  ImagePart_Detail,
+  Tool,
+  ToolSchema,
+  ToolSchema_Property,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
 import {
   protoToOpenAITool,
+  protoToOpenAIContentParts,
   convertProperty,
   convertProperties,
 } from '@/lib/converters/proto-to-openai';
@@ -430,4 +438,56 @@ describe('Proto to OpenAI Conversion', () => {
       expect(result.age.type).toBe('integer');
     });
   });
+
+  describe('protoToOpenAIContentParts', () => {
+    it('should convert text and URL image parts', () => {
+      const result = protoToOpenAIContentParts([
+        new ContentPart({ part: { case: 'text', value: 'Is my squat depth okay?' } }),
+        new ContentPart({
+          part: {
+            case: 'image',
+            value: new ImagePart({
+              source: { case: 'url', value: 'https://example.com/squat.jpg' },
+              detail: ImagePart_Detail.HIGH,
+            }),
+          },
+        }),
+      ]);
+
+      expect(result).toEqual([
+        { type: 'text', text: 'Is my squat depth okay?' },
+        {
+          type: 'image_url',
+          image_url: { url: 'https://example.com/squat.jpg', detail: 'high' },
+        },
+      ]);
+    });
+
+    it('should encode inline image bytes as a data URL', () => {
+      const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      const result = protoToOpenAIContentParts([
+        new ContentPart({
+          part: {
+            case: 'image',
+            value: new ImagePart({
+              source: { case: 'data', value: bytes },
+              mimeType: 'image/png',
+            }),
+          },
+        }),
+      ]);
+
+      expect(result[0]).toEqual({
+        type: 'image_url',
+        image_url: {
+          url: `data:image/png;base64,${Buffer.from(bytes).toString('base64')}`,
+          detail: 'auto',
+        },
+      });
+    });
+
+    it('should skip parts with no content set', () => {
+      expect(protoToOpenAIContentParts([new ContentPart()])).toEqual([]);
+    });
+  });
 });
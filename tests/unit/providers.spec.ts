@@ -0,0 +1,321 @@
+/**
+ * Model provider tests
+ * Tests provider selection, the deterministic fake provider, and cost calculation
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getProviderForModel, parseProviderOverrides } from '@/lib/providers';
+import { fakeProvider } from '@/lib/providers/fake';
+import { ProviderError, classifyHttpStatus } from '@/lib/providers/errors';
+import {
+  calculateCost,
+  createChatCompletion,
+  createChatCompletionStream,
+  createChatCompletionStreamWithFallback,
+  createChatCompletionWithFallback,
+} from '@/lib/openai';
+import type { ChatCompletionRequest } from '@/lib/openai';
+
+const request: ChatCompletionRequest = {
+  messages: [
+    { role: 'system', content: 'You are a coach.' },
+    { role: 'user', content: 'How many sets for hypertrophy?' },
+  ],
+};
+
+describe('Model Providers', () => {
+  afterEach(() => {
+    delete process.env.MODEL_PROVIDER;
+    delete process.env.MODEL_PROVIDER_OVERRIDES;
+  });
+
+  describe('getProviderForModel', () => {
+    it('should default to the OpenAI provider', () => {
+      expect(getProviderForModel('gpt-5.2').name).toBe('openai');
+    });
+
+    it('should use MODEL_PROVIDER for all models', () => {
+      process.env.MODEL_PROVIDER = 'fake';
+      expect(getProviderForModel('gpt-5.2').name).toBe('fake');
+      expect(getProviderForModel('gpt-4o-mini').name).toBe('fake');
+    });
+
+    it('should parse per-model overrides', () => {
+      const overrides = parseProviderOverrides('gpt-4o-mini=fake, gpt-5-mini = openai');
+
+      expect(overrides.get('gpt-4o-mini')).toBe(fakeProvider);
+      expect(overrides.get('gpt-5-mini')?.name).toBe('openai');
+      expect(overrides.has('gpt-5.2')).toBe(false);
+    });
+
+    it('should reject invalid overrides', () => {
+      expect(() => parseProviderOverrides('gpt-4o-mini')).toThrow('MODEL_PROVIDER_OVERRIDES');
+      expect(() => parseProviderOverrides('gpt-3=fake')).toThrow('Unknown model "gpt-3"');
+      expect(() => parseProviderOverrides('gpt-4o-mini=acme')).toThrow(
+        'Unknown model provider "acme"'
+      );
+    });
+
+    it('should read MODEL_PROVIDER_OVERRIDES once at startup', async () => {
+      process.env.MODEL_PROVIDER_OVERRIDES = 'gpt-4o-mini=fake';
+      vi.resetModules();
+      const configured = await import('@/lib/providers');
+
+      process.env.MODEL_PROVIDER_OVERRIDES = 'gpt-4o-mini=acme';
+      expect(configured.getProviderForModel('gpt-4o-mini').name).toBe('fake');
+      expect(configured.getProviderForModel('gpt-5.2').name).toBe('openai');
+
+      vi.resetModules();
+      await expect(import('@/lib/providers')).rejects.toThrow('Unknown model provider "acme"');
+    });
+
+    it('should reject unknown providers', () => {
+      process.env.MODEL_PROVIDER = 'acme';
+      expect(() => getProviderForModel('gpt-5.2')).toThrow('Unknown model provider "acme"');
+    });
+  });
+
+  describe('fakeProvider', () => {
+    it('should return deterministic completions', async () => {
+      const first = await fakeProvider.createChatCompletion('gpt-5.2', request);
+      const second = await fakeProvider.createChatCompletion('gpt-5.2', request);
+
+      expect(first.id).toBe(second.id);
+      expect(first.choices[0].message.content).toBe(second.choices[0].message.content);
+      expect(first.choices[0].message.content).toContain('How many sets for hypertrophy?');
+      expect(first.usage?.prompt_tokens).toBeGreaterThan(0);
+    });
+
+    it('should produce schema-shaped tool call arguments when forced', async () => {
+      const completion = await fakeProvider.createChatCompletion('gpt-5.2', {
+        ...request,
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'log_set',
+              description: 'Log a set',
+              parameters: {
+                type: 'object',
+                properties: {
+                  reps: { type: 'integer' },
+                  side: { type: 'string', enum: ['left', 'right'] },
+                },
+              },
+            },
+          },
+        ],
+        tool_choice: 'required',
+      });
+
+      const toolCall = completion.choices[0].message.tool_calls?.[0];
+      expect(completion.choices[0].finish_reason).toBe('tool_calls');
+      expect(toolCall?.function.name).toBe('log_set');
+      expect(JSON.parse(toolCall!.function.arguments)).toEqual({ reps: 0, side: 'left' });
+    });
+
+    it('should stream content followed by a usage chunk', async () => {
+      const chunks = [];
+      for await (const chunk of fakeProvider.createChatCompletionStream('gpt-4o-mini', request)) {
+        chunks.push(chunk);
+      }
+
+      const content = chunks.map((c) => c.choices[0]?.delta?.content ?? '').join('');
+      const expected = await fakeProvider.createChatCompletion('gpt-4o-mini', request);
+
+      expect(content).toBe(expected.choices[0].message.content);
+      expect(chunks.at(-1)?.choices).toEqual([]);
+      expect(chunks.at(-1)?.usage).toEqual(expected.usage);
+    });
+
+    it('should fail with the requested status marker', async () => {
+      const failing: ChatCompletionRequest = {
+        messages: [{ role: 'user', content: 'hello [fake-error:400]' }],
+      };
+
+      await expect(fakeProvider.createChatCompletion('gpt-5.2', failing)).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+  });
+
+  describe('error classification', () => {
+    it('should treat rate limits and server errors as retryable', () => {
+      expect(classifyHttpStatus(429)).toMatchObject({ kind: 'rate_limit', retryable: true });
+      expect(classifyHttpStatus(503)).toMatchObject({ kind: 'server', retryable: true });
+      expect(classifyHttpStatus(400)).toMatchObject({ kind: 'invalid_request', retryable: false });
+      expect(classifyHttpStatus(401)).toMatchObject({ kind: 'auth', retryable: false });
+    });
+
+    it('should classify fake provider errors by status', () => {
+      expect(fakeProvider.classifyError(new ProviderError('boom', 502)).retryable).toBe(true);
+      expect(fakeProvider.classifyError(new Error('unexpected')).retryable).toBe(false);
+    });
+  });
+
+  describe('completion entry point', () => {
+    it('should dispatch to the configured provider', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      const completion = await createChatCompletion('gpt-5.2', request);
+      expect(completion.id).toMatch(/^fakecmpl-/);
+
+      const chunks = [];
+      for await (const chunk of createChatCompletionStream('gpt-5.2', request)) {
+        chunks.push(chunk);
+      }
+      expect(chunks.length).toBeGreaterThan(2);
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      await expect(
+        createChatCompletion('gpt-5.2', {
+          messages: [{ role: 'user', content: '[fake-error:400]' }],
+        })
+      ).rejects.toBeInstanceOf(ProviderError);
+    });
+  });
+
+  describe('model fallback', () => {
+    const failingFor = (model: string, status: number): ChatCompletionRequest => ({
+      messages: [{ role: 'user', content: `Plan my week [fake-error:${status}@${model}]` }],
+    });
+
+    it('should fall back to the next model after repeated server errors', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      const result = await createChatCompletionWithFallback(
+        ['gpt-5.2', 'gpt-5-mini', 'gpt-4o-mini'],
+        failingFor('gpt-5.2', 503)
+      );
+
+      expect(result.model).toBe('gpt-5-mini');
+      expect(result.completion.model).toBe('gpt-5-mini');
+    });
+
+    it('should not fall back on client errors', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      await expect(
+        createChatCompletionWithFallback(['gpt-5.2', 'gpt-5-mini'], failingFor('gpt-5.2', 400))
+      ).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should throw the last error when every model fails', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      await expect(
+        createChatCompletionWithFallback(['gpt-4o-mini'], failingFor('gpt-4o-mini', 500))
+      ).rejects.toMatchObject({ status: 500 });
+    });
+
+    it('should fall back before the first streamed chunk', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+
+      const { model, stream } = await createChatCompletionStreamWithFallback(
+        ['gpt-5.2', 'gpt-4o-mini'],
+        failingFor('gpt-5.2', 502)
+      );
+
+      const chunks = [];
+      for await (const chunk of stream) {
+        chunks.push(chunk);
+      }
+      expect(model).toBe('gpt-4o-mini');
+      expect(chunks.every((chunk) => chunk.model === 'gpt-4o-mini')).toBe(true);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('should stop retrying when the signal aborts during backoff', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 20);
+      const start = Date.now();
+
+      await expect(
+        createChatCompletion(
+          'gpt-5.2',
+          { messages: [{ role: 'user', content: '[fake-error:503]' }] },
+          { signal: controller.signal }
+        )
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      // Full retry backoff would take ~700ms
+      expect(Date.now() - start).toBeLessThan(500);
+    });
+
+    it('should stop retrying when the next backoff would pass the deadline', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+      const start = Date.now();
+
+      await expect(
+        createChatCompletion(
+          'gpt-5.2',
+          { messages: [{ role: 'user', content: '[fake-error:503]' }] },
+          { deadline: start + 150 }
+        )
+      ).rejects.toMatchObject({ status: 503 });
+      // Full retry backoff would take ~700ms
+      expect(Date.now() - start).toBeLessThan(400);
+    });
+
+    it('should not fall back to other models after the signal aborts', async () => {
+      process.env.MODEL_PROVIDER = 'fake';
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        createChatCompletionWithFallback(['gpt-5.2', 'gpt-4o-mini'], request, {
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('should stop a fake stream between chunks once aborted', async () => {
+      const controller = new AbortController();
+      const received: unknown[] = [];
+
+      await expect(async () => {
+        for await (const chunk of fakeProvider.createChatCompletionStream('gpt-4o-mini', request, {
+          signal: controller.signal,
+        })) {
+          received.push(chunk);
+          controller.abort();
+        }
+      }).rejects.toMatchObject({ name: 'AbortError' });
+      expect(received).toHaveLength(1);
+    });
+
+    it('should classify aborts as non-retryable cancellations', () => {
+      const abort = new DOMException('The operation was aborted', 'AbortError');
+      expect(fakeProvider.classifyError(abort)).toEqual({ kind: 'cancelled', retryable: false });
+    });
+  });
+
+  describe('calculateCost', () => {
+    it('should use OpenAI pricing by default', () => {
+      // 1M uncached input + 1M output on gpt-5.2 = $1.75 + $14.00
+      expect(calculateCost('gpt-5.2', 1_000_000, 1_000_000)).toBeCloseTo(15.75);
+    });
+
+    it('should apply cached input pricing', () => {
+      // 1M cached input on gpt-5.2 = $0.175
+      expect(calculateCost('gpt-5.2', 1_000_000, 0, 1_000_000)).toBeCloseTo(0.175);
+    });
+
+    it('should price dated snapshots like their base model', () => {
+      expect(calculateCost('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15);
+    });
+
+    it('should be free for unknown models', () => {
+      expect(calculateCost('unknown-model', 1_000_000, 1_000_000)).toBe(0);
+    });
+
+    it('should be free for the fake provider', () => {
+      process.env.MODEL_PROVIDER = 'fake';
+      expect(calculateCost('gpt-5.2', 1_000_000, 1_000_000)).toBe(0);
+    });
+  });
+});
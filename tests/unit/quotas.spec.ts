@@ -0,0 +1,157 @@
+/**
+ * Quota store tests
+ * Tests UTC windows, usage measurement, and the Redis path
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+interface FakeRedis {
+  get(key: string): Promise<unknown>;
+  incrbyfloat(key: string, amount: number): Promise<unknown>;
+  expire(key: string, seconds: number): Promise<unknown>;
+}
+
+const redisMock = vi.hoisted(() => {
+  const state: { client: FakeRedis | null } = { client: null };
+  return state;
+});
+
+vi.mock('@/lib/rate-limit', () => ({
+  getRedisClient: () => redisMock.client,
+}));
+
+import {
+  chargeQuota,
+  checkQuota,
+  hasQuota,
+  measureQuotaUsage,
+  type QuotaLimits,
+} from '@/lib/quotas';
+
+const limits: QuotaLimits = { unit: 'tokens', daily: 1000, monthly: 5000 };
+
+// 2026-10-19 12:00 UTC
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+describe('Quotas', () => {
+  afterEach(() => {
+    redisMock.client = null;
+    delete process.env.MODEL_PROVIDER;
+  });
+
+  describe('hasQuota', () => {
+    it('should require a daily or monthly budget', () => {
+      expect(hasQuota({ unit: 'usd' })).toBe(false);
+      expect(hasQuota({ unit: 'usd', monthly: 5 })).toBe(true);
+    });
+  });
+
+  describe('in-memory store', () => {
+    it('should report spend and remaining budget per window', async () => {
+      await chargeQuota('device-spend', limits, 400, NOW);
+
+      const status = await checkQuota('device-spend', limits, NOW);
+
+      expect(status.allowed).toBe(true);
+      expect(status.windows).toEqual([
+        { window: 'daily', limit: 1000, used: 400, remaining: 600, resetAt: Date.UTC(2026, 9, 20) },
+        { window: 'monthly', limit: 5000, used: 400, remaining: 4600, resetAt: Date.UTC(2026, 10, 1) },
+      ]);
+    });
+
+    it('should reject once a budget is used up', async () => {
+      await chargeQuota('device-exhausted', limits, 600, NOW);
+      await chargeQuota('device-exhausted', limits, 450, NOW);
+
+      const status = await checkQuota('device-exhausted', limits, NOW);
+
+      expect(status.allowed).toBe(false);
+      expect(status.exhausted).toMatchObject({ window: 'daily', used: 1050, remaining: 0 });
+    });
+
+    it('should start a new daily window at UTC midnight but keep the month', async () => {
+      await chargeQuota('device-rollover', limits, 1000, NOW);
+
+      const tomorrow = await checkQuota('device-rollover', limits, Date.UTC(2026, 9, 20, 0, 0, 1));
+
+      expect(tomorrow.allowed).toBe(true);
+      expect(tomorrow.windows.map((w) => w.used)).toEqual([0, 1000]);
+    });
+
+    it('should keep budgets per device and unit', async () => {
+      await chargeQuota('device-a', limits, 1000, NOW);
+
+      expect((await checkQuota('device-b', limits, NOW)).allowed).toBe(true);
+      expect((await checkQuota('device-a', { ...limits, unit: 'usd' }, NOW)).allowed).toBe(true);
+    });
+  });
+
+  describe('measureQuotaUsage', () => {
+    const usage = { model: 'gpt-4o-mini', promptTokens: 1000, completionTokens: 500, cachedTokens: 0 };
+
+    it('should count prompt and completion tokens', () => {
+      expect(measureQuotaUsage('tokens', usage)).toBe(1500);
+    });
+
+    it('should price usage with the serving model', () => {
+      process.env.MODEL_PROVIDER = 'openai';
+
+      const mini = measureQuotaUsage('usd', usage);
+      const standard = measureQuotaUsage('usd', { ...usage, model: 'gpt-5.2' });
+
+      expect(mini).toBeGreaterThan(0);
+      expect(standard).toBeGreaterThan(mini);
+    });
+  });
+
+  describe('Redis store', () => {
+    it('should increment counters with a TTL past the window end', async () => {
+      const incrbyfloat = vi.fn(async () => '1');
+      const expire = vi.fn(async (_key: string, _seconds: number) => 1);
+      redisMock.client = { get: vi.fn(), incrbyfloat, expire };
+
+      await chargeQuota('device-redis', limits, 0.25, NOW);
+
+      expect(incrbyfloat).toHaveBeenCalledTimes(2);
+      expect(incrbyfloat.mock.calls[0]).toEqual([expect.stringMatching(/^quota:v1:[0-9a-f]{64}:tokens:d:2026-10-19$/), 0.25]);
+      expect(incrbyfloat.mock.calls[1]).toEqual([expect.stringMatching(/:m:2026-10$/), 0.25]);
+      // 12 hours to midnight plus the grace period
+      expect(expire.mock.calls[0][1]).toBe(12 * 3600 + 3600);
+    });
+
+    it('should read counters stored as strings', async () => {
+      redisMock.client = {
+        get: vi.fn(async () => '1000.5'),
+        incrbyfloat: vi.fn(),
+        expire: vi.fn(),
+      };
+
+      const status = await checkQuota('device-redis-read', limits, NOW);
+
+      expect(status.exhausted).toMatchObject({ window: 'daily', used: 1000.5 });
+    });
+
+    it('should fall back to memory when Redis fails', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      redisMock.client = {
+        get: vi.fn(async () => {
+          throw new Error('connection reset');
+        }),
+        incrbyfloat: vi.fn(async () => {
+          throw new Error('connection reset');
+        }),
+        expire: vi.fn(),
+      };
+
+      try {
+        await chargeQuota('device-redis-down', limits, 300, NOW);
+        const status = await checkQuota('device-redis-down', limits, NOW);
+
+        expect(status.windows[0].used).toBe(300);
+        expect(error).toHaveBeenCalledWith('[Quotas] Redis error, using in-memory fallback', expect.anything());
+      } finally {
+        error.mockRestore();
+      }
+    });
+  });
+});
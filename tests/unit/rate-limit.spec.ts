@@ -0,0 +1,367 @@
+/**
+ * Rate limiter tests
+ * Tests burst behavior at window edges for each algorithm, method weights,
+ * concurrent stream slots, replayed signatures, and the Redis path
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const redisMock = vi.hoisted(() => ({ eval: vi.fn(), zrem: vi.fn(), set: vi.fn() }));
+
+vi.mock('@upstash/redis', () => ({
+  Redis: class {
+    eval = redisMock.eval;
+    zrem = redisMock.zrem;
+    set = redisMock.set;
+  },
+}));
+
+import {
+  acquireStreamSlot,
+  checkRateLimit,
+  claimRequestSignature,
+  getMethodCost,
+  getRateLimitAlgorithm,
+  parseMethodCosts,
+  peekRateLimit,
+} from '@/lib/rate-limit';
+
+const HOUR = 60 * 60 * 1000;
+const LIMIT = 10;
+const START = Date.UTC(2026, 9, 19, 12);
+
+/** Send requests from a device bucket and return how many were allowed */
+async function burst(identifier: string, count: number): Promise<number> {
+  let allowed = 0;
+  for (let i = 0; i < count; i++) {
+    if ((await checkRateLimit(identifier, true, 1, LIMIT)).allowed) allowed++;
+  }
+  return allowed;
+}
+
+describe('Rate Limiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(START);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    delete process.env.RATE_LIMIT_ALGORITHM;
+    delete process.env.RATE_LIMIT_ALGORITHM_NO_TOKEN;
+    delete process.env.RATE_LIMIT_METHOD_COSTS;
+    delete process.env.MAX_CONCURRENT_STREAMS;
+  });
+
+  describe('algorithm selection', () => {
+    it('should default both buckets to the sliding window', () => {
+      expect(getRateLimitAlgorithm(true)).toBe('sliding-window');
+      expect(getRateLimitAlgorithm(false)).toBe('sliding-window');
+    });
+
+    it('should select the algorithm per bucket', () => {
+      process.env.RATE_LIMIT_ALGORITHM = 'token-bucket';
+      process.env.RATE_LIMIT_ALGORITHM_NO_TOKEN = 'fixed-window';
+
+      expect(getRateLimitAlgorithm(true)).toBe('token-bucket');
+      expect(getRateLimitAlgorithm(false)).toBe('fixed-window');
+    });
+  });
+
+  describe('fixed window', () => {
+    beforeEach(() => {
+      process.env.RATE_LIMIT_ALGORITHM = 'fixed-window';
+    });
+
+    it('should admit twice the limit across a window boundary', async () => {
+      await burst('fixed-edge', 1);
+      vi.setSystemTime(START + HOUR - 1);
+      const beforeEdge = await burst('fixed-edge', LIMIT);
+      vi.setSystemTime(START + HOUR + 1);
+      const afterEdge = await burst('fixed-edge', LIMIT);
+
+      // 1 + 9 just before the reset and 10 just after, 2ms apart
+      expect(beforeEdge + afterEdge).toBe(2 * LIMIT - 1);
+    });
+  });
+
+  describe('sliding window', () => {
+    it('should not admit a second burst right after a window edge', async () => {
+      vi.setSystemTime(START + HOUR - 1);
+      expect(await burst('sliding-edge', LIMIT + 1)).toBe(LIMIT);
+
+      vi.setSystemTime(START + HOUR + 1);
+      expect(await burst('sliding-edge', LIMIT)).toBe(0);
+
+      // The whole burst leaves the window an hour after it was sent
+      vi.setSystemTime(START + 2 * HOUR - 1);
+      expect(await burst('sliding-edge', LIMIT)).toBe(LIMIT);
+    });
+
+    it('should free capacity as the oldest requests leave the window', async () => {
+      await burst('sliding-partial', 4);
+      vi.setSystemTime(START + HOUR / 2);
+      await burst('sliding-partial', 6);
+
+      vi.setSystemTime(START + HOUR);
+      const info = await checkRateLimit('sliding-partial', true, 1, LIMIT);
+
+      expect(info).toMatchObject({ allowed: true, remaining: 3 });
+      expect(await burst('sliding-partial', LIMIT)).toBe(3);
+    });
+
+    it('should report when enough requests expire for a denied request', async () => {
+      await burst('sliding-reset', 5);
+      vi.setSystemTime(START + HOUR / 4);
+      await burst('sliding-reset', 5);
+
+      const denied = await checkRateLimit('sliding-reset', true, 6, LIMIT);
+
+      expect(denied.allowed).toBe(false);
+      // The first five free up 5 slots; the sixth needs the second batch
+      expect(denied.resetAt).toBe(START + HOUR / 4 + HOUR);
+    });
+
+    it('should read the bucket without logging a request', async () => {
+      await burst('sliding-peek', 3);
+      vi.setSystemTime(START + HOUR / 2);
+      expect(await peekRateLimit('sliding-peek', true, LIMIT)).toMatchObject({
+        allowed: true,
+        remaining: LIMIT - 3,
+        resetAt: START + HOUR,
+      });
+
+      vi.setSystemTime(START + HOUR + 1);
+      expect(await peekRateLimit('sliding-peek', true, LIMIT)).toMatchObject({
+        remaining: LIMIT,
+        resetAt: START + 2 * HOUR + 1,
+      });
+    });
+  });
+
+  describe('token bucket', () => {
+    beforeEach(() => {
+      process.env.RATE_LIMIT_ALGORITHM = 'token-bucket';
+    });
+
+    it('should allow a full burst, then only the refill rate', async () => {
+      expect(await burst('bucket-burst', LIMIT + 1)).toBe(LIMIT);
+
+      const denied = await checkRateLimit('bucket-burst', true, 1, LIMIT);
+      expect(denied.resetAt).toBe(START + HOUR / LIMIT);
+
+      vi.setSystemTime(START + HOUR / LIMIT);
+      expect(await burst('bucket-burst', LIMIT)).toBe(1);
+    });
+
+    it('should not refill past the limit across a window edge', async () => {
+      vi.setSystemTime(START + HOUR - 1);
+      expect(await burst('bucket-edge', LIMIT)).toBe(LIMIT);
+
+      // Two milliseconds later almost nothing has refilled
+      vi.setSystemTime(START + HOUR + 1);
+      expect(await burst('bucket-edge', LIMIT)).toBe(0);
+
+      // A long pause fills the bucket, but only up to the limit
+      vi.setSystemTime(START + 5 * HOUR);
+      expect(await burst('bucket-edge', 2 * LIMIT)).toBe(LIMIT);
+    });
+  });
+
+  describe('method weights', () => {
+    it('should weight RPCs by default and charge others a full request', () => {
+      expect(getMethodCost('CountTokens')).toBe(0.1);
+      expect(getMethodCost('StreamStandardCompletion')).toBe(2);
+      expect(getMethodCost('CreateStandardCompletion')).toBe(1);
+    });
+
+    it('should parse overrides over the defaults', () => {
+      const costs = parseMethodCosts('StreamStandardCompletion=3, CreateStandardCompletion = 1.5,');
+
+      expect(costs.StreamStandardCompletion).toBe(3);
+      expect(costs.CreateStandardCompletion).toBe(1.5);
+      expect(costs.CountTokens).toBe(0.1);
+    });
+
+    it('should accept free methods', () => {
+      expect(parseMethodCosts('CountTokens=0').CountTokens).toBe(0);
+      expect(getMethodCost('GetQuota')).toBe(0);
+    });
+
+    it('should reject invalid weights', () => {
+      for (const value of ['CountTokens=free', 'CountTokens=-1', 'CountTokens', '=2']) {
+        expect(() => parseMethodCosts(value)).toThrow('RATE_LIMIT_METHOD_COSTS');
+      }
+    });
+
+    it('should read RATE_LIMIT_METHOD_COSTS once at startup', async () => {
+      process.env.RATE_LIMIT_METHOD_COSTS = 'CountTokens=0.2';
+      vi.resetModules();
+      const { getMethodCost: getConfiguredCost } = await import('@/lib/rate-limit');
+
+      process.env.RATE_LIMIT_METHOD_COSTS = 'CountTokens=free';
+      expect(getConfiguredCost('CountTokens')).toBe(0.2);
+
+      vi.resetModules();
+      await expect(import('@/lib/rate-limit')).rejects.toThrow('RATE_LIMIT_METHOD_COSTS');
+    });
+  });
+
+  describe('stream slots', () => {
+    beforeEach(() => {
+      process.env.MAX_CONCURRENT_STREAMS = '2';
+    });
+
+    it('should cap concurrent streams until a slot is released', async () => {
+      const first = await acquireStreamSlot('slots-cap', true);
+      const second = await acquireStreamSlot('slots-cap', true);
+      const third = await acquireStreamSlot('slots-cap', true);
+
+      expect([first.acquired, second.acquired, third.acquired]).toEqual([true, true, false]);
+      expect(third).toMatchObject({ limit: 2, active: 2 });
+
+      await first.release();
+      expect((await acquireStreamSlot('slots-cap', true)).acquired).toBe(true);
+    });
+
+    it('should only free one slot when released twice', async () => {
+      const first = await acquireStreamSlot('slots-twice', true);
+      await acquireStreamSlot('slots-twice', true);
+
+      await first.release();
+      await first.release();
+
+      expect((await acquireStreamSlot('slots-twice', true)).acquired).toBe(true);
+      expect((await acquireStreamSlot('slots-twice', true)).acquired).toBe(false);
+    });
+
+    it('should expire slots that are never released', async () => {
+      await acquireStreamSlot('slots-leaked', true);
+      await acquireStreamSlot('slots-leaked', true);
+
+      vi.setSystemTime(START + 15 * 60 * 1000);
+
+      expect((await acquireStreamSlot('slots-leaked', true)).acquired).toBe(true);
+    });
+  });
+
+  describe('request signatures', () => {
+    it('should accept a signature once until it expires', async () => {
+      expect(await claimRequestSignature('sig-once', START + 1000)).toBe(true);
+      expect(await claimRequestSignature('sig-once', START + 1000)).toBe(false);
+      expect(await claimRequestSignature('sig-other', START + 1000)).toBe(true);
+
+      vi.setSystemTime(START + 1000);
+      expect(await claimRequestSignature('sig-once', START + 2000)).toBe(true);
+    });
+
+    it('should let only one of concurrent duplicates through', async () => {
+      const claims = await Promise.all(
+        Array.from({ length: 5 }, () => claimRequestSignature('sig-concurrent', START + 1000))
+      );
+
+      expect(claims.filter(Boolean)).toHaveLength(1);
+    });
+  });
+
+  describe('Redis', () => {
+    beforeEach(() => {
+      process.env.UPSTASH_REDIS_REST_URL = 'https://redis.example.com';
+      process.env.UPSTASH_REDIS_REST_TOKEN = 'token';
+      vi.resetModules();
+      redisMock.eval.mockReset();
+      redisMock.zrem.mockReset();
+      redisMock.set.mockReset();
+    });
+
+    afterEach(() => {
+      delete process.env.UPSTASH_REDIS_REST_URL;
+      delete process.env.UPSTASH_REDIS_REST_TOKEN;
+    });
+
+    it('should run one script per check with the bucket settings', async () => {
+      const { checkRateLimit: checkRedis } = await import('@/lib/rate-limit');
+      redisMock.eval.mockResolvedValue([1, '2.5', String(START + HOUR)]);
+
+      const info = await checkRedis('redis-device', true, 0.5, LIMIT);
+
+      expect(redisMock.eval).toHaveBeenCalledTimes(1);
+      expect(redisMock.eval).toHaveBeenCalledWith(
+        expect.stringContaining('ZREMRANGEBYSCORE'),
+        ['ratelimit:sw:redis-device'],
+        [String(START), String(HOUR), String(LIMIT), '0.5', expect.any(String)]
+      );
+      expect(info).toEqual({ allowed: true, limit: LIMIT, remaining: 7, resetAt: START + HOUR });
+    });
+
+    it('should read remaining tokens from the token bucket script', async () => {
+      process.env.RATE_LIMIT_ALGORITHM = 'token-bucket';
+      const { checkRateLimit: checkRedis } = await import('@/lib/rate-limit');
+      redisMock.eval.mockResolvedValue([0, '0.4', String(START + 216_000)]);
+
+      const info = await checkRedis('redis-bucket', true, 1, LIMIT);
+
+      expect(redisMock.eval.mock.calls[0][1]).toEqual(['ratelimit:tb:redis-bucket']);
+      expect(info).toEqual({ allowed: false, limit: LIMIT, remaining: 0, resetAt: START + 216_000 });
+    });
+
+    it('should fall back to memory when the script fails', async () => {
+      const { checkRateLimit: checkRedis } = await import('@/lib/rate-limit');
+      redisMock.eval.mockRejectedValue(new Error('connection reset'));
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      try {
+        const info = await checkRedis('redis-down', true, 1, LIMIT);
+
+        expect(info).toMatchObject({ allowed: true, remaining: LIMIT - 1 });
+        expect(error).toHaveBeenCalledWith('[Rate Limit] Redis error, using in-memory fallback', expect.anything());
+      } finally {
+        error.mockRestore();
+      }
+    });
+
+    it('should take stream slots with a script and release them with ZREM', async () => {
+      const { acquireStreamSlot: acquireRedis } = await import('@/lib/rate-limit');
+      redisMock.eval.mockResolvedValue([1, 1]);
+      redisMock.zrem.mockResolvedValue(1);
+
+      const slot = await acquireRedis('redis-streams', false);
+
+      expect(redisMock.eval).toHaveBeenCalledWith(
+        expect.stringContaining('ZCARD'),
+        ['streams:redis-streams'],
+        [String(START), String(15 * 60 * 1000), '10', expect.any(String)]
+      );
+      expect(slot).toMatchObject({ acquired: true, limit: 10, active: 1 });
+
+      await slot.release();
+      await slot.release();
+
+      expect(redisMock.zrem).toHaveBeenCalledTimes(1);
+      expect(redisMock.zrem).toHaveBeenCalledWith(
+        'streams:redis-streams',
+        redisMock.eval.mock.calls[0][2][3]
+      );
+    });
+
+    it('should not release a stream slot it was refused', async () => {
+      const { acquireStreamSlot: acquireRedis } = await import('@/lib/rate-limit');
+      redisMock.eval.mockResolvedValue([0, 10]);
+
+      const slot = await acquireRedis('redis-full', false);
+      await slot.release();
+
+      expect(slot).toMatchObject({ acquired: false, active: 10 });
+      expect(redisMock.zrem).not.toHaveBeenCalled();
+    });
+
+    it('should record signatures with SET NX until they expire', async () => {
+      const { claimRequestSignature: claimRedis } = await import('@/lib/rate-limit');
+      redisMock.set.mockResolvedValueOnce('OK').mockResolvedValueOnce(null);
+
+      expect(await claimRedis('sig-redis', START + 300_000)).toBe(true);
+      expect(await claimRedis('sig-redis', START + 300_000)).toBe(false);
+      expect(redisMock.set).toHaveBeenCalledWith('replay:sig-redis', '1', { nx: true, px: 300_000 });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * PII redaction tests
+ * Tests each detector, stable placeholders, and restoring replies and streams
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  createPiiRedaction,
+  getEnabledPiiDetectors,
+  isPiiRedactionEnabled,
+  redactMessages,
+  redactText,
+  restoreCompletion,
+  restoreStream,
+  restoreText,
+  type PiiDetector,
+} from '@/lib/redaction';
+import type {
+  OpenAIChatCompletionChunk,
+  OpenAIChatCompletionResponse,
+} from '@/lib/types/openai-api';
+
+/** Redact a text with only the given detector */
+function redactWith(detector: PiiDetector, text: string): string {
+  return redactText(createPiiRedaction([detector]), text);
+}
+
+function chunk(content: string | null, finishReason: string | null = null): OpenAIChatCompletionChunk {
+  return {
+    id: 'chunk',
+    model: 'gpt-4o-mini',
+    created: 0,
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta: { content }, finish_reason: finishReason }],
+  };
+}
+
+async function* streamOf(chunks: OpenAIChatCompletionChunk[]): AsyncGenerator<OpenAIChatCompletionChunk> {
+  yield* chunks;
+}
+
+async function collectContent(stream: AsyncIterable<OpenAIChatCompletionChunk>): Promise<string[]> {
+  const contents: string[] = [];
+  for await (const c of stream) {
+    contents.push(c.choices[0]?.delta?.content ?? '');
+  }
+  return contents;
+}
+
+describe('PII Redaction', () => {
+  afterEach(() => {
+    delete process.env.PII_REDACTION;
+    delete process.env.PII_DETECTORS;
+  });
+
+  describe('email detector', () => {
+    it('should redact email addresses', () => {
+      expect(redactWith('email', 'Send it to jane.doe+gym@example.co.uk please')).toBe(
+        'Send it to [EMAIL_1] please'
+      );
+    });
+
+    it('should ignore text without a domain', () => {
+      expect(redactWith('email', 'Bench @ 100kg, ping @coach')).toBe('Bench @ 100kg, ping @coach');
+    });
+  });
+
+  describe('phone detector', () => {
+    it('should redact common phone formats', () => {
+      for (const phone of ['+1 415 555 2671', '(415) 555-2671', '415.555.2671', '+44 20 7946 0958', '07700 900123']) {
+        expect(redactWith('phone', `Call ${phone} today`)).toBe('Call [PHONE_1] today');
+      }
+    });
+
+    it('should not redact workout numbers or dates', () => {
+      for (const text of ['Sets: 135-185-225 lbs', '5x5 at 100 kg on 2026-10-19', 'Ran 5000 m in 1200 s']) {
+        expect(redactWith('phone', text)).toBe(text);
+      }
+    });
+  });
+
+  describe('card detector', () => {
+    it('should redact numbers that pass the Luhn check', () => {
+      expect(redactWith('card', 'Card 4111 1111 1111 1111 expired')).toBe('Card [CARD_1] expired');
+      expect(redactWith('card', 'Card 5500-0000-0000-0004')).toBe('Card [CARD_1]');
+    });
+
+    it('should keep long numbers that fail the Luhn check', () => {
+      expect(redactWith('card', 'Order 4111 1111 1111 1112')).toBe('Order 4111 1111 1111 1112');
+    });
+  });
+
+  describe('address detector', () => {
+    it('should redact street addresses', () => {
+      expect(redactWith('address', 'My gym is at 221 Baker Street, Apt 4B now')).toBe(
+        'My gym is at [ADDRESS_1] now'
+      );
+      expect(redactWith('address', 'Meet at 1600 Amphitheatre Pkwy.')).toBe('Meet at [ADDRESS_1]');
+    });
+
+    it('should not redact exercise descriptions', () => {
+      const text = '3 Sets Romanian Deadlift and 12 reps of lunges';
+      expect(redactWith('address', text)).toBe(text);
+    });
+  });
+
+  describe('placeholders', () => {
+    it('should reuse placeholders for the same value across messages', () => {
+      const redaction = createPiiRedaction();
+
+      const messages = redactMessages(redaction, [
+        { role: 'user', content: 'Email JANE@example.com or call 415-555-2671' },
+        { role: 'assistant', content: 'Noted jane@example.com' },
+        { role: 'user', content: [{ type: 'text', text: 'Also bob@example.com, (415) 555-2671' }] },
+      ]);
+
+      expect(messages[0].content).toBe('Email [EMAIL_1] or call [PHONE_1]');
+      expect(messages[1].content).toBe('Noted [EMAIL_1]');
+      expect(messages[2].content).toEqual([{ type: 'text', text: 'Also [EMAIL_2], [PHONE_1]' }]);
+    });
+
+    it('should give card numbers priority over phone numbers', () => {
+      expect(redactText(createPiiRedaction(), '4111111111111111')).toBe('[CARD_1]');
+    });
+
+    it('should redact tool call arguments', () => {
+      const [message] = redactMessages(createPiiRedaction(), [
+        {
+          role: 'assistant',
+          content: null,
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'notify', arguments: '{"to":"a@b.io"}' } },
+          ],
+        },
+      ]);
+
+      expect(message.tool_calls?.[0].function.arguments).toBe('{"to":"[EMAIL_1]"}');
+    });
+  });
+
+  describe('restore', () => {
+    it('should restore only placeholders issued for the request', () => {
+      const redaction = createPiiRedaction();
+      redactText(redaction, 'jane@example.com');
+
+      expect(restoreText(redaction, 'Hi [EMAIL_1], not [EMAIL_2]')).toBe(
+        'Hi jane@example.com, not [EMAIL_2]'
+      );
+    });
+
+    it('should JSON-escape values restored into JSON', () => {
+      const redaction = createPiiRedaction();
+      // Values that need escaping (detected values rarely do)
+      redaction.originals.set('[ADDRESS_1]', '10 "Main" Street\\Apt 2');
+
+      expect(JSON.parse(restoreText(redaction, '{"where":"[ADDRESS_1]"}', true))).toEqual({
+        where: '10 "Main" Street\\Apt 2',
+      });
+    });
+
+    it('should restore completion content and tool call arguments', () => {
+      const redaction = createPiiRedaction();
+      redactText(redaction, 'jane@example.com');
+      const completion: OpenAIChatCompletionResponse = {
+        id: 'c',
+        model: 'gpt-4o-mini',
+        created: 0,
+        object: 'chat.completion',
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'stop',
+            message: {
+              content: 'Sent to [EMAIL_1]',
+              tool_calls: [
+                { id: 't', type: 'function', function: { name: 'notify', arguments: '{"to":"[EMAIL_1]"}' } },
+              ],
+            },
+          },
+        ],
+      };
+
+      const restored = restoreCompletion(redaction, completion);
+
+      expect(restored.choices[0].message.content).toBe('Sent to jane@example.com');
+      expect(restored.choices[0].message.tool_calls?.[0].function.arguments).toBe(
+        '{"to":"jane@example.com"}'
+      );
+      expect(completion.choices[0].message.content).toBe('Sent to [EMAIL_1]');
+    });
+
+    it('should restore placeholders split across stream chunks', async () => {
+      const redaction = createPiiRedaction();
+      redactText(redaction, 'jane@example.com');
+
+      const contents = await collectContent(
+        restoreStream(
+          redaction,
+          streamOf([chunk('Write to [EMA'), chunk('IL_1] today ['), chunk('soon', 'stop')])
+        )
+      );
+
+      expect(contents).toEqual(['Write to ', 'jane@example.com today ', '[soon']);
+    });
+
+    it('should release held-back text before the usage chunk', async () => {
+      const redaction = createPiiRedaction();
+      redactText(redaction, 'jane@example.com');
+      const usage: OpenAIChatCompletionChunk = { ...chunk(null), choices: [] };
+
+      const contents = await collectContent(
+        restoreStream(redaction, streamOf([chunk('Bye [EMAIL_1'), usage]))
+      );
+
+      expect(contents).toEqual(['Bye ', '[EMAIL_1', '']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should be enabled globally or per request', () => {
+      expect(isPiiRedactionEnabled(undefined)).toBe(false);
+      expect(isPiiRedactionEnabled(true)).toBe(true);
+
+      process.env.PII_REDACTION = 'on';
+      expect(isPiiRedactionEnabled(false)).toBe(true);
+    });
+
+    it('should read the detector list', () => {
+      expect(getEnabledPiiDetectors()).toEqual(['email', 'card', 'phone', 'address']);
+
+      process.env.PII_DETECTORS = 'phone, email, names';
+      expect(getEnabledPiiDetectors()).toEqual(['email', 'phone']);
+    });
+  });
+});
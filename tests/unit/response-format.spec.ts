@@ -0,0 +1,147 @@
+/**
+ * Response format tests
+ * Tests validateResponseFormat and protoToOpenAIResponseFormat
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  JsonSchemaFormat,
+  ResponseFormat,
+  ResponseFormat_Type,
+  ToolSchema,
+  ToolSchema_Property,
+} from '@/lib/generated/repkit/ai/v1/api_pb';
+import { validateResponseFormat } from '@/lib/validators/response-format';
+import { protoToOpenAIResponseFormat } from '@/lib/converters/proto-to-openai';
+
+function exerciseSchemaFormat(strict: boolean, schema?: ToolSchema): ResponseFormat {
+  return new ResponseFormat({
+    type: ResponseFormat_Type.JSON_SCHEMA,
+    jsonSchema: new JsonSchemaFormat({
+      name: 'exercise_classification',
+      strict,
+      schema:
+        schema ??
+        new ToolSchema({
+          properties: {
+            muscle_group: new ToolSchema_Property({
+              type: 'string',
+              enum: ['chest', 'back', 'legs'],
+            }),
+            compound: new ToolSchema_Property({ type: 'boolean' }),
+          },
+          required: ['muscle_group', 'compound'],
+          additionalProperties: false,
+        }),
+    }),
+  });
+}
+
+describe('Response Format', () => {
+  describe('validateResponseFormat', () => {
+    it('should accept text and json_object formats', () => {
+      expect(validateResponseFormat(new ResponseFormat({ type: ResponseFormat_Type.TEXT }))).toEqual([]);
+      expect(
+        validateResponseFormat(new ResponseFormat({ type: ResponseFormat_Type.JSON_OBJECT }))
+      ).toEqual([]);
+    });
+
+    it('should accept a valid strict json_schema', () => {
+      expect(validateResponseFormat(exerciseSchemaFormat(true))).toEqual([]);
+    });
+
+    it('should require json_schema when type is JSON_SCHEMA', () => {
+      const errors = validateResponseFormat(
+        new ResponseFormat({ type: ResponseFormat_Type.JSON_SCHEMA })
+      );
+      expect(errors[0]).toContain('json_schema is required');
+    });
+
+    it('should reject json_schema with a non-schema type', () => {
+      const format = exerciseSchemaFormat(false);
+      format.type = ResponseFormat_Type.JSON_OBJECT;
+
+      expect(validateResponseFormat(format)[0]).toContain('only allowed when type is JSON_SCHEMA');
+    });
+
+    it('should reject invalid schema names', () => {
+      const format = exerciseSchemaFormat(false);
+      format.jsonSchema!.name = 'bad name!';
+
+      expect(validateResponseFormat(format).some((e) => e.includes('is invalid'))).toBe(true);
+    });
+
+    it('should reject a schema without properties', () => {
+      const errors = validateResponseFormat(exerciseSchemaFormat(false, new ToolSchema()));
+      expect(errors).toEqual(['Response format schema must have a properties object']);
+    });
+
+    it('should apply tool strict mode rules to the schema', () => {
+      const schema = new ToolSchema({
+        properties: {
+          sets: new ToolSchema_Property({ type: 'integer' }),
+          notes: new ToolSchema_Property({ type: 'string' }),
+        },
+        required: ['sets'],
+      });
+
+      const errors = validateResponseFormat(exerciseSchemaFormat(true, schema));
+      expect(errors.some((e) => e.includes('additionalProperties: false at top level'))).toBe(true);
+      expect(errors.some((e) => e.includes('Missing: notes'))).toBe(true);
+      expect(errors.every((e) => e.startsWith('Response format "exercise_classification"'))).toBe(true);
+    });
+
+    it('should apply nested property rules to the schema', () => {
+      const schema = new ToolSchema({
+        properties: {
+          sets: new ToolSchema_Property({ type: 'tuple' }),
+        },
+      });
+
+      const errors = validateResponseFormat(exerciseSchemaFormat(false, schema));
+      expect(errors.some((e) => e.includes('invalid type "tuple"'))).toBe(true);
+    });
+  });
+
+  describe('protoToOpenAIResponseFormat', () => {
+    it('should return undefined when not set', () => {
+      expect(protoToOpenAIResponseFormat(undefined)).toBeUndefined();
+    });
+
+    it('should treat unspecified type as text', () => {
+      expect(protoToOpenAIResponseFormat(new ResponseFormat())).toEqual({ type: 'text' });
+    });
+
+    it('should convert json_object', () => {
+      expect(
+        protoToOpenAIResponseFormat(new ResponseFormat({ type: ResponseFormat_Type.JSON_OBJECT }))
+      ).toEqual({ type: 'json_object' });
+    });
+
+    it('should convert json_schema with nested schema', () => {
+      const result = protoToOpenAIResponseFormat(exerciseSchemaFormat(true));
+
+      expect(result).toEqual({
+        type: 'json_schema',
+        json_schema: {
+          name: 'exercise_classification',
+          description: undefined,
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: {
+              muscle_group: {
+                type: 'string',
+                description: undefined,
+                enum: ['chest', 'back', 'legs'],
+              },
+              compound: { type: 'boolean', description: undefined, enum: undefined },
+            },
+            required: ['muscle_group', 'compound'],
+            additionalProperties: false,
+          },
+        },
+      });
+    });
+  });
+});
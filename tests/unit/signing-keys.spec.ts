@@ -0,0 +1,70 @@
+/**
+ * Signing keyring tests
+ * Tests key lookup by id, retiring keys, and the legacy HMAC_SECRET key
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getSigningKey, getSigningKeyring } from '@/lib/signing-keys';
+
+describe('Signing Keys', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    delete process.env.HMAC_KEYS;
+    delete process.env.HMAC_RETIRING_KEYS;
+    delete process.env.HMAC_SECRET;
+  });
+
+  it('should read active and retiring keys', () => {
+    process.env.HMAC_KEYS = 'k3=secret-3, k2=secret=with=equals';
+    process.env.HMAC_RETIRING_KEYS = 'k1=secret-1';
+
+    expect(getSigningKeyring()).toEqual([
+      { id: 'k3', secret: 'secret-3', status: 'active' },
+      { id: 'k2', secret: 'secret=with=equals', status: 'active' },
+      { id: 'k1', secret: 'secret-1', status: 'retiring' },
+    ]);
+  });
+
+  it('should pick the key by id', () => {
+    process.env.HMAC_KEYS = 'k2=secret-2';
+    process.env.HMAC_RETIRING_KEYS = 'k1=secret-1';
+
+    expect(getSigningKey('k1')).toEqual({ id: 'k1', secret: 'secret-1', status: 'retiring' });
+    expect(getSigningKey('k9')).toBeNull();
+  });
+
+  it('should use HMAC_SECRET without a key id', () => {
+    process.env.HMAC_SECRET = 'shared-secret';
+
+    expect(getSigningKey(undefined)).toEqual({
+      id: 'legacy',
+      secret: 'shared-secret',
+      status: 'active',
+    });
+  });
+
+  it('should retire the legacy key once a keyring is configured', () => {
+    process.env.HMAC_SECRET = 'shared-secret';
+    process.env.HMAC_KEYS = 'k1=secret-1';
+
+    expect(getSigningKey(undefined)?.status).toBe('retiring');
+    expect(getSigningKey('legacy')).toBeNull();
+  });
+
+  it('should reject malformed entries', () => {
+    process.env.HMAC_KEYS = 'k1';
+    expect(() => getSigningKeyring()).toThrow('HMAC_KEYS');
+
+    process.env.HMAC_KEYS = 'legacy=secret';
+    expect(() => getSigningKeyring()).toThrow('HMAC_KEYS');
+  });
+
+  it('should require HMAC_SECRET in production for requests without a key id', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    delete process.env.HMAC_SECRET;
+    process.env.HMAC_KEYS = 'k1=secret-1';
+
+    expect(() => getSigningKey(undefined)).toThrow('HMAC_SECRET');
+    expect(getSigningKey('k1')?.secret).toBe('secret-1');
+  });
+});